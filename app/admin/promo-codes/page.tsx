@@ -0,0 +1,264 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import BackButton from "@/components/ui/back-button"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { supabase } from "@/lib/supabase"
+import type { PromoCodeStats } from "@/lib/supabase/types"
+
+const EMPTY_FORM = {
+  code: "",
+  credits: "5",
+  description: "",
+  expiresAt: "",
+  maxRedemptions: "",
+  singleUsePerUser: true,
+}
+
+/**
+ * Promo code status shown as a badge
+ */
+function getCodeStatus(code: PromoCodeStats): { label: string; className: string } {
+  if (!code.active) return { label: "inactive", className: "bg-gray-100 text-gray-700" }
+  if (code.expires_at && new Date(code.expires_at) <= new Date()) {
+    return { label: "expired", className: "bg-amber-100 text-amber-800" }
+  }
+  if (code.max_redemptions && code.redemption_count >= code.max_redemptions) {
+    return { label: "used up", className: "bg-orange-100 text-orange-800" }
+  }
+  return { label: "active", className: "bg-green-100 text-green-800" }
+}
+
+export default function PromoCodesAdminPage() {
+  const [session, setSession] = useState<any>(null)
+  const [codes, setCodes] = useState<PromoCodeStats[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [isCreating, setIsCreating] = useState(false)
+  const [createResult, setCreateResult] = useState<string | null>(null)
+
+  // Load session on mount
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setSession(session)
+      if (!session) {
+        setIsLoading(false)
+        setError("Please sign in as an admin")
+      }
+    })
+  }, [])
+
+  // Fetch codes with their redemption stats
+  const fetchCodes = async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/admin/promo-codes', {
+        headers: {
+          'Authorization': `Bearer ${session?.access_token}`
+        }
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch promo codes')
+      }
+
+      setCodes(data.codes)
+    } catch (err) {
+      console.error('Failed to fetch promo codes:', err)
+      setError(err instanceof Error ? err.message : 'Failed to fetch promo codes')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (session) {
+      fetchCodes()
+    }
+  }, [session])
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setIsCreating(true)
+    setCreateResult(null)
+    try {
+      const response = await fetch('/api/admin/promo-codes', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session?.access_token}`
+        },
+        body: JSON.stringify({
+          code: form.code || undefined,
+          credits: Number(form.credits),
+          description: form.description,
+          expires_at: form.expiresAt ? new Date(form.expiresAt).toISOString() : null,
+          max_redemptions: form.maxRedemptions ? Number(form.maxRedemptions) : null,
+          single_use_per_user: form.singleUsePerUser,
+        })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create promo code')
+      }
+
+      setCreateResult(`Created ${data.code.code}`)
+      setForm(EMPTY_FORM)
+      await fetchCodes()
+    } catch (err) {
+      console.error('Failed to create promo code:', err)
+      setCreateResult(err instanceof Error ? err.message : 'Failed to create promo code')
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200 px-6 py-4">
+        <div className="flex items-center space-x-4">
+          <BackButton />
+          <h1 className="text-2xl font-bold text-gray-900">Promo Codes</h1>
+        </div>
+      </header>
+
+      <div className="max-w-5xl mx-auto p-6 space-y-6">
+        {/* Create code */}
+        <Card>
+          <CardHeader>
+            <CardTitle>New Code</CardTitle>
+            <CardDescription>Leave the code empty to generate one</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="promo-code">Code</Label>
+                  <Input
+                    id="promo-code"
+                    placeholder="WORKSHOP-OCT"
+                    value={form.code}
+                    onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="promo-credits">Credits</Label>
+                  <Input
+                    id="promo-credits"
+                    type="number"
+                    min={1}
+                    required
+                    value={form.credits}
+                    onChange={(e) => setForm({ ...form, credits: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="promo-max">Max redemptions</Label>
+                  <Input
+                    id="promo-max"
+                    type="number"
+                    min={1}
+                    placeholder="Unlimited"
+                    value={form.maxRedemptions}
+                    onChange={(e) => setForm({ ...form, maxRedemptions: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="promo-expires">Expires</Label>
+                  <Input
+                    id="promo-expires"
+                    type="datetime-local"
+                    value={form.expiresAt}
+                    onChange={(e) => setForm({ ...form, expiresAt: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1 md:col-span-2">
+                  <Label htmlFor="promo-description">Description</Label>
+                  <Input
+                    id="promo-description"
+                    placeholder="October workshop attendees"
+                    value={form.description}
+                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  />
+                </div>
+              </div>
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.singleUsePerUser}
+                  onChange={(e) => setForm({ ...form, singleUsePerUser: e.target.checked })}
+                />
+                <span>Each user can redeem this code once</span>
+              </label>
+              <div className="flex items-center space-x-4">
+                <Button type="submit" disabled={isCreating}>
+                  {isCreating ? "Creating..." : "Create code"}
+                </Button>
+                {createResult && <span className="text-sm text-gray-700">{createResult}</span>}
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Codes and stats */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Codes</CardTitle>
+            <CardDescription>Redemptions and credits awarded per code</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {error ? (
+              <p className="text-sm text-red-600">{error}</p>
+            ) : isLoading ? (
+              <p className="text-sm text-gray-500">Loading promo codes...</p>
+            ) : codes.length === 0 ? (
+              <p className="text-sm text-gray-500">No promo codes yet</p>
+            ) : (
+              <div className="space-y-2">
+                {codes.map((code) => {
+                  const status = getCodeStatus(code)
+                  return (
+                    <div
+                      key={code.id}
+                      className="flex items-center justify-between rounded-md border border-gray-200 p-3"
+                    >
+                      <div className="min-w-0 space-y-1">
+                        <div className="flex items-center space-x-2">
+                          <Badge className={status.className}>{status.label}</Badge>
+                          <span className="text-sm font-mono font-medium text-gray-900">{code.code}</span>
+                          <span className="text-xs text-gray-500">{code.credits} credits</span>
+                        </div>
+                        <p className="text-xs text-gray-500">
+                          {code.description && `${code.description} · `}
+                          {code.single_use_per_user ? "once per user" : "repeatable"}
+                          {code.expires_at && ` · expires ${new Date(code.expires_at).toLocaleString()}`}
+                        </p>
+                      </div>
+                      <div className="text-right text-sm">
+                        <div className="font-medium text-gray-900">
+                          {code.redemption_count}
+                          {code.max_redemptions ? ` / ${code.max_redemptions}` : ""} redeemed
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {code.unique_users} users · {code.credits_awarded} credits awarded
+                          {code.last_redeemed_at && ` · last ${new Date(code.last_redeemed_at).toLocaleDateString()}`}
+                        </div>
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,215 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import BackButton from "@/components/ui/back-button"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { supabase } from "@/lib/supabase"
+import type { WebhookEvent, WebhookEventOutcome } from "@/lib/generation/webhook-events"
+
+const OUTCOME_FILTERS: Array<WebhookEventOutcome | 'all'> = [
+  'all', 'applied', 'ignored', 'unknown_job', 'rejected', 'error', 'pending'
+]
+
+const OUTCOME_STYLES: Record<WebhookEventOutcome, string> = {
+  applied: "bg-green-100 text-green-800",
+  ignored: "bg-gray-100 text-gray-700",
+  unknown_job: "bg-amber-100 text-amber-800",
+  rejected: "bg-orange-100 text-orange-800",
+  error: "bg-red-100 text-red-800",
+  pending: "bg-blue-100 text-blue-800",
+}
+
+export default function WebhookEventsAdminPage() {
+  const [session, setSession] = useState<any>(null)
+  const [events, setEvents] = useState<WebhookEvent[]>([])
+  const [outcomeFilter, setOutcomeFilter] = useState<WebhookEventOutcome | 'all'>('all')
+  const [currentPage, setCurrentPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(1)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [replayingId, setReplayingId] = useState<string | null>(null)
+  const [replayResult, setReplayResult] = useState<string | null>(null)
+
+  // Load session on mount
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setSession(session)
+      if (!session) {
+        setIsLoading(false)
+        setError("Please sign in as an admin")
+      }
+    })
+  }, [])
+
+  // Fetch stored webhook events
+  const fetchEvents = async (page: number) => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({ page: String(page), limit: '25' })
+      if (outcomeFilter !== 'all') params.set('outcome', outcomeFilter)
+
+      const response = await fetch(`/api/admin/webhook-events?${params}`, {
+        headers: {
+          'Authorization': `Bearer ${session?.access_token}`
+        }
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch webhook events')
+      }
+
+      setEvents(data.events)
+      setTotalPages(Math.max(data.pagination.totalPages, 1))
+    } catch (err) {
+      console.error('Failed to fetch webhook events:', err)
+      setError(err instanceof Error ? err.message : 'Failed to fetch webhook events')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (session) {
+      fetchEvents(currentPage)
+    }
+  }, [session, currentPage, outcomeFilter])
+
+  // Re-apply a stored event to its job
+  const handleReplay = async (event: WebhookEvent) => {
+    setReplayingId(event.id)
+    setReplayResult(null)
+    try {
+      const response = await fetch('/api/admin/webhook-events/replay', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session?.access_token}`
+        },
+        body: JSON.stringify({ event_id: event.id })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Replay failed')
+      }
+
+      setReplayResult(`Replayed ${event.delivery_id}: ${data.outcome}`)
+      await fetchEvents(currentPage)
+    } catch (err) {
+      console.error('Webhook replay failed:', err)
+      setReplayResult(err instanceof Error ? err.message : 'Replay failed')
+    } finally {
+      setReplayingId(null)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200 px-6 py-4">
+        <div className="flex items-center space-x-4">
+          <BackButton />
+          <h1 className="text-2xl font-bold text-gray-900">Webhook Events</h1>
+        </div>
+      </header>
+
+      <div className="max-w-5xl mx-auto p-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Deliveries</CardTitle>
+            <CardDescription>Stored provider webhooks and how each was handled</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {/* Outcome filter */}
+            <div className="flex flex-wrap gap-2 mb-4">
+              {OUTCOME_FILTERS.map((outcome) => (
+                <Button
+                  key={outcome}
+                  size="sm"
+                  variant={outcomeFilter === outcome ? "default" : "outline"}
+                  onClick={() => {
+                    setOutcomeFilter(outcome)
+                    setCurrentPage(1)
+                  }}
+                >
+                  {outcome}
+                </Button>
+              ))}
+            </div>
+
+            {replayResult && (
+              <p className="text-sm text-gray-700 mb-4">{replayResult}</p>
+            )}
+
+            {error ? (
+              <p className="text-sm text-red-600">{error}</p>
+            ) : isLoading ? (
+              <p className="text-sm text-gray-500">Loading webhook events...</p>
+            ) : events.length === 0 ? (
+              <p className="text-sm text-gray-500">No webhook events found</p>
+            ) : (
+              <div className="space-y-2">
+                {events.map((event) => (
+                  <div
+                    key={event.id}
+                    className="flex items-center justify-between rounded-md border border-gray-200 p-3"
+                  >
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center space-x-2">
+                        <Badge className={OUTCOME_STYLES[event.outcome]}>{event.outcome}</Badge>
+                        <span className="text-sm font-medium text-gray-900">{event.status}</span>
+                        <span className="text-xs text-gray-500 truncate">{event.prediction_id}</span>
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        {event.delivery_id} · received {new Date(event.received_at).toLocaleString()}
+                        {event.replay_count > 0 && ` · replayed ${event.replay_count}x`}
+                      </p>
+                      {event.error_message && (
+                        <p className="text-xs text-red-600">{event.error_message}</p>
+                      )}
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleReplay(event)}
+                      disabled={replayingId === event.id}
+                    >
+                      {replayingId === event.id ? "Replaying..." : "Replay"}
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Pagination */}
+            {totalPages > 1 && (
+              <div className="flex items-center justify-between mt-4">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setCurrentPage(page => page - 1)}
+                  disabled={currentPage === 1 || isLoading}
+                >
+                  Previous
+                </Button>
+                <span className="text-sm text-gray-600">
+                  Page {currentPage} of {totalPages}
+                </span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setCurrentPage(page => page + 1)}
+                  disabled={currentPage === totalPages || isLoading}
+                >
+                  Next
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
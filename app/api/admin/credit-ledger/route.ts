@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminUser } from '@/lib/auth/admin';
+import { creditService } from '@/lib/billing/credits';
+
+/**
+ * Credit ledger reconciliation admin endpoint
+ * GET /api/admin/credit-ledger?limit=100
+ *
+ * Lists accounts whose user_billing balance differs from the sum of their
+ * user_transactions (admins only). A consistent ledger returns no discrepancies.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await getAdminUser(request);
+    if (!admin) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const limitParam = Number(request.nextUrl.searchParams.get('limit'));
+    const limit = Number.isInteger(limitParam) && limitParam > 0 ? Math.min(limitParam, 1000) : 100;
+
+    const discrepancies = await creditService.findLedgerDiscrepancies(limit);
+
+    return NextResponse.json({
+      consistent: discrepancies.length === 0,
+      discrepancies
+    });
+  } catch (error) {
+    console.error('Error reconciling credit ledger:', error);
+    return NextResponse.json(
+      { error: 'Failed to reconcile credit ledger' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminUser } from '@/lib/auth/admin';
+import { promoCodeService, PromoCodeError } from '@/lib/billing/promo-codes';
+
+// Largest credit amount a single code may grant
+const MAX_PROMO_CREDITS = 1000;
+
+/**
+ * Promo codes admin endpoint
+ * GET /api/admin/promo-codes
+ *
+ * Lists codes with redemption statistics (redemptions, unique users, credits awarded,
+ * last redemption), newest first (admins only)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await getAdminUser(request);
+    if (!admin) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const codes = await promoCodeService.listCodeStats();
+    return NextResponse.json({ codes });
+  } catch (error) {
+    console.error('Error fetching promo codes:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch promo codes' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/promo-codes
+ *
+ * Body: { code?, credits, description?, expires_at?, max_redemptions?, single_use_per_user? }
+ * Creates a code (generated when `code` is omitted); returns { code } (admins only)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await getAdminUser(request);
+    if (!admin) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+
+    const credits = Number(body?.credits);
+    if (!Number.isInteger(credits) || credits <= 0 || credits > MAX_PROMO_CREDITS) {
+      return NextResponse.json(
+        { error: `credits must be a whole number between 1 and ${MAX_PROMO_CREDITS}` },
+        { status: 400 }
+      );
+    }
+
+    const maxRedemptions = body?.max_redemptions == null || body.max_redemptions === ''
+      ? null
+      : Number(body.max_redemptions);
+    if (maxRedemptions !== null && (!Number.isInteger(maxRedemptions) || maxRedemptions <= 0)) {
+      return NextResponse.json({ error: 'max_redemptions must be a positive whole number' }, { status: 400 });
+    }
+
+    const expiresAt = body?.expires_at ? new Date(body.expires_at) : null;
+    if (expiresAt && (isNaN(expiresAt.getTime()) || expiresAt <= new Date())) {
+      return NextResponse.json({ error: 'expires_at must be a future date' }, { status: 400 });
+    }
+
+    const code = await promoCodeService.createCode(
+      {
+        code: typeof body?.code === 'string' && body.code.trim() ? body.code : undefined,
+        credits,
+        description: typeof body?.description === 'string' ? body.description.trim() || null : null,
+        expiresAt,
+        maxRedemptions,
+        singleUsePerUser: body?.single_use_per_user !== false
+      },
+      admin.id
+    );
+
+    return NextResponse.json({ code }, { status: 201 });
+  } catch (error) {
+    if (error instanceof PromoCodeError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.reason === 'duplicate' ? 409 : 400 }
+      );
+    }
+
+    console.error('Error creating promo code:', error);
+    return NextResponse.json(
+      { error: 'Failed to create promo code' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseServer } from '@/lib/supabase-server';
+import { getAdminUser } from '@/lib/auth/admin';
+import { processWebhookEvent, type WebhookEvent } from '@/lib/generation/webhook-events';
+
+/**
+ * Replay Webhook Event endpoint
+ * POST /api/admin/webhook-events/replay
+ * Body: { event_id: string }
+ *
+ * Re-applies a stored delivery to its job (admins only).
+ * The timestamp window is not checked, but terminal jobs are still never changed,
+ * so replaying an event that was already applied has no effect.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await getAdminUser(request);
+    if (!admin) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { event_id: eventId } = await request.json();
+    if (!eventId) {
+      return NextResponse.json({ error: 'event_id is required' }, { status: 400 });
+    }
+
+    const { data: event, error } = await supabaseServer
+      .from('webhook_events')
+      .select('*')
+      .eq('id', eventId)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!event) {
+      return NextResponse.json({ error: 'Event not found' }, { status: 404 });
+    }
+
+    console.log(`🔁 Admin ${admin.id} replaying webhook event ${event.id} (${event.delivery_id})`);
+
+    await supabaseServer
+      .from('webhook_events')
+      .update({
+        replay_count: (event.replay_count || 0) + 1,
+        last_replayed_at: new Date().toISOString()
+      })
+      .eq('id', event.id);
+
+    const outcome = await processWebhookEvent(event as WebhookEvent);
+
+    return NextResponse.json({ event_id: event.id, outcome });
+  } catch (error) {
+    console.error('Webhook replay error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseServer } from '@/lib/supabase-server';
+import { getAdminUser } from '@/lib/auth/admin';
+
+/**
+ * Webhook Events admin endpoint
+ * GET /api/admin/webhook-events?page=1&limit=25&outcome=error&prediction_id=xxx
+ *
+ * Lists stored webhook deliveries, newest first (admins only)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await getAdminUser(request);
+    if (!admin) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get('page') || '1');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '25'), 100);
+    const offset = (page - 1) * limit;
+    const outcome = searchParams.get('outcome');
+    const predictionId = searchParams.get('prediction_id');
+
+    let query = supabaseServer
+      .from('webhook_events')
+      .select('*', { count: 'exact' })
+      .order('received_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (outcome) query = query.eq('outcome', outcome);
+    if (predictionId) query = query.eq('prediction_id', predictionId);
+
+    const { data: events, error, count } = await query;
+
+    if (error) throw error;
+
+    return NextResponse.json({
+      events,
+      pagination: {
+        currentPage: page,
+        totalPages: Math.ceil((count || 0) / limit),
+        totalItems: count
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching webhook events:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch webhook events' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,395 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { supabaseServer } from '@/lib/supabase-server';
+import { creditService, InsufficientCreditsError, type GenerationCharge } from '@/lib/billing/credits';
+import {
+  getDefaultProviderName,
+  getGenerationProvider,
+  isGenerationProviderName,
+  isRequestableProvider
+} from '@/lib/generation/providers';
+import { getQualityPreset, isPresetSupported, isQualityPresetId, type QualityPreset } from '@/lib/generation/presets';
+import { enqueueGeneration, JobEnqueueError } from '@/lib/generation/enqueue';
+import { releasePendingJobs } from '@/lib/generation/queue';
+import { BATCH_VIEWS, MAX_BATCH_SETS, type BatchPhotoSet } from '@/lib/batch/photo-sets';
+import type { GenerationProviderName, GenerationViews } from '@/lib/generation/types';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Batch Generation endpoint
+ *
+ * POST /api/batches
+ * Body: { name?: string, preset?: string, provider?: string,
+ *         sets: [{ name: string, views: { front: url, back?: url, left?: url, right?: url } }] }
+ *
+ * 1. Validates the photo sets (already uploaded through /api/upload-photo)
+ * 2. Covers sets with this month's free models first, then charges credits for the
+ *    rest of the batch in one conditional update (all or nothing)
+ * 3. Creates one draft model per set and queues its generation
+ * 4. Gives back the free model or credits of any set that could not be queued (a set
+ *    whose job was already created is refunded by failing that job)
+ *
+ * GET /api/batches
+ * Lists the caller's recent batches with per-batch progress
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // ==================== STEP 1: Authenticate and Validate ====================
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { name, sets, preset, providerName } = parseBatchRequest(await request.json());
+
+    // ==================== STEP 2: Charge the Whole Batch ====================
+    const charges = await creditService.chargeGenerations(
+      user.id,
+      sets.length,
+      preset.credits,
+      `Batch generation: ${sets.length} model(s) (${preset.label})`
+    );
+    const totalCredits = sumCredits(charges);
+
+    // ==================== STEP 3: Create Batch and Queue Sets ====================
+    const batch = await createBatchRecord(user.id, name, sets.length, totalCredits, preset, providerName, charges);
+
+    const queued: { name: string; model_id: string; job_id: string }[] = [];
+    const failed: { name: string; error: string }[] = [];
+    const failedCharges: GenerationCharge[] = [];
+    const failedJobCharges: GenerationCharge[] = [];
+
+    for (const [index, set] of sets.entries()) {
+      try {
+        const model = await createDraftModel(user.id, batch.id, set);
+        const job = await enqueueGeneration({
+          model,
+          providerName,
+          preset,
+          views: set.views as GenerationViews,
+          freeModel: charges[index].freeModel,
+          planCredits: charges[index].planCredits
+        });
+        queued.push({ name: set.name, model_id: model.id, job_id: job.id });
+      } catch (error) {
+        console.error(`❌ Failed to queue batch set "${set.name}":`, error);
+        failed.push({ name: set.name, error: error instanceof Error ? error.message : 'Failed to queue set' });
+        // A job that was created already refunded its charge when it was failed
+        (error instanceof JobEnqueueError ? failedJobCharges : failedCharges).push(charges[index]);
+      }
+    }
+
+    // ==================== STEP 4: Give Back Sets That Were Not Queued ====================
+    if (failedCharges.length > 0 || failedJobCharges.length > 0) {
+      await refundFailedSets(user.id, batch.id, failedCharges, failedJobCharges);
+    }
+
+    await incrementModelsGenerated(user.id, queued.length);
+
+    try {
+      await releasePendingJobs();
+    } catch (error) {
+      console.error('⚠️ Failed to release pending jobs:', error);
+    }
+
+    return NextResponse.json({
+      batch_id: batch.id,
+      total_sets: sets.length,
+      credits_charged: totalCredits - sumCredits(failedCharges) - sumCredits(failedJobCharges),
+      queued,
+      failed
+    });
+  } catch (error) {
+    if (error instanceof InsufficientCreditsError) {
+      return NextResponse.json({ detail: error.message }, { status: 402 });
+    }
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ detail: error.message }, { status: 400 });
+    }
+
+    console.error('Batch generation error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: batches, error: batchesError } = await supabaseServer
+      .from('generation_batches')
+      .select('id, name, quality_preset, total_sets, credits_charged, created_at')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(20);
+
+    if (batchesError) throw batchesError;
+    if (!batches || batches.length === 0) {
+      return NextResponse.json({ batches: [] });
+    }
+
+    const { data: models, error: modelsError } = await supabaseServer
+      .from('models')
+      .select('batch_id, model_status')
+      .in('batch_id', batches.map(batch => batch.id));
+
+    if (modelsError) throw modelsError;
+
+    return NextResponse.json({
+      batches: batches.map(batch => {
+        const statuses = (models ?? [])
+          .filter(model => model.batch_id === batch.id)
+          .map(model => model.model_status);
+        const completed = statuses.filter(status => status === 'completed').length;
+        const failed = statuses.filter(status => status === 'failed' || status === 'canceled').length;
+
+        return {
+          ...batch,
+          queued_sets: statuses.length,
+          completed,
+          failed,
+          in_progress: statuses.length - completed - failed
+        };
+      })
+    });
+  } catch (error) {
+    console.error('Batch list error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// ==================== HELPER FUNCTIONS ====================
+
+/**
+ * Resolves the caller from the Authorization header
+ */
+async function getAuthenticatedUser(request: NextRequest) {
+  const authHeader = request.headers.get('Authorization');
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null;
+  }
+
+  const token = authHeader.split(' ')[1];
+
+  // Create authenticated client
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      global: {
+        headers: {
+          Authorization: `Bearer ${token}`
+        }
+      }
+    }
+  );
+
+  const { data: { user }, error } = await supabase.auth.getUser();
+  return error ? null : user;
+}
+
+/**
+ * Validates the request body and resolves preset and provider
+ */
+function parseBatchRequest(body: any) {
+  const sets: BatchPhotoSet<string>[] = Array.isArray(body?.sets) ? body.sets : [];
+
+  if (sets.length === 0) {
+    throw new ValidationError('At least one photo set is required');
+  }
+  if (sets.length > MAX_BATCH_SETS) {
+    throw new ValidationError(`A batch can contain at most ${MAX_BATCH_SETS} photo sets`);
+  }
+
+  for (const set of sets) {
+    if (!set?.name || typeof set.name !== 'string') {
+      throw new ValidationError('Every photo set needs a name');
+    }
+    if (!set.views?.front) {
+      throw new ValidationError(`Photo set "${set.name}" has no front photo`);
+    }
+    for (const view of BATCH_VIEWS) {
+      const url = set.views[view];
+      if (url !== undefined && !isHttpUrl(url)) {
+        throw new ValidationError(`Photo set "${set.name}" has an invalid ${view} photo URL`);
+      }
+    }
+  }
+
+  if (body.preset && !isQualityPresetId(body.preset)) {
+    throw new ValidationError(`Unknown quality preset: ${body.preset}`);
+  }
+  if (body.provider && !isGenerationProviderName(body.provider)) {
+    throw new ValidationError(`Unknown generation provider: ${body.provider}`);
+  }
+  if (body.provider && !isRequestableProvider(body.provider)) {
+    throw new ValidationError(`Generation provider ${body.provider} cannot be selected per request`);
+  }
+
+  const preset = getQualityPreset(body.preset);
+  const providerName = (body.provider as GenerationProviderName | undefined) ?? getDefaultProviderName();
+  if (!isPresetSupported(preset, getGenerationProvider(providerName))) {
+    throw new ValidationError(`Provider ${providerName} does not support the ${preset.label} preset`);
+  }
+
+  return {
+    name: typeof body.name === 'string' && body.name.trim() ? body.name.trim() : null,
+    sets,
+    preset,
+    providerName
+  };
+}
+
+function isHttpUrl(value: unknown) {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Creates the batch row that groups the models
+ */
+async function createBatchRecord(
+  userId: string,
+  name: string | null,
+  totalSets: number,
+  credits: number,
+  preset: QualityPreset,
+  providerName: GenerationProviderName,
+  charges: GenerationCharge[]
+) {
+  const { data, error } = await supabaseServer
+    .from('generation_batches')
+    .insert({
+      user_id: userId,
+      name,
+      quality_preset: preset.id,
+      provider: providerName,
+      total_sets: totalSets,
+      credits_charged: credits
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // Nothing was queued yet, so the whole charge goes back
+    await creditService.releaseGenerationCharges(userId, charges, 'Refund: batch generation could not be started');
+    throw new Error(`Failed to create batch: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Creates the draft model for one photo set
+ */
+async function createDraftModel(userId: string, batchId: string, set: BatchPhotoSet<string>) {
+  const { data, error } = await supabaseServer
+    .from('models')
+    .insert({
+      user_id: userId,
+      batch_id: batchId,
+      name: set.name,
+      model_status: 'draft',
+      front_image_url: set.views.front,
+      back_image_url: set.views.back ?? null,
+      left_image_url: set.views.left ?? null,
+      right_image_url: set.views.right ?? null
+    })
+    .select('id, user_id')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create model: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Total credits charged (free models cost nothing)
+ */
+function sumCredits(charges: GenerationCharge[]) {
+  return charges.reduce((sum, charge) => sum + charge.credits, 0);
+}
+
+/**
+ * Gives back the free models and credits of sets that never got a job and lowers the
+ * batch's recorded charge
+ * @param charges - Charges of sets that failed before their job was created
+ * @param jobCharges - Charges of sets whose job was created and failed; refunded with the job
+ */
+async function refundFailedSets(
+  userId: string,
+  batchId: string,
+  charges: GenerationCharge[],
+  jobCharges: GenerationCharge[]
+) {
+  if (charges.length > 0) {
+    await creditService.releaseGenerationCharges(
+      userId,
+      charges,
+      `Refund: ${charges.length} batch model(s) could not be queued`
+    );
+  }
+
+  const credits = sumCredits(charges) + sumCredits(jobCharges);
+  if (credits === 0) return;
+
+  const { data: batch } = await supabaseServer
+    .from('generation_batches')
+    .select('credits_charged')
+    .eq('id', batchId)
+    .single();
+
+  if (batch) {
+    await supabaseServer
+      .from('generation_batches')
+      .update({ credits_charged: batch.credits_charged - credits })
+      .eq('id', batchId);
+  }
+}
+
+/**
+ * Adds the queued models to the user's generation statistics
+ */
+async function incrementModelsGenerated(userId: string, count: number) {
+  if (count === 0) return;
+
+  const { data: billing } = await supabaseServer
+    .from('user_billing')
+    .select('total_models_generated')
+    .eq('id', userId)
+    .single();
+
+  await supabaseServer
+    .from('user_billing')
+    .update({ total_models_generated: (billing?.total_models_generated ?? 0) + count })
+    .eq('id', userId);
+}
+
+// ==================== CUSTOM ERROR CLASSES ====================
+
+/**
+ * Error for validation failures (400 Bad Request)
+ */
+class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { sweepActiveJobs, SWEEP_BATCH_SIZE } from '@/lib/generation/reconcile';
+import { refreshDurationStats } from '@/lib/generation/durations';
+import { creditService } from '@/lib/billing/credits';
+import { planService, type PlanRenewal } from '@/lib/billing/plans';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Scheduled job sweep
+ * GET|POST /api/cron/sweep-jobs?limit=100
+ *
+ * Headers:
+ * - Authorization: Bearer <CRON_SECRET>
+ *
+ * Reconciles every non-terminal job for all users with its provider, so jobs keep
+ * moving (and expired ones are failed and refunded) even when no browser is open,
+ * then releases pending jobs into the freed slots, issues refunds missed when jobs failed
+ * and refreshes the duration statistics behind generation ETAs. Starts free-tier counts over
+ * once a new month begins and grants the monthly allowance of plans due for renewal, then
+ * checks that every credit balance still equals the sum of its transactions.
+ * Returns counts per action, the jobs that changed or errored, the released and refunded job IDs,
+ * how many provider/preset statistics were refreshed, how many free-tier counts were reset,
+ * the plan renewals and how many balances are off.
+ */
+export async function GET(request: NextRequest) {
+  return handleSweep(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleSweep(request);
+}
+
+async function handleSweep(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret) {
+      return NextResponse.json({ error: 'CRON_SECRET not configured' }, { status: 500 });
+    }
+
+    if (!isAuthorized(request.headers.get('Authorization'), secret)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const limitParam = Number(request.nextUrl.searchParams.get('limit'));
+    const limit = Number.isInteger(limitParam) && limitParam > 0
+      ? Math.min(limitParam, 1000)
+      : SWEEP_BATCH_SIZE;
+
+    console.log(`🧹 Sweeping up to ${limit} active jobs`);
+    const report = await sweepActiveJobs(limit);
+    console.log(
+      `🧹 Sweep done: ${report.scanned} scanned, ${report.changed.length} changed, ` +
+      `${report.errors.length} errors, ${report.released.length} released, ${report.refunded.length} refunded`
+    );
+
+    // ETAs still work from older stats, so a failed refresh does not fail the sweep
+    let statsRefreshed = 0;
+    try {
+      statsRefreshed = (await refreshDurationStats()).length;
+    } catch (error) {
+      console.error('⚠️ Failed to refresh duration stats:', error);
+    }
+
+    // Free models are also reset lazily on use, so a failure here only delays the display
+    let freeTierResets = 0;
+    try {
+      freeTierResets = await creditService.resetFreeModels();
+    } catch (error) {
+      console.error('⚠️ Failed to reset free models:', error);
+    }
+
+    // Due plans stay due, so a failed run is caught up by the next sweep
+    let planRenewals: PlanRenewal[] = [];
+    try {
+      planRenewals = await planService.renewDuePlans(limit);
+    } catch (error) {
+      console.error('⚠️ Failed to renew plans:', error);
+    }
+
+    let creditMismatches: number | null = null;
+    try {
+      const discrepancies = await creditService.findLedgerDiscrepancies();
+      creditMismatches = discrepancies.length;
+      if (creditMismatches > 0) {
+        console.error(`⚠️ ${creditMismatches} credit balance(s) differ from their transactions:`, discrepancies);
+      }
+    } catch (error) {
+      console.error('⚠️ Failed to reconcile credit ledger:', error);
+    }
+
+    return NextResponse.json({
+      ...report,
+      stats_refreshed: statsRefreshed,
+      free_tier_resets: freeTierResets,
+      plan_renewals: planRenewals,
+      credit_mismatches: creditMismatches
+    });
+  } catch (error) {
+    console.error('Job sweep error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// ==================== HELPER FUNCTIONS ====================
+
+/**
+ * Compares the bearer token with the shared secret in constant time
+ */
+function isAuthorized(authHeader: string | null, secret: string): boolean {
+  const token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : '';
+  const expected = Buffer.from(secret);
+  const received = Buffer.from(token);
+
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
@@ -1,66 +1,121 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { jobService } from '@/lib/supabase';
 import { ModelService } from '@/lib/supabase/model.service';
 import { supabaseServer } from '@/lib/supabase-server';
-import { FirtozTrellisService } from '@/lib/firtoz-trellis/service';
+import { creditService, InsufficientCreditsError, type GenerationCharge } from '@/lib/billing/credits';
+import {
+  getDefaultProviderName,
+  getGenerationProvider,
+  isGenerationProviderName,
+  isRequestableProvider
+} from '@/lib/generation/providers';
+import type { GenerationProviderName, GenerationViews } from '@/lib/generation/types';
+import { getQualityPreset, isPresetSupported, isQualityPresetId } from '@/lib/generation/presets';
+import { releasePendingJobs } from '@/lib/generation/queue';
+import {
+  DuplicateGenerationError,
+  enqueueGeneration,
+  JobEnqueueError,
+  findActiveJobForModel,
+  findJobByIdempotencyKey
+} from '@/lib/generation/enqueue';
 
 // Initialize services
 const modelService = new ModelService();
-const firtozService = new FirtozTrellisService();
+
+// Longest accepted Idempotency-Key header value
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
 
 /**
  * 3D Model Generation API Endpoint
  * 
  * POST /api/generate
+ * Headers: Idempotency-Key (optional) - repeating a request with the same key
+ * returns the original job_id instead of charging and generating again
  * 
  * This endpoint handles the complete workflow for generating 3D models:
- * 1. Validates input parameters
- * 2. Checks and deducts user credits
- * 3. Initiates 3D model generation via Firtoz-Trellis API
- * 4. Creates job tracking record
- * 5. Logs transaction and updates statistics
+ * 1. Validates input parameters (providers that ignore preset parameters only accept
+ *    the default preset)
+ * 2. Returns the original job for a repeated idempotency key, and refuses
+ *    models that already have an unfinished job (409)
+ * 3. Covers the generation with a free model of the monthly free tier while any are left,
+ *    otherwise charges the preset's price through the credit ledger (balance and
+ *    transaction together)
+ * 4. Queues a pending job and records a new model version
+ *    (optionally also requesting a Gaussian splat PLY via `gaussianPly=true`)
+ * 5. Updates statistics
+ * 6. Releases queued jobs to the provider while concurrency slots are free
+ *    (a transient provider error schedules an automatic retry instead of failing)
  */
 export async function POST(request: NextRequest) {
   let model: any = null;
-  let userBilling: any = null;
+  let charge: GenerationCharge | null = null;
   
   try {
     // ==================== STEP 1: Parse and Validate Input ====================
-    const { modelId, imageUrls, textureSize, meshSimplify } = await parseAndValidateInput(request);
+    const { modelId, views, preset, providerName, stageTimes, saveGaussianPly } = await parseAndValidateInput(request);
+    const idempotencyKey = parseIdempotencyKey(request);
     
     // ==================== STEP 2: Get Model and User Info ====================
     model = await getModelById(modelId);
     
-    // ==================== STEP 3: Credit Management ====================
-    userBilling = await getUserBillingOrCreate(model.user_id);
-    await validateSufficientCredits(userBilling);
+    // A repeated request gets the original job back without being charged again
+    if (idempotencyKey) {
+      const existingJob = await findJobByIdempotencyKey(model.user_id, idempotencyKey);
+      if (existingJob) {
+        return replayResponse(existingJob);
+      }
+    }
+    await ensureNoActiveJob(model.id);
     
-    // Deduct one credit (will be refunded on error)
-    await deductCredit(model.user_id, userBilling.credits);
+    // ==================== STEP 3: Credit Management ====================
+    const userBilling = await creditService.getOrCreateBilling(model.user_id);
     
-    // ==================== STEP 4: Log Transaction ====================
-    await logCreditTransaction(request);
+    // Free models of this month are used first; otherwise charge the preset's price and
+    // log the usage in one ledger entry (either is given back on error)
+    [charge] = await creditService.chargeGenerations(
+      model.user_id,
+      1,
+      preset.credits,
+      `3D Model Generation (${preset.label})`
+    );
     
-    // ==================== STEP 5: Start 3D Generation ====================
-    const predictionId = await startFirtozGeneration(imageUrls, textureSize, meshSimplify);
+    // ==================== STEP 4: Queue Generation Job ====================
+    const job = await enqueueGeneration({
+      model,
+      providerName,
+      preset,
+      views,
+      stageTimes,
+      saveGaussianPly,
+      idempotencyKey,
+      freeModel: charge.freeModel,
+      planCredits: charge.planCredits
+    });
+    // The charge now belongs to the job; only failing the job refunds it
+    charge = null;
     
-    // ==================== STEP 6: Create Job Tracking ====================
-    const job = await createJobRecord(predictionId, model.user_id);
+    // ==================== STEP 5: Update Statistics ====================
+    await incrementModelsGenerated(model.user_id, userBilling.total_models_generated);
     
-    // ==================== STEP 7: Update Model Status ====================
-    await updateModelWithJob(modelId, job.id);
+    // ==================== STEP 6: Release Queue ====================
+    const queuedJob = await releaseQueue(job);
     
-    // ==================== STEP 8: Update Statistics ====================
-    await incrementModelsGenerated(model.user_id, userBilling.total_models_generated);
+    // The provider rejected the job outright; it was already failed and refunded
+    if (queuedJob.api_status === 'failed') {
+      return NextResponse.json(
+        { detail: queuedJob.error_message || 'Model generation failed' },
+        { status: 502 }
+      );
+    }
     
     // ==================== SUCCESS RESPONSE ====================
     return NextResponse.json({
       job_id: job.id,
-      status: 'queued'
+      status: queuedJob.api_status
     }, { status: 200 });
     
   } catch (error) {
-    return handleGenerationError(error, model, userBilling);
+    return handleGenerationError(error, model, charge, request);
   }
 }
 
@@ -86,195 +141,133 @@ async function parseAndValidateInput(request: NextRequest) {
   }
   
   // Collect all provided image URLs
-  const imageUrls: string[] = [frontUrl];
+  const views: GenerationViews = { front: frontUrl };
   const backUrl = formData.get('backUrl') as string | null;
   const leftUrl = formData.get('leftUrl') as string | null;
   const rightUrl = formData.get('rightUrl') as string | null;
   
-  if (backUrl) imageUrls.push(backUrl);
-  if (leftUrl) imageUrls.push(leftUrl);
-  if (rightUrl) imageUrls.push(rightUrl);
+  if (backUrl) views.back = backUrl;
+  if (leftUrl) views.left = leftUrl;
+  if (rightUrl) views.right = rightUrl;
   
-  // Parse optional generation parameters
-  const options = formData.get('options') as string | null;
-  let textureSize: number | undefined;
-  let meshSimplify: number | undefined;
+  // Resolve generation provider (a request may only pick the default or an allowed provider)
+  const requestedProvider = formData.get('provider') as string | null;
+  if (requestedProvider && !isGenerationProviderName(requestedProvider)) {
+    throw new ValidationError(`Unknown generation provider: ${requestedProvider}`);
+  }
+  const providerName: GenerationProviderName = requestedProvider
+    ? (requestedProvider as GenerationProviderName)
+    : getDefaultProviderName();
+  if (!isRequestableProvider(providerName)) {
+    throw new ValidationError(`Generation provider ${providerName} cannot be selected per request`);
+  }
   
-  if (options) {
-    try {
-      const opts = JSON.parse(options);
-      textureSize = opts.texture_size;
-      meshSimplify = opts.mesh_simplify;
-    } catch (error) {
-      console.error('⚠️ Failed to parse options, using defaults:', error);
-    }
+  // Resolve quality preset (determines generation parameters and credit price)
+  const requestedPreset = formData.get('preset') as string | null;
+  if (requestedPreset && !isQualityPresetId(requestedPreset)) {
+    throw new ValidationError(`Unknown quality preset: ${requestedPreset}`);
+  }
+  const preset = getQualityPreset(requestedPreset);
+  const provider = getGenerationProvider(providerName);
+  if (!isPresetSupported(preset, provider)) {
+    throw new ValidationError(`Provider ${providerName} does not support the ${preset.label} preset`);
   }
   
-  return { modelId, imageUrls, textureSize, meshSimplify };
-}
-
-/**
- * Retrieves model record from database
- */
-async function getModelById(modelId: string) {
-  console.log('🔍 Looking up model with ID:', modelId);
-  const model = await modelService.getModel(modelId);
-  console.log('✅ Found model:', { id: model.id, user_id: model.user_id });
-  return model;
+  // Gaussian splat PLY is opt-in and only some providers can produce it
+  const saveGaussianPly = formData.get('gaussianPly') === 'true';
+  if (saveGaussianPly && !provider.supportsGaussianPly) {
+    throw new ValidationError(`Provider ${providerName} cannot produce a Gaussian splat PLY`);
+  }
+  
+  // Client-side stage times for the job timeline (optional, ignored if implausible)
+  const stageTimes = {
+    uploadedAt: parseStageTime(formData.get('uploadedAt')),
+    backgroundRemovedAt: parseStageTime(formData.get('backgroundRemovedAt'))
+  };
+  
+  return { modelId, views, preset, providerName, stageTimes, saveGaussianPly };
 }
 
 /**
- * Gets user billing record or creates one with default credits if it doesn't exist
+ * Reads the optional Idempotency-Key header
  */
-async function getUserBillingOrCreate(userId: string) {
-  console.log('🔍 Checking user credits for user:', userId);
+function parseIdempotencyKey(request: NextRequest): string | null {
+  const key = request.headers.get('Idempotency-Key')?.trim();
+  if (!key) return null;
   
-  try {
-    // Try to fetch existing billing record
-    const { data, error } = await supabaseServer
-      .from('user_billing')
-      .select('credits, total_models_generated')
-      .eq('id', userId)
-      .single();
-    
-    if (error) throw error;
-    return data;
-    
-  } catch (error: any) {
-    // If no record exists, create one with default credits
-    if (error?.code === 'PGRST116') {
-      console.log('ℹ️ No billing record found, creating one with default credits');
-      
-      const { data: newBilling, error: createError } = await supabaseServer
-        .from('user_billing')
-        .insert([{ 
-          id: userId, 
-          credits: 2,
-          total_models_generated: 0 
-        }])
-        .select('credits, total_models_generated')
-        .single();
-        
-      if (createError) {
-        throw new Error(`Failed to create user billing record: ${createError.message}`);
-      }
-      
-      return newBilling;
-    }
-    
-    // Re-throw any other errors
-    throw new Error(`Failed to fetch user credits: ${error?.message || 'Unknown error'}`);
+  if (key.length > MAX_IDEMPOTENCY_KEY_LENGTH || !/^[\x21-\x7e]+$/.test(key)) {
+    throw new ValidationError(`Idempotency-Key must be 1-${MAX_IDEMPOTENCY_KEY_LENGTH} printable characters`);
   }
+  return key;
 }
 
 /**
- * Validates that user has sufficient credits for generation
+ * Response for a request whose idempotency key already created a job
  */
-async function validateSufficientCredits(userBilling: any) {
-  if (userBilling.credits < 1) {
-    console.error('❌ Insufficient credits:', { credits: userBilling.credits });
-    throw new InsufficientCreditsError('Insufficient credits to start generation');
-  }
+function replayResponse(job: { id: string; api_status: string }) {
+  console.log('♻️ Replaying generation request for job:', job.id);
+  return NextResponse.json({
+    job_id: job.id,
+    status: job.api_status,
+    replayed: true
+  }, { status: 200 });
 }
 
 /**
- * Deducts one credit from user's account
+ * Refuses to start a generation while the model still has an unfinished job
  */
-async function deductCredit(userId: string, currentCredits: number) {
-  console.log('💳 Deducting 1 credit from user:', userId);
-  
-  const { error } = await supabaseServer
-    .from('user_billing')
-    .update({ credits: currentCredits - 1 })
-    .eq('id', userId);
-  
-  if (error) {
-    throw new Error(`Failed to deduct credits: ${error.message}`);
+async function ensureNoActiveJob(modelId: string) {
+  const activeJob = await findActiveJobForModel(modelId);
+  if (activeJob) {
+    throw new ActiveJobError(activeJob.id);
   }
 }
 
 /**
- * Logs credit usage transaction for audit trail
+ * Reads a client-reported ISO timestamp, accepting only times from the last day
  */
-async function logCreditTransaction(request: NextRequest) {
-  const authHeader = request.headers.get('Authorization');
-  const transactionHeaders: Record<string, string> = {
-    'Content-Type': 'application/json',
-  };
+function parseStageTime(value: FormDataEntryValue | null): Date | undefined {
+  if (typeof value !== 'string' || !value) return undefined;
   
-  // Only add Authorization header if it exists and is valid
-  if (authHeader && authHeader.startsWith('Bearer ')) {
-    transactionHeaders['Authorization'] = authHeader;
-  }
-  
-  const transactionResponse = await fetch(`${process.env.NEXT_PUBLIC_BASE_URL}/api/transactions`, {
-    method: 'POST',
-    headers: transactionHeaders,
-    body: JSON.stringify({
-      type: 'usage',
-      amount: 0,
-      credits: -1,
-      description: "3D Model Generation"
-    })
-  });
-  
-  if (!transactionResponse.ok) {
-    const errorData = await transactionResponse.json();
-    throw new Error(`Failed to log transaction: ${errorData.error}`);
+  const time = new Date(value);
+  const age = Date.now() - time.getTime();
+  if (Number.isNaN(age) || age < -60 * 1000 || age > 24 * 60 * 60 * 1000) {
+    return undefined;
   }
+  return time;
 }
 
 /**
- * Initiates 3D model generation via Firtoz-Trellis API
+ * Retrieves model record from database
  */
-async function startFirtozGeneration(
-  imageUrls: string[], 
-  textureSize?: number, 
-  meshSimplify?: number
-) {
-  const input = {
-    images: imageUrls,
-    texture_size: textureSize,
-    mesh_simplify: meshSimplify,
-    generate_model: true,
-    save_gaussian_ply: false,
-    ss_sampling_steps: 38
-  };
-  
-  console.log('🚀 Starting Firtoz-Trellis prediction');
-  const predictionId = await firtozService.createPrediction(input);
-  console.log('✅ Prediction created with ID:', predictionId);
-  
-  return predictionId;
+async function getModelById(modelId: string) {
+  console.log('🔍 Looking up model with ID:', modelId);
+  const model = await modelService.getModel(modelId);
+  console.log('✅ Found model:', { id: model.id, user_id: model.user_id });
+  return model;
 }
 
 /**
- * Creates job record to track generation progress
+ * Submits pending jobs while slots are free and returns the new job's current state
+ * A queue failure leaves the job pending for the next release instead of failing the request
  */
-async function createJobRecord(predictionId: string, userId: string) {
-  console.log('📝 Creating job record for prediction:', predictionId);
+async function releaseQueue(job: any) {
+  try {
+    await releasePendingJobs();
+  } catch (error) {
+    console.error('⚠️ Failed to release pending jobs:', error);
+  }
   
-  const job = await jobService.createJob({
-    external_job_id: predictionId,
-    user_id: userId,
-    api_status: 'queued',
-    api_stage: 'queued',
-    progress: 0,
-    expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString() // 1 hour expiration
-  } as any);
+  const { data, error } = await supabaseServer
+    .from('jobs')
+    .select('api_status, error_message')
+    .eq('id', job.id)
+    .single();
   
-  console.log('✅ Job created successfully:', { id: job.id, external_job_id: job.external_job_id });
-  return job;
-}
-
-/**
- * Updates model record with job ID and status
- */
-async function updateModelWithJob(modelId: string, jobId: string) {
-  await modelService.updateModel(modelId, {
-    job_id: jobId,
-    model_status: 'generating_3d_model'
-  });
+  if (error || !data) {
+    return { api_status: job.api_status, error_message: null };
+  }
+  return data;
 }
 
 /**
@@ -291,17 +284,32 @@ async function incrementModelsGenerated(userId: string, currentTotal: number) {
 
 /**
  * Handles errors during generation process
- * Refunds credits if they were deducted
- * Updates model status to failed
+ * Refunds credits if they were deducted, or gives back the free model that was used,
+ * unless a job was already created for them (its failure refunds them at most once)
+ * Updates model status to failed, unless the request lost to a duplicate
  */
-async function handleGenerationError(error: unknown, model: any, userBilling: any) {
-  // Refund credit if deduction occurred
-  if (userBilling && model) {
-    console.log('🔄 Refunding credit due to generation failure');
-    await supabaseServer
-      .from('user_billing')
-      .update({ credits: userBilling.credits })
-      .eq('id', model.user_id);
+async function handleGenerationError(
+  error: unknown,
+  model: any,
+  charge: GenerationCharge | null,
+  request: NextRequest
+) {
+  // Give back what was charged, if anything and no job took over the charge
+  if (charge && model && !(error instanceof JobEnqueueError)) {
+    console.log('🔄 Releasing generation charge due to generation failure');
+    await creditService.releaseGenerationCharges(model.user_id, [charge], 'Refund: generation could not be started');
+  }
+  
+  // A concurrent duplicate won the race; its job stands and this request is not an error
+  if (error instanceof DuplicateGenerationError && model) {
+    return handleDuplicateGeneration(error, model, request);
+  }
+  
+  if (error instanceof ActiveJobError) {
+    return NextResponse.json(
+      { detail: error.message, job_id: error.jobId },
+      { status: 409 }
+    );
   }
   
   // Log detailed error information
@@ -317,7 +325,6 @@ async function handleGenerationError(error: unknown, model: any, userBilling: an
   
   // Log environment configuration for debugging
   console.error('⚠️ Environment configuration:', {
-    NEXT_PUBLIC_BASE_URL: process.env.NEXT_PUBLIC_BASE_URL,
     REPLICATE_API_TOKEN: process.env.REPLICATE_API_TOKEN ? '***' : 'MISSING',
     SUPABASE_URL: process.env.SUPABASE_URL,
     NODE_ENV: process.env.NODE_ENV
@@ -332,11 +339,11 @@ async function handleGenerationError(error: unknown, model: any, userBilling: an
     });
   }
   
-  // Update model status to failed
+  // Update model status to failed; a model with an earlier version keeps showing it
   if (model) {
     try {
       await modelService.updateModel(model.id, {
-        model_status: 'failed'
+        model_status: model.current_version_id ? 'completed' : 'failed'
       });
       console.log('📝 Updated model status to failed');
     } catch (statusError) {
@@ -365,6 +372,26 @@ async function handleGenerationError(error: unknown, model: any, userBilling: an
   );
 }
 
+/**
+ * Answers a request whose job insert lost to a concurrent duplicate
+ * The same idempotency key replays the winner; otherwise the model is busy
+ */
+async function handleDuplicateGeneration(error: DuplicateGenerationError, model: any, request: NextRequest) {
+  if (error.reason === 'idempotency_key') {
+    const idempotencyKey = parseIdempotencyKey(request);
+    const existingJob = idempotencyKey && await findJobByIdempotencyKey(model.user_id, idempotencyKey);
+    if (existingJob) {
+      return replayResponse(existingJob);
+    }
+  }
+  
+  const activeJob = await findActiveJobForModel(model.id);
+  return NextResponse.json(
+    { detail: error.message, job_id: activeJob?.id ?? null },
+    { status: 409 }
+  );
+}
+
 // ==================== CUSTOM ERROR CLASSES ====================
 
 /**
@@ -378,11 +405,11 @@ class ValidationError extends Error {
 }
 
 /**
- * Error for insufficient credits (402 Payment Required)
+ * Error for a model that already has an unfinished job (409 Conflict)
  */
-class InsufficientCreditsError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = 'InsufficientCreditsError';
+class ActiveJobError extends Error {
+  constructor(public jobId: string) {
+    super('A generation is already in progress for this model');
+    this.name = 'ActiveJobError';
   }
-}
\ No newline at end of file
+}
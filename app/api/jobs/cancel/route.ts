@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { supabaseServer } from '@/lib/supabase-server';
+import { getGenerationProvider } from '@/lib/generation/providers';
+import { failJob, RETRYING_JOB_STATUS, TERMINAL_JOB_STATUSES } from '@/lib/generation/finalize';
+import { PENDING_JOB_STATUS, PREPARING_JOB_STATUS, releasePendingJobs } from '@/lib/generation/queue';
+
+/**
+ * Cancel Job endpoint
+ * POST /api/jobs/cancel
+ * Body: { job_id: string }
+ *
+ * Stops an in-flight generation job owned by the caller:
+ * 1. Verifies the job belongs to the authenticated user
+ * 2. Cancels the prediction with the job's provider
+ * 3. Marks the job and its linked model as canceled
+ * 4. Refunds the credits charged for the generation, or gives back the free model
+ *    that covered it
+ *
+ * Returns: { job_id, status, refund_applied, refunded_credits, free_model_returned } -
+ * what was actually given back (0 credits for a job paid with a free model);
+ * refund_applied is false when the refund failed and is left to the scheduled sweep
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing authorization token' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+
+    // Create authenticated client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`
+          }
+        }
+      }
+    );
+
+    // Verify token and get user
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { job_id: jobId } = await request.json();
+    if (!jobId) {
+      return NextResponse.json({ error: 'job_id is required' }, { status: 400 });
+    }
+
+    // Load job and check ownership
+    const { data: job, error: jobError } = await supabaseServer
+      .from('jobs')
+      .select('*')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (jobError) throw jobError;
+
+    if (!job || job.user_id !== user.id) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    if (TERMINAL_JOB_STATUSES.includes(job.api_status)) {
+      return NextResponse.json(
+        { error: `Job already ${job.api_status}` },
+        { status: 409 }
+      );
+    }
+
+    // Stop the prediction at the provider before touching credits
+    // (a job being prepared, waiting in the queue or waiting for a retry has no running prediction)
+    if (![PREPARING_JOB_STATUS, PENDING_JOB_STATUS, RETRYING_JOB_STATUS].includes(job.api_status)) {
+      try {
+        await getGenerationProvider(job.provider).cancelJob(job.external_job_id);
+      } catch (error) {
+        console.error(`Failed to cancel job ${job.id} with provider:`, error);
+        return NextResponse.json(
+          { error: 'Provider failed to cancel the job' },
+          { status: 502 }
+        );
+      }
+    }
+
+    // Only the call that performs the transition marks the model and refunds,
+    // so a job that finished in the meantime is neither overwritten nor refunded
+    const { finalized, refund } = await failJob(job, 'Canceled by user', 'canceled');
+
+    if (!finalized) {
+      return NextResponse.json({ error: 'Job already finished' }, { status: 409 });
+    }
+
+    // The canceled job's slot can go to the next pending job
+    await releasePendingJobs().catch(error => {
+      console.error('Failed to release pending jobs:', error);
+    });
+
+    return NextResponse.json({
+      job_id: job.id,
+      status: 'canceled',
+      refund_applied: refund?.applied ?? false,
+      refunded_credits: refund?.credits ?? 0,
+      free_model_returned: refund?.freeModelReturned ?? false
+    });
+  } catch (error) {
+    console.error('Job cancel error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
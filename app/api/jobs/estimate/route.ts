@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { supabaseServer } from '@/lib/supabase-server';
+import { estimateNewJob, estimateRemaining, getDurationStats } from '@/lib/generation/durations';
+import { getQueuePosition, PENDING_JOB_STATUS } from '@/lib/generation/queue';
+import { getDefaultProviderName, isGenerationProviderName } from '@/lib/generation/providers';
+import { DEFAULT_QUALITY_PRESET, isQualityPresetId } from '@/lib/generation/presets';
+import type { GenerationProviderName } from '@/lib/generation/types';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Generation ETA endpoint
+ *
+ * GET /api/jobs/estimate?preset=standard&provider=xxx
+ * Expected queue wait and run time for a job started now (p50, plus a p90 total),
+ * based on recent jobs of the same provider and preset and the current queue
+ *
+ * GET /api/jobs/estimate?job_id=xxx
+ * Remaining time for a job owned by the caller
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing authorization token' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+
+    // Create authenticated client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`
+          }
+        }
+      }
+    );
+
+    // Verify token and get user
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const jobId = searchParams.get('job_id');
+
+    // ==================== Running Job ====================
+    if (jobId) {
+      const { data: job, error: jobError } = await supabaseServer
+        .from('jobs')
+        .select('id, user_id, api_status, provider, quality_preset, progress, priority, created_at, submitted_at, started_at, completed_at')
+        .eq('id', jobId)
+        .maybeSingle();
+
+      if (jobError) throw jobError;
+
+      if (!job || job.user_id !== user.id) {
+        return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+      }
+
+      let pendingEta: number | undefined;
+      if (job.api_status === PENDING_JOB_STATUS) {
+        const stats = await getDurationStats(job.provider ?? 'firtoz-trellis', job.quality_preset ?? 'standard');
+        pendingEta = (await getQueuePosition(job, stats.run_p50_seconds)).eta_seconds;
+      }
+
+      return NextResponse.json({
+        job_id: job.id,
+        status: job.api_status,
+        ...(await estimateRemaining(job, pendingEta))
+      });
+    }
+
+    // ==================== New Job ====================
+    const preset = searchParams.get('preset') ?? DEFAULT_QUALITY_PRESET;
+    if (!isQualityPresetId(preset)) {
+      return NextResponse.json({ error: `Unknown quality preset: ${preset}` }, { status: 400 });
+    }
+
+    const requestedProvider = searchParams.get('provider');
+    if (requestedProvider && !isGenerationProviderName(requestedProvider)) {
+      return NextResponse.json({ error: `Unknown generation provider: ${requestedProvider}` }, { status: 400 });
+    }
+    const provider: GenerationProviderName = requestedProvider
+      ? (requestedProvider as GenerationProviderName)
+      : getDefaultProviderName();
+
+    return NextResponse.json({
+      provider,
+      preset,
+      ...(await estimateNewJob(provider, preset))
+    });
+  } catch (error) {
+    console.error('Generation estimate error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
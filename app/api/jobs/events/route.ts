@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { supabaseServer } from '@/lib/supabase-server';
+import { getJobTimeline } from '@/lib/generation/job-events';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Job timeline endpoint
+ * GET /api/jobs/events?job_id=xxx
+ *
+ * Returns the stages a job owned by the caller has reached, oldest first, each with
+ * the time spent until the next stage, plus the job's current status and progress
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing authorization token' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+
+    // Create authenticated client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`
+          }
+        }
+      }
+    );
+
+    // Verify token and get user
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const jobId = request.nextUrl.searchParams.get('job_id');
+    if (!jobId) {
+      return NextResponse.json({ error: 'job_id is required' }, { status: 400 });
+    }
+
+    const { data: job, error: jobError } = await supabaseServer
+      .from('jobs')
+      .select('id, user_id, api_status, progress, completed_at')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (jobError) throw jobError;
+
+    if (!job || job.user_id !== user.id) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    const events = await getJobTimeline(job.id);
+
+    return NextResponse.json({
+      job_id: job.id,
+      status: job.api_status,
+      progress: job.progress,
+      completed_at: job.completed_at,
+      events
+    });
+  } catch (error) {
+    console.error('Job timeline error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { supabaseServer } from '@/lib/supabase-server';
+import { getQueuePosition, PENDING_JOB_STATUS } from '@/lib/generation/queue';
+import { getDurationStats } from '@/lib/generation/durations';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Queue position endpoint
+ * GET /api/jobs/queue?job_id=xxx
+ *
+ * Returns where a pending job owned by the caller stands in the generation queue
+ * and a rough ETA. Jobs that already left the queue report a null position.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Extract token from Authorization header
+    const authHeader = request.headers.get('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing authorization token' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+
+    // Create authenticated client
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`
+          }
+        }
+      }
+    );
+
+    // Verify token and get user
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const jobId = request.nextUrl.searchParams.get('job_id');
+    if (!jobId) {
+      return NextResponse.json({ error: 'job_id is required' }, { status: 400 });
+    }
+
+    const { data: job, error: jobError } = await supabaseServer
+      .from('jobs')
+      .select('id, user_id, api_status, priority, provider, quality_preset, created_at')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (jobError) throw jobError;
+
+    if (!job || job.user_id !== user.id) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    if (job.api_status !== PENDING_JOB_STATUS) {
+      return NextResponse.json({
+        job_id: job.id,
+        status: job.api_status,
+        position: null,
+        eta_seconds: null
+      });
+    }
+
+    const stats = await getDurationStats(job.provider ?? 'firtoz-trellis', job.quality_preset ?? 'standard');
+    const { position, eta_seconds } = await getQueuePosition(job, stats.run_p50_seconds);
+
+    return NextResponse.json({
+      job_id: job.id,
+      status: job.api_status,
+      position,
+      eta_seconds
+    });
+  } catch (error) {
+    console.error('Queue position error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import { FirtozTrellisService } from '@/lib/firtoz-trellis/service';
-import { r2Service } from '@/lib/r2';
-import { mapReplicateStatus } from '@/lib/utils/mapReplicateStatus';
+import { TERMINAL_JOB_STATUSES } from '@/lib/generation/finalize';
+import { reconcileJob } from '@/lib/generation/reconcile';
+import { releasePendingJobs } from '@/lib/generation/queue';
 
 export async function POST(request: NextRequest) {
   try {
@@ -38,13 +38,12 @@ export async function POST(request: NextRequest) {
 
     const userId = user.id;
     const now = new Date();
-    // Get all non-terminal, non-expired jobs for this user
+    // Get all non-terminal jobs for this user (expired ones are failed below)
     const { data: initialJobs, error: jobsError } = await supabase
       .from('jobs')
       .select('*')
       .eq('user_id', userId)
-      .not('api_status', 'in', '("succeeded", "failed", "canceled")')
-      .gt('expires_at', now.toISOString());
+      .not('api_status', 'in', `(${TERMINAL_JOB_STATUSES.join(',')})`);
 
     if (jobsError) throw jobsError;
     
@@ -67,107 +66,29 @@ export async function POST(request: NextRequest) {
     
     console.log(`Found ${jobsToRefresh.length} jobs to refresh after filtering`);
     
-    const service = new FirtozTrellisService();
     const updatedJobs = [];
-    const terminalStatuses = ['succeeded', 'failed', 'canceled'];
-    
-    // Reuse the existing 'now' variable
-    const currentTime = new Date();
 
     for (const job of jobsToRefresh) {
       console.log(`Processing job ${job.id} (external: ${job.external_job_id})`);
-      try {
-        // Skip terminal status jobs
-        if (terminalStatuses.includes(job.api_status)) {
-          console.log(`Skipping terminal job: ${job.id}`);
-          continue;
-        }
-        
-        // Skip and mark expired jobs as failed
-        if (new Date(job.expires_at) < now) {
-          console.log(`Marking expired job as failed: ${job.id}`);
-          await supabase
-            .from('jobs')
-            .update({ 
-              api_status: 'failed', 
-              error_message: 'Job expired' 
-            })
-            .eq('id', job.id);
-          
-          await supabase
-            .from('models')
-            .update({ model_status: 'failed' })
-            .eq('job_id', job.id);
-          
-          continue;
-        }
-        
-        // Only process non-terminal, non-expired jobs
-        const currentStatus = await service.getPredictionStatus(job.external_job_id);
-        
-        // Map Replicate status to internal status
-        const internalStatus = mapReplicateStatus(currentStatus.status);
-        
-        // Store model file in R2 if available
-        let storedModelUrl = null;
-        if (currentStatus.output?.model_file) {
-          try {
-            // Download model from Replicate
-            const response = await fetch(currentStatus.output.model_file);
-            const buffer = await response.arrayBuffer();
-            
-            // Upload to our R2 storage
-            const fileName = currentStatus.output.model_file.split('/').pop() || 'model.glb';
-            const result = await r2Service.uploadModel(
-              Buffer.from(buffer),
-              fileName
-            );
-            
-            storedModelUrl = result.url;
-          } catch (error) {
-            console.error(`Failed to store model file for job ${job.id}:`, error);
-            storedModelUrl = currentStatus.output.model_file; // Fallback to original URL
-          }
-        }
-        
-        // Update job in database
-        const { error: updateError } = await supabase
-          .from('jobs')
-          .update({
-            api_status: internalStatus,
-            ...(storedModelUrl && { model_url: storedModelUrl }),
-            ...(currentStatus.error && { error_message: currentStatus.error }),
-            updated_at: now.toISOString()
-          })
-          .eq('id', job.id);
+      const result = await reconcileJob(job, now);
 
-        // Always add to updatedJobs even if updateError exists
+      // Expired jobs were failed and refunded; everything else reports its latest status
+      if (result.action !== 'expired' && result.action !== 'error') {
         updatedJobs.push({
           job_id: job.id,
-          status: currentStatus.status,
+          status: result.status,
           external_job_id: job.external_job_id
         });
-        
-        // Update the linked model if job succeeded or failed
-        if (currentStatus.status === 'succeeded' || currentStatus.status === 'failed') {
-          await supabase
-            .from('models')
-            .update({ 
-              model_status: currentStatus.status === 'succeeded' ? 'completed' : 'failed',
-              ...(storedModelUrl && { model_url: storedModelUrl })
-            })
-            .eq('job_id', job.id);
-        }
-        
-        // Log update errors separately
-        if (updateError) {
-          console.error(`Failed to update job ${job.id}:`, updateError);
-        }
-      } catch (error) {
-        console.error(`Error updating job ${job.id}:`, error);
       }
     }
 
+    // Finished jobs free slots for pending ones
+    try {
+      await releasePendingJobs();
+    } catch (error) {
+      console.error('Failed to release pending jobs:', error);
+    }
+
     return NextResponse.json({ updatedJobs });
   } catch (error) {
     console.error('Job refresh error:', error);
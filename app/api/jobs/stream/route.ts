@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { supabaseServer } from '@/lib/supabase-server';
+import { TERMINAL_JOB_STATUSES } from '@/lib/generation/finalize';
+import type { JobStreamEvent } from '@/types/jobs';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Comment line sent periodically so proxies keep the connection open
+const HEARTBEAT_INTERVAL = 25000;
+
+/**
+ * Job Status Stream endpoint
+ * GET /api/jobs/stream?access_token=xxx
+ *
+ * Server-Sent Events stream of the caller's job updates:
+ * 1. Sends a `job` event for every active job as a snapshot
+ * 2. Forwards every later insert/update of the user's jobs (written by the
+ *    webhook or refresh logic) as a `job` event, via Supabase Realtime
+ *
+ * EventSource cannot set headers, so the access token may be passed as a
+ * query parameter; an Authorization header is accepted as well.
+ */
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get('Authorization');
+  const token = authHeader?.startsWith('Bearer ')
+    ? authHeader.split(' ')[1]
+    : request.nextUrl.searchParams.get('access_token');
+
+  if (!token) {
+    return NextResponse.json({ error: 'Missing authorization token' }, { status: 401 });
+  }
+
+  // Verify token and get user
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      global: {
+        headers: {
+          Authorization: `Bearer ${token}`
+        }
+      }
+    }
+  );
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const encoder = new TextEncoder();
+  let channel: ReturnType<typeof supabaseServer.channel> | null = null;
+  let heartbeat: ReturnType<typeof setInterval> | null = null;
+  let closed = false;
+
+  const cleanup = () => {
+    if (closed) return;
+    closed = true;
+    if (heartbeat) clearInterval(heartbeat);
+    if (channel) supabaseServer.removeChannel(channel);
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const sendJob = (job: any) => {
+        write(`event: job\ndata: ${JSON.stringify(toJobEvent(job))}\n\n`);
+      };
+
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Stream already closed
+        }
+      });
+
+      // Tell the client how often to reconnect after a dropped connection
+      write('retry: 5000\n\n');
+
+      // Subscribe before taking the snapshot so no update falls in between
+      channel = supabaseServer
+        .channel(`job-stream-${user.id}-${crypto.randomUUID()}`)
+        .on('postgres_changes', {
+          event: '*',
+          schema: 'public',
+          table: 'jobs',
+          filter: `user_id=eq.${user.id}`
+        }, (payload) => {
+          if (payload.new && 'id' in payload.new) {
+            sendJob(payload.new);
+          }
+        })
+        .subscribe();
+
+      // Snapshot of active jobs
+      const { data: activeJobs, error } = await supabaseServer
+        .from('jobs')
+        .select('id, api_status, api_stage, progress, model_url, error_message, updated_at')
+        .eq('user_id', user.id)
+        .not('api_status', 'in', `(${TERMINAL_JOB_STATUSES.join(',')})`);
+
+      if (error) {
+        console.error(`Failed to load active jobs for stream (user ${user.id}):`, error);
+      }
+
+      (activeJobs || []).forEach(sendJob);
+
+      heartbeat = setInterval(() => write(': heartbeat\n\n'), HEARTBEAT_INTERVAL);
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
+
+// ==================== HELPER FUNCTIONS ====================
+
+/**
+ * Maps a jobs row to the event payload sent to the client
+ */
+function toJobEvent(job: any): JobStreamEvent {
+  return {
+    job_id: job.id,
+    status: job.api_status,
+    stage: job.api_stage ?? null,
+    progress: job.progress ?? 0,
+    model_url: job.model_url ?? null,
+    error_message: job.error_message ?? null,
+    updated_at: job.updated_at
+  };
+}
@@ -0,0 +1,418 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { supabaseServer } from '@/lib/supabase-server';
+import { creditService, InsufficientCreditsError, type GenerationCharge } from '@/lib/billing/credits';
+import {
+  getDefaultProviderName,
+  getGenerationProvider,
+  isGenerationProviderName,
+  isRequestableProvider
+} from '@/lib/generation/providers';
+import { getQualityPreset, isPresetSupported, isQualityPresetId, type QualityPreset } from '@/lib/generation/presets';
+import { enqueueGeneration, JobEnqueueError } from '@/lib/generation/enqueue';
+import { releasePendingJobs } from '@/lib/generation/queue';
+import {
+  BATCH_VIEWS,
+  normalizeManifestRows,
+  parseBatchManifest,
+  type BatchManifestEntry,
+  type BatchView
+} from '@/lib/batch/photo-sets';
+import { importRemoteImage } from '@/lib/batch/remote-image';
+import type { GenerationProviderName, GenerationViews } from '@/lib/generation/types';
+
+export const dynamic = 'force-dynamic';
+
+// Rows are fetched a few at a time; each image fetch may take up to 15s, so a full
+// manifest finishes well inside the route's time limit
+export const maxDuration = 120;
+
+// Most rows accepted in one import request; larger manifests are split by the client
+const MAX_IMPORT_ROWS = 20;
+
+// Rows imported at the same time
+const IMPORT_CONCURRENCY = 4;
+
+// Rows not started by then are reported as skipped instead of running past the time limit
+const IMPORT_DEADLINE_MS = 90 * 1000;
+
+// Tags kept per model, and the longest tag accepted
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 50;
+
+interface ImportRowResult {
+  row: number;
+  name: string;
+  status: 'created' | 'queued' | 'failed';
+  model_id?: string;
+  job_id?: string;
+  credits_charged?: number;
+  free_model?: boolean;
+  error?: string;
+}
+
+/**
+ * Manifest Import endpoint
+ *
+ * POST /api/models/import
+ * Body: { manifest?: string, rows?: [{ name, front, left?, right?, back?, preset?, tags? }],
+ *         generate?: boolean, preset?: string, provider?: string }
+ * A raw CSV or JSON manifest can also be posted as the body (text/csv), with
+ * ?generate=true&preset=xxx&provider=xxx in the query string
+ *
+ * For each row:
+ * 1. Validates the row and resolves its preset (row preset, then request default)
+ * 2. Fetches every image URL into the R2 photos bucket
+ * 3. Creates a draft model with the stored photos and tags
+ * 4. If generating, charges the row's credits and queues its generation
+ *
+ * Rows are independent and imported a few at a time; the response reports the outcome
+ * of every row and lists failures. Rows that could not start before the deadline are
+ * reported as failed without being charged, so they can be imported again.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // ==================== STEP 1: Authenticate and Parse Manifest ====================
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { rows, generate, defaultPresetId, providerName } = await parseImportRequest(request);
+    console.log(`📥 Importing ${rows.length} manifest row(s) for user ${user.id}`, { generate });
+
+    // ==================== STEP 2: Import Rows ====================
+    const deadline = Date.now() + IMPORT_DEADLINE_MS;
+    const results = await mapWithConcurrency(rows, IMPORT_CONCURRENCY, (entry, index) => {
+      if (Date.now() > deadline) {
+        return Promise.resolve<ImportRowResult>({
+          row: index + 1,
+          name: entry.name,
+          status: 'failed',
+          error: 'Skipped: import time limit reached, import this row again'
+        });
+      }
+      return importRow(user.id, index + 1, entry, { generate, defaultPresetId, providerName });
+    });
+
+    // ==================== STEP 3: Update Stats and Release Queue ====================
+    const queuedCount = results.filter(result => result.status === 'queued').length;
+    await incrementModelsGenerated(user.id, queuedCount);
+
+    if (queuedCount > 0) {
+      try {
+        await releasePendingJobs();
+      } catch (error) {
+        console.error('⚠️ Failed to release pending jobs:', error);
+      }
+    }
+
+    return NextResponse.json({
+      total: results.length,
+      created: results.filter(result => result.status !== 'failed').length,
+      queued: queuedCount,
+      credits_charged: results.reduce((sum, result) => sum + (result.credits_charged ?? 0), 0),
+      rows: results,
+      failures: results.filter(result => result.error)
+    });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ detail: error.message }, { status: 400 });
+    }
+
+    console.error('Manifest import error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// ==================== HELPER FUNCTIONS ====================
+
+/**
+ * Resolves the caller from the Authorization header
+ */
+async function getAuthenticatedUser(request: NextRequest) {
+  const authHeader = request.headers.get('Authorization');
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null;
+  }
+
+  const token = authHeader.split(' ')[1];
+
+  // Create authenticated client
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      global: {
+        headers: {
+          Authorization: `Bearer ${token}`
+        }
+      }
+    }
+  );
+
+  const { data: { user }, error } = await supabase.auth.getUser();
+  return error ? null : user;
+}
+
+/**
+ * Reads the manifest from a JSON body or a raw CSV/JSON body and validates the options
+ */
+async function parseImportRequest(request: NextRequest) {
+  const contentType = request.headers.get('content-type') ?? '';
+  const searchParams = new URL(request.url).searchParams;
+
+  let body: any;
+  let manifestText: string | null = null;
+
+  if (contentType.includes('application/json')) {
+    body = await request.json().catch(() => {
+      throw new ValidationError('Request body is not valid JSON');
+    });
+    if (typeof body?.manifest === 'string') {
+      manifestText = body.manifest;
+    }
+  } else {
+    manifestText = await request.text();
+    body = {
+      generate: searchParams.get('generate') === 'true',
+      preset: searchParams.get('preset') ?? undefined,
+      provider: searchParams.get('provider') ?? undefined
+    };
+  }
+
+  let rows: BatchManifestEntry[];
+  try {
+    rows = manifestText !== null
+      ? parseBatchManifest(manifestText)
+      : normalizeManifestRows(Array.isArray(body?.rows) ? body.rows : []);
+  } catch (error) {
+    throw new ValidationError(error instanceof Error ? error.message : 'Invalid manifest');
+  }
+
+  if (rows.length === 0) {
+    throw new ValidationError('The manifest has no rows');
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new ValidationError(`A manifest can contain at most ${MAX_IMPORT_ROWS} rows; split larger manifests`);
+  }
+  if (body.preset && !isQualityPresetId(body.preset)) {
+    throw new ValidationError(`Unknown quality preset: ${body.preset}`);
+  }
+  if (body.provider && !isGenerationProviderName(body.provider)) {
+    throw new ValidationError(`Unknown generation provider: ${body.provider}`);
+  }
+  if (body.provider && !isRequestableProvider(body.provider)) {
+    throw new ValidationError(`Generation provider ${body.provider} cannot be selected per request`);
+  }
+
+  return {
+    rows,
+    generate: body.generate === true,
+    defaultPresetId: body.preset as string | undefined,
+    providerName: (body.provider as GenerationProviderName | undefined) ?? getDefaultProviderName()
+  };
+}
+
+/**
+ * Runs an async function over items with at most `limit` calls in flight, keeping result order
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Imports one manifest row; failures are reported in the result instead of thrown
+ */
+async function importRow(
+  userId: string,
+  rowNumber: number,
+  entry: BatchManifestEntry,
+  options: { generate: boolean; defaultPresetId?: string; providerName: GenerationProviderName }
+): Promise<ImportRowResult> {
+  const result: ImportRowResult = { row: rowNumber, name: entry.name, status: 'failed' };
+
+  try {
+    // Validate before fetching anything
+    if (!entry.front) {
+      throw new ValidationError('A front image URL is required');
+    }
+    const presetId = entry.preset ?? options.defaultPresetId;
+    if (presetId && !isQualityPresetId(presetId)) {
+      throw new ValidationError(`Unknown quality preset: ${presetId}`);
+    }
+    const preset = getQualityPreset(presetId);
+    if (options.generate && !isPresetSupported(preset, getGenerationProvider(options.providerName))) {
+      throw new ValidationError(`Provider ${options.providerName} does not support the ${preset.label} preset`);
+    }
+
+    const views = await importRowImages(entry);
+    const model = await createDraftModel(userId, entry, views);
+    result.status = 'created';
+    result.model_id = model.id;
+
+    if (options.generate) {
+      const { job, charge } = await queueRowGeneration(model, entry.name, views, preset, options.providerName);
+      result.status = 'queued';
+      result.job_id = job.id;
+      result.credits_charged = charge.credits;
+      result.free_model = charge.freeModel;
+    }
+  } catch (error) {
+    console.error(`❌ Manifest row ${rowNumber} ("${entry.name}") failed:`, error);
+    result.error = error instanceof Error ? error.message : 'Failed to import row';
+  }
+
+  return result;
+}
+
+/**
+ * Copies every image of a row into the photos bucket
+ * @returns Stored photo URL per view
+ */
+async function importRowImages(entry: BatchManifestEntry) {
+  const views = BATCH_VIEWS.filter(view => entry[view]);
+
+  const stored = await Promise.all(views.map(async view => {
+    try {
+      const { url } = await importRemoteImage(entry[view]!);
+      return [view, url] as const;
+    } catch (error) {
+      throw new Error(`${view} image: ${error instanceof Error ? error.message : 'import failed'}`);
+    }
+  }));
+
+  return Object.fromEntries(stored) as Partial<Record<BatchView, string>>;
+}
+
+/**
+ * Creates the draft model for an imported row
+ */
+async function createDraftModel(
+  userId: string,
+  entry: BatchManifestEntry,
+  views: Partial<Record<BatchView, string>>
+) {
+  const tags = (entry.tags ?? [])
+    .map(tag => tag.slice(0, MAX_TAG_LENGTH))
+    .slice(0, MAX_TAGS);
+
+  const { data, error } = await supabaseServer
+    .from('models')
+    .insert({
+      user_id: userId,
+      name: entry.name,
+      tags,
+      model_status: 'draft',
+      front_image_url: views.front,
+      back_image_url: views.back ?? null,
+      left_image_url: views.left ?? null,
+      right_image_url: views.right ?? null
+    })
+    .select('id, user_id')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create model: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Pays for one row (a free model of this month first, otherwise credits) and queues its
+ * generation, giving the charge back if queueing fails before a job exists (once a job
+ * exists, failing it refunds the charge)
+ * The model stays as a draft when the user is out of free models and credits
+ */
+async function queueRowGeneration(
+  model: { id: string; user_id: string },
+  name: string,
+  views: Partial<Record<BatchView, string>>,
+  preset: QualityPreset,
+  providerName: GenerationProviderName
+) {
+  let charge: GenerationCharge;
+  try {
+    [charge] = await creditService.chargeGenerations(
+      model.user_id,
+      1,
+      preset.credits,
+      `Manifest import: ${name} (${preset.label})`
+    );
+  } catch (error) {
+    if (error instanceof InsufficientCreditsError) {
+      throw new Error(`Model created but not queued: ${error.message}`);
+    }
+    throw error;
+  }
+
+  try {
+    const job = await enqueueGeneration({
+      model,
+      providerName,
+      preset,
+      views: views as GenerationViews,
+      freeModel: charge.freeModel,
+      planCredits: charge.planCredits
+    });
+    return { job, charge };
+  } catch (error) {
+    if (!(error instanceof JobEnqueueError)) {
+      await creditService.releaseGenerationCharges(
+        model.user_id,
+        [charge],
+        `Refund: imported model "${name}" could not be queued`
+      );
+    }
+    throw new Error(`Model created but not queued: ${error instanceof Error ? error.message : 'queueing failed'}`);
+  }
+}
+
+/**
+ * Adds the queued models to the user's generation statistics
+ */
+async function incrementModelsGenerated(userId: string, count: number) {
+  if (count === 0) return;
+
+  const { data: billing } = await supabaseServer
+    .from('user_billing')
+    .select('total_models_generated')
+    .eq('id', userId)
+    .single();
+
+  await supabaseServer
+    .from('user_billing')
+    .update({ total_models_generated: (billing?.total_models_generated ?? 0) + count })
+    .eq('id', userId);
+}
+
+// ==================== CUSTOM ERROR CLASSES ====================
+
+/**
+ * Error for validation failures (400 Bad Request, or a failed row)
+ */
+class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { supabaseServer } from '@/lib/supabase-server';
+import { modelVersionService } from '@/lib/supabase/model-version.service';
+
+/**
+ * Model Versions endpoint
+ *
+ * GET /api/models/versions?model_id=xxx
+ * Lists every generated version of a model owned by the caller, newest first
+ *
+ * POST /api/models/versions
+ * Body: { model_id: string, version_id: string }
+ * Marks a finished version as the model's current one
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const modelId = new URL(request.url).searchParams.get('model_id');
+    if (!modelId) {
+      return NextResponse.json({ error: 'model_id is required' }, { status: 400 });
+    }
+
+    const model = await getOwnedModel(modelId, user.id);
+    if (!model) {
+      return NextResponse.json({ error: 'Model not found' }, { status: 404 });
+    }
+
+    const versions = await modelVersionService.getVersionsByModelId(modelId);
+
+    return NextResponse.json({
+      current_version_id: model.current_version_id,
+      versions
+    });
+  } catch (error) {
+    console.error('Model versions fetch error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { model_id: modelId, version_id: versionId } = await request.json();
+    if (!modelId || !versionId) {
+      return NextResponse.json(
+        { error: 'model_id and version_id are required' },
+        { status: 400 }
+      );
+    }
+
+    const model = await getOwnedModel(modelId, user.id);
+    if (!model) {
+      return NextResponse.json({ error: 'Model not found' }, { status: 404 });
+    }
+
+    try {
+      const version = await modelVersionService.setCurrentVersion(modelId, versionId);
+      return NextResponse.json({
+        current_version_id: version.id,
+        model_url: version.model_url,
+        gaussian_ply_url: version.gaussian_ply_url ?? null
+      });
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Failed to set current version' },
+        { status: 409 }
+      );
+    }
+  } catch (error) {
+    console.error('Model version update error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// ==================== HELPER FUNCTIONS ====================
+
+/**
+ * Resolves the user from the Bearer token, or null when missing/invalid
+ */
+async function getAuthenticatedUser(request: NextRequest) {
+  const authHeader = request.headers.get('Authorization');
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null;
+  }
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      global: {
+        headers: {
+          Authorization: authHeader
+        }
+      }
+    }
+  );
+
+  const { data: { user }, error } = await supabase.auth.getUser();
+  return error ? null : user;
+}
+
+/**
+ * Loads a model only if it belongs to the given user
+ */
+async function getOwnedModel(modelId: string, userId: string) {
+  const { data, error } = await supabaseServer
+    .from('models')
+    .select('id, user_id, current_version_id')
+    .eq('id', modelId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data && data.user_id === userId ? data : null;
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { getCreditPackage } from '@/lib/payments/packages';
+import { paymentService } from '@/lib/payments/sessions';
+import { planService } from '@/lib/billing/plans';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Credit checkout endpoint
+ * POST /api/payments/checkout
+ *
+ * Body: { package_id } (one of CREDIT_PACKAGES) or { plan_id } (an active plan; starts a
+ * monthly subscription that replaces the current plan, i.e. upgrade or downgrade)
+ * Returns: { session_id, url } - send the user to `url` to pay. The provider returns
+ * them to /billing?checkout=success|canceled&session_id=...; credits are granted by
+ * the payment webhook, not by the redirect.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // ==== STEP 1: Authenticate user ====
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // ==== STEP 2: Resolve the package or plan ====
+    const body = await request.json().catch(() => ({}));
+    const buyer = { id: user.id, email: user.email };
+    const returnUrl = `${request.nextUrl.origin}/billing`;
+
+    let checkout;
+    if (typeof body?.plan_id === 'string') {
+      const plan = await planService.getPlan(body.plan_id);
+      if (!plan) {
+        return NextResponse.json({ error: 'Unknown plan' }, { status: 400 });
+      }
+
+      // ==== STEP 3: Open the provider checkout ====
+      checkout = await paymentService.startPlanCheckout(buyer, plan, returnUrl);
+    } else {
+      const pkg = getCreditPackage(body?.package_id);
+      if (!pkg) {
+        return NextResponse.json({ error: 'Unknown credit package' }, { status: 400 });
+      }
+
+      // ==== STEP 3: Open the provider checkout ====
+      checkout = await paymentService.startCheckout(buyer, pkg, returnUrl);
+    }
+
+    return NextResponse.json({ session_id: checkout.sessionId, url: checkout.url });
+  } catch (error) {
+    console.error('❌ Checkout error:', error);
+    return NextResponse.json({ error: 'Failed to start checkout' }, { status: 500 });
+  }
+}
+
+/**
+ * Checkout status endpoint
+ * GET /api/payments/checkout?session_id=...
+ *
+ * Returns: { session_id, status, kind, credits, amount_cents, currency, package_id, plan_id }
+ * for one of the caller's sessions.
+ * The billing page polls this after the redirect until the webhook has completed it.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const sessionId = request.nextUrl.searchParams.get('session_id');
+    if (!sessionId) {
+      return NextResponse.json({ error: 'session_id is required' }, { status: 400 });
+    }
+
+    const session = await paymentService.getSession(sessionId, user.id);
+    if (!session) {
+      return NextResponse.json({ error: 'Payment session not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      session_id: session.id,
+      status: session.status,
+      kind: session.kind,
+      credits: session.credits,
+      amount_cents: session.amount_cents,
+      currency: session.currency,
+      package_id: session.package_id,
+      plan_id: session.plan_id
+    });
+  } catch (error) {
+    console.error('❌ Checkout status error:', error);
+    return NextResponse.json({ error: 'Failed to fetch checkout status' }, { status: 500 });
+  }
+}
+
+// ==================== HELPER FUNCTIONS ====================
+
+/**
+ * Resolves the caller from the Bearer token
+ */
+async function getAuthenticatedUser(request: NextRequest) {
+  const authHeader = request.headers.get('Authorization');
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null;
+  }
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      global: {
+        headers: {
+          Authorization: authHeader
+        }
+      }
+    }
+  );
+
+  const { data: { user }, error } = await supabase.auth.getUser();
+  return error ? null : user;
+}
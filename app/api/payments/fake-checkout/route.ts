@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { FakePaymentProvider } from '@/lib/payments/fake';
+import { getPaymentProvider } from '@/lib/payments/providers';
+import { paymentService } from '@/lib/payments/sessions';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Fake checkout endpoint (offline payments only)
+ * POST /api/payments/fake-checkout
+ *
+ * Body: { session_id, outcome: 'paid' | 'canceled' }
+ * Plays the part of the hosted checkout page: sends the signed webhook a real provider
+ * would send, so credits go through the same webhook and ledger path as a real purchase.
+ * Returns 404 unless the fake provider is the configured one.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const provider = getPaymentProvider();
+    if (!(provider instanceof FakePaymentProvider)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    // ==== STEP 1: Authenticate user ====
+    const authHeader = request.headers.get('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing authorization token' }, { status: 401 });
+    }
+
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: authHeader
+          }
+        }
+      }
+    );
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // ==== STEP 2: Validate the session ====
+    const { session_id: sessionId, outcome } = await request.json().catch(() => ({}));
+    if (outcome !== 'paid' && outcome !== 'canceled') {
+      return NextResponse.json({ error: "outcome must be 'paid' or 'canceled'" }, { status: 400 });
+    }
+
+    const session = sessionId ? await paymentService.getSession(sessionId, user.id) : null;
+    if (!session || session.provider !== provider.name || !session.provider_session_id) {
+      return NextResponse.json({ error: 'Payment session not found' }, { status: 404 });
+    }
+    if (session.status !== 'pending') {
+      return NextResponse.json({ error: `Payment session is already ${session.status}` }, { status: 409 });
+    }
+
+    // ==== STEP 3: Deliver the provider webhook ====
+    const deliveryStatus = await provider.completeCheckout(
+      {
+        providerSessionId: session.provider_session_id,
+        paymentSessionId: session.id,
+        amountCents: session.amount_cents,
+        currency: session.currency,
+        recurring: session.kind === 'plan'
+      },
+      outcome
+    );
+
+    if (deliveryStatus >= 300) {
+      return NextResponse.json({ error: `Payment webhook failed with ${deliveryStatus}` }, { status: 502 });
+    }
+
+    return NextResponse.json({ session_id: session.id, outcome });
+  } catch (error) {
+    console.error('❌ Fake checkout error:', error);
+    return NextResponse.json({ error: 'Failed to complete fake checkout' }, { status: 500 });
+  }
+}
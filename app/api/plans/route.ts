@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { planService } from '@/lib/billing/plans';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Subscription plans endpoint
+ * GET /api/plans
+ *
+ * Returns: { plans } - active plans, cheapest first. Public; subscribing goes through
+ * POST /api/payments/checkout with { plan_id }.
+ */
+export async function GET() {
+  try {
+    const plans = await planService.listPlans();
+    return NextResponse.json({ plans });
+  } catch (error) {
+    console.error('❌ Error fetching plans:', error);
+    return NextResponse.json({ error: 'Failed to fetch plans' }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { promoCodeService, PromoCodeError, type PromoCodeErrorReason } from '@/lib/billing/promo-codes';
+
+export const dynamic = 'force-dynamic';
+
+// HTTP status per redemption failure
+const ERROR_STATUS: Record<PromoCodeErrorReason, number> = {
+  invalid: 404,
+  expired: 410,
+  exhausted: 409,
+  already_redeemed: 409,
+  duplicate: 409
+};
+
+/**
+ * Promo code redemption endpoint
+ * POST /api/promo-codes/redeem
+ *
+ * Body: { code } (case-insensitive)
+ * Returns: { credits, balance } - the code's credits are recorded as an 'award'
+ * transaction. Unknown codes return 404, expired codes 410, and codes that are used up
+ * or were already redeemed by the caller 409, each with a message for the user.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // ==== STEP 1: Authenticate user ====
+    const authHeader = request.headers.get('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing authorization token' }, { status: 401 });
+    }
+
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: authHeader
+          }
+        }
+      }
+    );
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // ==== STEP 2: Redeem the code ====
+    const body = await request.json().catch(() => ({}));
+    if (typeof body?.code !== 'string' || !body.code.trim()) {
+      return NextResponse.json({ error: 'code is required' }, { status: 400 });
+    }
+
+    const redemption = await promoCodeService.redeem(user.id, body.code);
+    return NextResponse.json({ credits: redemption.credits, balance: redemption.balance });
+  } catch (error) {
+    if (error instanceof PromoCodeError) {
+      return NextResponse.json({ error: error.message, reason: error.reason }, { status: ERROR_STATUS[error.reason] });
+    }
+
+    console.error('❌ Promo code redemption error:', error);
+    return NextResponse.json({ error: 'Failed to redeem promo code' }, { status: 500 });
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { referralService, ReferralError, type ReferralErrorReason } from '@/lib/billing/referrals';
+
+export const dynamic = 'force-dynamic';
+
+// HTTP status per claim failure
+const ERROR_STATUS: Record<ReferralErrorReason, number> = {
+  invalid: 404,
+  self: 400,
+  not_new: 409
+};
+
+/**
+ * Referral claim endpoint
+ * POST /api/referrals/claim
+ *
+ * Body: { code? } - referral code from the signup link; defaults to the referral_code
+ * saved in the user's signup metadata (email signups confirmed in another browser)
+ * Returns: { status } - 'pending' until the caller's first model completes, when both
+ * accounts receive their referral credits. Unknown codes return 404, the caller's own
+ * code 400, and accounts that are no longer new 409.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // ==== STEP 1: Authenticate user ====
+    const authHeader = request.headers.get('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing authorization token' }, { status: 401 });
+    }
+
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: authHeader
+          }
+        }
+      }
+    );
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // ==== STEP 2: Claim the referral ====
+    const body = await request.json().catch(() => ({}));
+    const code = typeof body?.code === 'string' && body.code.trim()
+      ? body.code
+      : user.user_metadata?.referral_code;
+
+    if (typeof code !== 'string' || !code.trim()) {
+      return NextResponse.json({ error: 'code is required' }, { status: 400 });
+    }
+
+    const referral = await referralService.claimReferral(user.id, code);
+    return NextResponse.json({ status: referral.status });
+  } catch (error) {
+    if (error instanceof ReferralError) {
+      return NextResponse.json({ error: error.message, reason: error.reason }, { status: ERROR_STATUS[error.reason] });
+    }
+
+    console.error('❌ Referral claim error:', error);
+    return NextResponse.json({ error: 'Failed to claim referral' }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { referralService, REFERRED_CREDITS, REFERRER_CREDITS } from '@/lib/billing/referrals';
+
+export const dynamic = 'force-dynamic';
+
+// Query parameter that carries the referral code through signup (read by AuthContext)
+const REFERRAL_QUERY_PARAM = 'ref';
+
+/**
+ * Referral link endpoint
+ * GET /api/referrals
+ *
+ * Returns: { code, link, referrer_credits, referred_credits, invited, awarded, credits_earned }
+ * The caller's referral code is created on first request.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // ==== STEP 1: Authenticate user ====
+    const authHeader = request.headers.get('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing authorization token' }, { status: 401 });
+    }
+
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: {
+          headers: {
+            Authorization: authHeader
+          }
+        }
+      }
+    );
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // ==== STEP 2: Load code and stats ====
+    const [code, stats] = await Promise.all([
+      referralService.getReferralCode(user.id),
+      referralService.getReferralStats(user.id)
+    ]);
+
+    const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || request.nextUrl.origin;
+    const link = new URL('/', baseUrl);
+    link.searchParams.set(REFERRAL_QUERY_PARAM, code);
+
+    return NextResponse.json({
+      code,
+      link: link.toString(),
+      referrer_credits: REFERRER_CREDITS,
+      referred_credits: REFERRED_CREDITS,
+      invited: stats.invited,
+      awarded: stats.awarded,
+      credits_earned: stats.creditsEarned
+    });
+  } catch (error) {
+    console.error('❌ Referral link error:', error);
+    return NextResponse.json({ error: 'Failed to load referral link' }, { status: 500 });
+  }
+}
@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { jobService } from '@/lib/supabase';
 import { ModelService } from '@/lib/supabase/model.service';
 import { supabaseServer } from '@/lib/supabase-server';
-import { FirtozTrellisService } from '@/lib/firtoz-trellis/service';
+import { TERMINAL_JOB_STATUSES } from '@/lib/generation/finalize';
+import { reconcileJob } from '@/lib/generation/reconcile';
 
 const modelService = new ModelService();
 
@@ -59,45 +60,31 @@ export async function GET(request: NextRequest) {
     }
     
     // Construct response in the expected format
-    // If job is not terminal and stale, poll Replicate for updated status
+    // If job is not terminal and stale, poll the provider for updated status
     const STALE_JOB_THRESHOLD = 5 * 60 * 1000; // 5 minutes
-    const terminalStatuses = ['succeeded', 'failed', 'canceled'];
-    
-    if (!terminalStatuses.includes(job.api_status)) {
+    if (!TERMINAL_JOB_STATUSES.includes(job.api_status)) {
       const now = new Date();
       const lastUpdated = new Date(job.updated_at);
       const timeDiff = now.getTime() - lastUpdated.getTime();
       
       if (timeDiff > STALE_JOB_THRESHOLD) {
         try {
-          const service = new FirtozTrellisService();
-          console.log(`Polling Replicate API for job: ${job.external_job_id}`);
-          const currentStatus = await service.getPredictionStatus(job.external_job_id);
-          console.log(`Replicate API response for ${job.external_job_id}:`, currentStatus);
+          console.log(`Reconciling stale job: ${job.id}`);
+          
+          // Polls the provider (copies the GLB to R2 when the job finished) or resubmits a due retry
+          const result = await reconcileJob(job, now);
+          if (result.action === 'error') throw new Error(result.error);
           
-          // Update job record with current status
-          const { error: updateError } = await supabaseServer
+          // Refetch updated job
+          const { data: updatedJob } = await supabaseServer
             .from('jobs')
-            .update({
-              api_status: currentStatus.status,
-              ...(currentStatus.output?.model_file && { model_url: currentStatus.output.model_file }),
-              ...(currentStatus.error && { error_message: currentStatus.error }),
-              updated_at: new Date().toISOString()
-            })
-            .eq('id', job.id);
+            .select('*')
+            .eq('id', job.id)
+            .single();
           
-          if (!updateError) {
-            // Refetch updated job
-            const { data: updatedJob } = await supabaseServer
-              .from('jobs')
-              .select('*')
-              .eq('id', job.id)
-              .single();
-            
-            if (updatedJob) job = updatedJob;
-          }
+          if (updatedJob) job = updatedJob;
         } catch (error) {
-          console.error('Replicate polling failed:', error);
+          console.error('Provider polling failed:', error);
         }
       }
     }
@@ -110,6 +97,9 @@ export async function GET(request: NextRequest) {
         case 'succeeded': return 'completed';
         case 'failed': return 'failed';
         case 'canceled': return 'failed';
+        case 'preparing': return 'queued';
+        case 'pending': return 'queued';
+        case 'retrying': return 'queued';
         default: return status;
       }
     };
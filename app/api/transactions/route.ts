@@ -1,7 +1,6 @@
 import { NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import type { NextRequest } from 'next/server'
-import type { TransactionType } from '@/types/models'
 
 // Define the structure of the query parameters
 interface QueryParams {
@@ -9,15 +8,14 @@ interface QueryParams {
   limit?: string;
 }
 
-// Define transaction creation interface
-interface TransactionData {
-  type: TransactionType;
-  amount: number;
-  credits: number;
-  description?: string;
-  status?: 'completed' | 'pending' | 'failed';
-}
-
+/**
+ * Transaction history endpoint
+ * GET /api/transactions?page=1&limit=10
+ *
+ * Read-only: transactions are written by the server-side credit ledger together with
+ * the balance change they describe (see lib/billing/credits.ts). Transactions tied to
+ * a model (e.g. job refunds) include it as `model: { id, name }`.
+ */
 export async function GET(request: NextRequest) {
   try {
     // Extract token from Authorization header
@@ -56,7 +54,7 @@ export async function GET(request: NextRequest) {
     // Fetch transactions for current user with pagination
     const { data: transactions, error, count } = await supabase
       .from('user_transactions')
-      .select('*', { count: 'exact' })
+      .select('*, model:models(id, name)', { count: 'exact' })
       .eq('user_id', user.id)
       .order('created_at', { ascending: false })
       .range(offset, offset + limit - 1)
@@ -81,69 +79,3 @@ export async function GET(request: NextRequest) {
     )
   }
 }
-
-export async function POST(request: NextRequest) {
-  try {
-    // Extract token from Authorization header
-    const authHeader = request.headers.get('Authorization')
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Missing authorization token' }, { status: 401 })
-    }
-    
-    const token = authHeader.split(' ')[1]
-    
-    // Create authenticated Supabase client
-    const supabase = createClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL!,
-      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-      {
-        global: {
-          headers: {
-            Authorization: `Bearer ${token}`
-          }
-        }
-      }
-    )
-    
-    // Verify token and get user
-    const { data: { user }, error: authError } = await supabase.auth.getUser()
-    if (authError || !user) {
-      return NextResponse.json({ error: 'Invalid token' }, { status: 401 })
-    }
-
-    // Parse request body
-    const transactionData: TransactionData = await request.json()
-    
-    // Validate required fields
-    if (!transactionData.type || transactionData.amount === undefined || transactionData.credits === undefined) {
-      return NextResponse.json(
-        { error: 'Missing required fields (type, amount, credits)' },
-        { status: 400 }
-      )
-    }
-
-    // Create transaction record (without status field since it doesn't exist in the schema)
-    const { data: transaction, error } = await supabase
-      .from('user_transactions')
-      .insert([{
-        user_id: user.id,
-        type: transactionData.type,
-        amount: transactionData.amount,
-        credits: transactionData.credits,
-        description: transactionData.description || ''
-      }])
-      .select()
-
-    if (error) {
-      throw error
-    }
-
-    return NextResponse.json(transaction[0], { status: 201 })
-  } catch (error) {
-    console.error('Error creating transaction:', error)
-    return NextResponse.json(
-      { error: 'Failed to create transaction' },
-      { status: 500 }
-    )
-  }
-}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPaymentProvider } from '@/lib/payments/providers';
+import { PaymentMismatchError, paymentService } from '@/lib/payments/sessions';
+import { PaymentSignatureError } from '@/lib/payments/types';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Payment webhook endpoint
+ * POST /api/webhooks/payments
+ *
+ * Headers:
+ * - Stripe-Signature: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`, signed
+ *   with the configured provider's webhook secret
+ *
+ * 1. Verifies the signature against the raw body and rejects old timestamps
+ * 2. Completed checkouts grant the package's credits (or start the plan with its first
+ *    month's credits) as a 'purchase' transaction; redeliveries of a completed session
+ *    change nothing
+ * 3. Paid renewal invoices are recorded for the next plan renewal
+ * 4. Expired checkouts close their session; a canceled plan subscription ends the plan at
+ *    its next renewal; other event types are acknowledged and ignored
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const provider = getPaymentProvider();
+    const body = await request.text();
+
+    const event = provider.parseWebhook(body, request.headers);
+    const outcome = await paymentService.handleEvent(event, provider);
+
+    return NextResponse.json({ received: true, outcome });
+  } catch (error) {
+    if (error instanceof PaymentSignatureError) {
+      console.warn('⚠️ Payment webhook rejected:', error.message);
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+    if (error instanceof PaymentMismatchError) {
+      // Retrying will not fix it; the failed delivery stays visible on the provider side
+      console.error('❌ Payment does not match its session:', error.message);
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    // Ask the provider to retry the delivery
+    console.error('❌ Payment webhook error:', error);
+    return NextResponse.json({ error: 'Failed to process payment webhook' }, { status: 500 });
+  }
+}
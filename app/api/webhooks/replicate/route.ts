@@ -1,15 +1,35 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabaseServer } from '@/lib/supabase-server';
-import { PredictionStatus } from '@/lib/firtoz-trellis/service';
-import crypto from 'crypto';
-import { r2Service } from '@/lib/r2';
-import { mapReplicateStatus } from '@/lib/utils/mapReplicateStatus';
+import {
+  isTimestampWithinTolerance,
+  markWebhookEvent,
+  processWebhookEvent,
+  recordWebhookDelivery
+} from '@/lib/generation/webhook-events';
+import { verifyWebhookSignature } from '@/lib/generation/webhook-signature';
+import { releasePendingJobs } from '@/lib/generation/queue';
 
 export const dynamic = 'force-dynamic';
 
+/**
+ * Replicate webhook endpoint
+ * POST /api/webhooks/replicate
+ *
+ * Headers:
+ * - webhook-id: unique delivery ID (same for retries of one delivery)
+ * - webhook-timestamp: delivery time in Unix seconds
+ * - webhook-signature: space-separated `v1,<base64 HMAC-SHA256>` of
+ *   `${webhook-id}.${webhook-timestamp}.${body}`, keyed with the base64 part of the
+ *   `whsec_` secret (Standard Webhooks)
+ *
+ * 1. Verifies the signature, which also covers the delivery ID and timestamp
+ * 2. Stores the delivery; repeated delivery IDs are acknowledged without reprocessing,
+ *    unless the earlier attempt failed with an error
+ * 3. Rejects deliveries whose timestamp is outside the tolerance window
+ * 4. Applies the result to the job (terminal jobs are never changed)
+ */
 export async function POST(request: NextRequest) {
   try {
-    // Verify HMAC signature
+    // Verify Standard Webhooks signature
     const secret = process.env.REPLICATE_WEBHOOK_SECRET;
     if (!secret) {
       return NextResponse.json(
@@ -18,86 +38,65 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const deliveryId = request.headers.get('webhook-id');
+    const timestampHeader = request.headers.get('webhook-timestamp');
+    if (!deliveryId || !timestampHeader) {
+      return NextResponse.json({ error: 'Missing webhook-id or webhook-timestamp' }, { status: 400 });
+    }
+
     const body = await request.text();
-    const signature = request.headers.get('X-Signature') || '';
-    const computedSignature = crypto
-      .createHmac('sha256', secret)
-      .update(body)
-      .digest('hex');
-    
-    if (!crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(computedSignature))) {
+    const signatureHeaders = {
+      id: deliveryId,
+      timestamp: timestampHeader,
+      signature: request.headers.get('webhook-signature')
+    };
+
+    if (!verifyWebhookSignature(signatureHeaders, body, secret)) {
       return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
     }
 
     // Parse and validate payload
     const payload = JSON.parse(body);
-    const { id, status, output, error } = payload;
-    
-    if (!id || !status) {
+    if (!payload.id || !payload.status) {
       return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
     }
 
-    // Map Replicate status to internal status
-    const internalStatus = mapReplicateStatus(status) as PredictionStatus;
-    
-    // Store model file in R2 if available
-    let storedModelUrl = null;
-    if (output?.model_file) {
-      try {
-        // Download model from Replicate
-        const response = await fetch(output.model_file);
-        const buffer = await response.arrayBuffer();
-        
-        // Upload to our R2 storage
-        const fileName = output.model_file.split('/').pop() || 'model.glb';
-        const result = await r2Service.uploadModel(
-          Buffer.from(buffer),
-          fileName
-        );
-        
-        storedModelUrl = result.url;
-      } catch (error) {
-        console.error('Failed to store model file:', error);
-        storedModelUrl = output.model_file; // Fallback to original URL
-      }
+    const timestampSeconds = Number(timestampHeader);
+    const deliveredAt = Number.isFinite(timestampSeconds) ? new Date(timestampSeconds * 1000) : null;
+
+    const { event, isDuplicate } = await recordWebhookDelivery({
+      deliveryId,
+      predictionId: payload.id,
+      status: payload.status,
+      payload,
+      deliveredAt
+    });
+
+    // Retries of a delivery that errored are processed again; anything else was already handled
+    if (isDuplicate && event.outcome !== 'error') {
+      console.log(`Duplicate webhook delivery ${deliveryId}, skipping`);
+      return NextResponse.json({ success: true, duplicate: true });
     }
 
-    // Update job status in database
-    const { data, error: dbError } = await supabaseServer
-      .from('jobs')
-      .update({
-        api_status: internalStatus,
-        ...(storedModelUrl && { model_url: storedModelUrl }),
-        ...(error && { error_message: error }),
-        updated_at: new Date().toISOString()
-      })
-      .eq('external_job_id', id);
-    
-    if (dbError) {
-      throw dbError;
+    if (!deliveredAt || !isTimestampWithinTolerance(deliveredAt)) {
+      await markWebhookEvent(event.id, 'rejected', 'Timestamp outside tolerance window');
+      return NextResponse.json({ error: 'Timestamp outside tolerance window' }, { status: 400 });
     }
 
-    // Find and update linked model
-    const job = data?.[0] as { id: string } | undefined;
-    if (job) {
-        const { data: modelData, error: modelError } = await supabaseServer
-          .from('models')
-          .update({
-            model_status: status === 'succeeded' ? 'completed' : 'failed',
-            ...(storedModelUrl && { model_url: storedModelUrl })
-          })
-          .eq('job_id', job.id);
-      
-      if (modelError) {
-        console.error('Model update error:', modelError);
-      }
+    const outcome = await processWebhookEvent(event);
+    if (outcome === 'error') {
+      // Ask the sender to retry the delivery
+      return NextResponse.json({ error: 'Failed to process webhook' }, { status: 500 });
     }
-    
-    if (dbError) {
-      throw dbError;
+
+    // A finished job frees a slot for the next pending one
+    if (outcome === 'applied') {
+      await releasePendingJobs().catch(error => {
+        console.error('Failed to release pending jobs:', error);
+      });
     }
 
-    return NextResponse.json({ success: true });
+    return NextResponse.json({ success: true, outcome });
   } catch (error) {
     console.error('Webhook error:', error);
     return NextResponse.json(
@@ -0,0 +1,141 @@
+"use client"
+
+import { useEffect, useState, Suspense } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { supabase } from "@/lib/supabase"
+
+// What the checkout sells, as reported by the checkout status endpoint
+interface CheckoutSummary {
+  kind: "credits" | "plan"
+  credits: number
+  amountCents: number
+}
+
+/**
+ * Checkout page of the offline payment provider
+ * Stands in for a hosted checkout page: paying or canceling sends the signed webhook a
+ * real provider would send, then returns to the billing page like a real checkout does.
+ */
+function FakeCheckoutContent() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const sessionId = searchParams.get("session_id")
+
+  const [accessToken, setAccessToken] = useState<string | null>(null)
+  const [summary, setSummary] = useState<CheckoutSummary | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    const loadSession = async () => {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session || !sessionId) {
+        setError("Checkout session not found")
+        return
+      }
+      setAccessToken(session.access_token)
+
+      const response = await fetch(`/api/payments/checkout?session_id=${encodeURIComponent(sessionId)}`, {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`
+        }
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || "Checkout session not found")
+      } else if (data.status !== "pending") {
+        setError(`This checkout is already ${data.status}`)
+      } else {
+        setSummary({ kind: data.kind, credits: data.credits, amountCents: data.amount_cents })
+      }
+    }
+
+    loadSession().catch((err) => {
+      console.error('Failed to load fake checkout:', err)
+      setError("Failed to load checkout")
+    })
+  }, [sessionId])
+
+  const finishCheckout = async (outcome: "paid" | "canceled") => {
+    setIsSubmitting(true)
+    try {
+      const response = await fetch('/api/payments/fake-checkout', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${accessToken}`
+        },
+        body: JSON.stringify({ session_id: sessionId, outcome })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Fake checkout failed')
+      }
+
+      const checkout = outcome === "paid" ? "success" : "canceled"
+      router.push(`/billing?checkout=${checkout}&session_id=${encodeURIComponent(sessionId!)}`)
+    } catch (err) {
+      console.error('Failed to finish fake checkout:', err)
+      setError(err instanceof Error ? err.message : "Fake checkout failed")
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-6">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Test Checkout</CardTitle>
+          <CardDescription>Offline payment provider. No real payment is made.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {error ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : !summary ? (
+            <div className="flex items-center justify-center py-6">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <div className="text-center">
+              <div className="text-3xl font-bold text-gray-900">
+                ${(summary.amountCents / 100).toFixed(2)}
+                {summary.kind === "plan" && <span className="text-base font-normal text-gray-600"> / month</span>}
+              </div>
+              <p className="text-sm text-gray-600">
+                {summary.kind === "plan" ? `${summary.credits} credits per month` : `${summary.credits} credits`}
+              </p>
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <Button
+              variant="outline"
+              className="flex-1"
+              disabled={!summary || isSubmitting}
+              onClick={() => finishCheckout("canceled")}
+            >
+              Cancel
+            </Button>
+            <Button
+              className="flex-1"
+              disabled={!summary || isSubmitting}
+              onClick={() => finishCheckout("paid")}
+            >
+              {isSubmitting ? "Processing..." : "Pay"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default function FakeCheckoutPage() {
+  return (
+    <Suspense fallback={<div className="max-w-md mx-auto p-6">Loading checkout...</div>}>
+      <FakeCheckoutContent />
+    </Suspense>
+  )
+}
@@ -6,17 +6,40 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
+import { Input } from "@/components/ui/input"
 import Link from "next/link"
-import { 
-  Tooltip, 
-  TooltipContent, 
-  TooltipProvider, 
-  TooltipTrigger 
-} from "@/components/ui/tooltip"
 import { supabase, userService, modelService, type AuthUser } from "@/lib/supabase"
+import type { Plan } from "@/lib/supabase/types"
+import { CREDIT_PACKAGES } from "@/lib/payments/packages"
+import { FREE_MODELS_PER_MONTH, getFreeModelsLeft, getNextFreeTierReset } from "@/lib/billing/free-tier"
+
+// Checkout status polls after returning from the provider (the webhook may lag the redirect)
+const CHECKOUT_POLL_INTERVAL_MS = 2000
+const CHECKOUT_POLL_ATTEMPTS = 15
+
+type CheckoutNotice = { type: "success" | "error" | "info"; message: string }
+
+// Referral link and results, as returned by /api/referrals
+type ReferralInfo = {
+  link: string
+  referrer_credits: number
+  referred_credits: number
+  invited: number
+  awarded: number
+  credits_earned: number
+}
+
+// What a checkout sells: a credit package or a subscription plan
+type CheckoutItem = { package_id: string } | { plan_id: string }
 
 export default function BillingPage() {
-  const [isLoading, setIsLoading] = useState(false)
+  const [checkoutItemId, setCheckoutItemId] = useState<string | null>(null)
+  const [plans, setPlans] = useState<Plan[]>([])
+  const [checkoutNotice, setCheckoutNotice] = useState<CheckoutNotice | null>(null)
+  const [promoCode, setPromoCode] = useState("")
+  const [isRedeeming, setIsRedeeming] = useState(false)
+  const [referral, setReferral] = useState<ReferralInfo | null>(null)
+  const [referralLinkCopied, setReferralLinkCopied] = useState(false)
   const [user, setUser] = useState<AuthUser | null>(null)
   const [userPhotos, setUserPhotos] = useState<any[]>([])
   const [isLoadingData, setIsLoadingData] = useState(true)
@@ -53,6 +76,50 @@ export default function BillingPage() {
     loadUserData()
   }, [])
 
+  // Load the subscription plans (public)
+  useEffect(() => {
+    const loadPlans = async () => {
+      try {
+        const response = await fetch('/api/plans')
+        const data = await response.json()
+        if (response.ok) {
+          setPlans(data.plans)
+        } else {
+          console.error('Failed to fetch plans:', data.error)
+        }
+      } catch (error) {
+        console.error('Network error fetching plans:', error)
+      }
+    }
+
+    loadPlans()
+  }, [])
+
+  // Load the user's referral link
+  useEffect(() => {
+    if (!session) return
+
+    const loadReferral = async () => {
+      try {
+        const response = await fetch('/api/referrals', {
+          headers: {
+            'Authorization': `Bearer ${session.access_token}`
+          }
+        })
+        const data = await response.json()
+        if (response.ok) {
+          setReferral(data)
+        } else {
+          console.error('Failed to fetch referral link:', data.error)
+        }
+      } catch (error) {
+        console.error('Network error fetching referral link:', error)
+      }
+    }
+
+    loadReferral()
+  }, [session])
+
   // State for transactions and pagination
   const [transactions, setTransactions] = useState<any[]>([])
   const [currentPage, setCurrentPage] = useState(1)
@@ -89,15 +156,161 @@ export default function BillingPage() {
     }
   }, [user, currentPage])
 
-  const handlePurchase = async (amount: number) => {
-    setIsLoading(true)
-    // Simulate API call
-    await new Promise((resolve) => setTimeout(resolve, 2000))
-    alert(`Purchase of $${amount} completed! (This is a demo)`)
-    setIsLoading(false)
+  // Handle the return from checkout (?checkout=success|canceled&session_id=...)
+  useEffect(() => {
+    if (!session) return
+
+    const params = new URLSearchParams(window.location.search)
+    const checkout = params.get("checkout")
+    const sessionId = params.get("session_id")
+    if (!checkout || !sessionId) return
+
+    // Drop the query so a reload does not poll again
+    window.history.replaceState(null, "", window.location.pathname)
+
+    if (checkout !== "success") {
+      setCheckoutNotice({ type: "info", message: "Checkout canceled. You have not been charged." })
+      return
+    }
+
+    let stopped = false
+    const waitForPayment = async () => {
+      setCheckoutNotice({ type: "info", message: "Confirming your payment..." })
+
+      for (let attempt = 0; attempt < CHECKOUT_POLL_ATTEMPTS && !stopped; attempt++) {
+        try {
+          const response = await fetch(`/api/payments/checkout?session_id=${encodeURIComponent(sessionId)}`, {
+            headers: {
+              'Authorization': `Bearer ${session.access_token}`
+            }
+          })
+          const data = await response.json()
+
+          if (response.ok && data.status === "completed") {
+            const userData = await userService.getUserById(session.user.id)
+            if (stopped) return
+            setUser(userData)
+            setCurrentPage(1)
+            fetchTransactions(1)
+            setCheckoutNotice({
+              type: "success",
+              message: data.kind === "plan"
+                ? `Your plan is active. ${data.credits} credits were added for the first month.`
+                : `${data.credits} credits were added to your account.`,
+            })
+            return
+          }
+          if (response.ok && (data.status === "expired" || data.status === "failed")) {
+            setCheckoutNotice({ type: "error", message: "The payment did not go through. You have not been charged." })
+            return
+          }
+        } catch (error) {
+          console.error('Failed to check payment status:', error)
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, CHECKOUT_POLL_INTERVAL_MS))
+      }
+
+      if (!stopped) {
+        setCheckoutNotice({
+          type: "info",
+          message: "Your payment is still being confirmed. Credits will appear here shortly.",
+        })
+      }
+    }
+
+    waitForPayment()
+    return () => {
+      stopped = true
+    }
+  }, [session])
+
+  /**
+   * Opens the provider checkout for a credit package or a plan
+   * @param itemId - Key of the clicked button, shown as "Redirecting..."
+   */
+  const startCheckout = async (item: CheckoutItem, itemId: string) => {
+    setCheckoutItemId(itemId)
+    setCheckoutNotice(null)
+    try {
+      const response = await fetch('/api/payments/checkout', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session?.access_token}`
+        },
+        body: JSON.stringify(item)
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to start checkout')
+      }
+
+      // Leave for the provider's checkout page; it redirects back here when done
+      window.location.href = data.url
+    } catch (error) {
+      console.error('Failed to start checkout:', error)
+      setCheckoutNotice({
+        type: "error",
+        message: error instanceof Error ? error.message : "Failed to start checkout",
+      })
+      setCheckoutItemId(null)
+    }
+  }
+
+  const handlePurchase = (packageId: string) => startCheckout({ package_id: packageId }, packageId)
+
+  const handleChangePlan = (planId: string) => startCheckout({ plan_id: planId }, `plan:${planId}`)
+
+  const handleRedeemPromoCode = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setIsRedeeming(true)
+    setCheckoutNotice(null)
+    try {
+      const response = await fetch('/api/promo-codes/redeem', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session?.access_token}`
+        },
+        body: JSON.stringify({ code: promoCode })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to redeem promo code')
+      }
+
+      const userData = await userService.getUserById(session.user.id)
+      setUser(userData)
+      setCurrentPage(1)
+      fetchTransactions(1)
+      setPromoCode("")
+      setCheckoutNotice({ type: "success", message: `Promo code redeemed. ${data.credits} credits were added to your account.` })
+    } catch (error) {
+      console.error('Failed to redeem promo code:', error)
+      setCheckoutNotice({
+        type: "error",
+        message: error instanceof Error ? error.message : "Failed to redeem promo code",
+      })
+    } finally {
+      setIsRedeeming(false)
+    }
+  }
+
+  const handleCopyReferralLink = async () => {
+    if (!referral) return
+    try {
+      await navigator.clipboard.writeText(referral.link)
+      setReferralLinkCopied(true)
+      setTimeout(() => setReferralLinkCopied(false), 2000)
+    } catch (error) {
+      console.error('Failed to copy referral link:', error)
+    }
   }
 
   const totalModelsGenerated = userPhotos.length
+  const freeModelsLeft = user ? getFreeModelsLeft(user) : 0
+  const currentPlan = plans.find(plan => plan.id === user?.plan_id) ?? null
 
   if (isLoadingData) {
     return (
@@ -134,6 +347,20 @@ export default function BillingPage() {
       </header>
 
       <div className="max-w-4xl mx-auto p-6 space-y-8">
+        {checkoutNotice && (
+          <div
+            className={`p-3 rounded-lg text-sm ${
+              checkoutNotice.type === "success"
+                ? "bg-green-50 text-green-700"
+                : checkoutNotice.type === "error"
+                  ? "bg-red-50 text-red-700"
+                  : "bg-blue-50 text-blue-700"
+            }`}
+          >
+            {checkoutNotice.message}
+          </div>
+        )}
+
         {/* Current Balance */}
         <Card>
           <CardHeader>
@@ -141,11 +368,20 @@ export default function BillingPage() {
             <CardDescription>Your account balance and usage summary</CardDescription>
           </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                 <div className="text-center">
                   <div className="text-3xl font-bold text-gray-900">{user.credits}</div>
                   <p className="text-sm text-gray-600">Available Credits</p>
                 </div>
+            <div className="text-center">
+              <div className="text-3xl font-bold text-gray-900">{freeModelsLeft}</div>
+              <p className="text-sm text-gray-600">
+                {freeModelsLeft} of {FREE_MODELS_PER_MONTH} free models left
+              </p>
+              <p className="text-xs text-gray-500">
+                Resets {getNextFreeTierReset().toLocaleDateString(undefined, { timeZone: "UTC" })}
+              </p>
+            </div>
             <div className="text-center">
               <div className="text-3xl font-bold text-gray-900">{totalModelsGenerated}</div>
               <p className="text-sm text-gray-600">Total Models Generated</p>
@@ -154,49 +390,93 @@ export default function BillingPage() {
         </CardContent>
         </Card>
 
+        {/* Subscription Plan */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Subscription Plan</CardTitle>
+            <CardDescription>
+              {currentPlan
+                ? user.plan_canceled_at
+                  ? `${currentPlan.name} plan, ends ${new Date(user.plan_renews_at!).toLocaleDateString()}`
+                  : `${currentPlan.name} plan, renews ${new Date(user.plan_renews_at!).toLocaleDateString()}`
+                : "No plan. Subscribe to get credits every month."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {plans.map((plan) => {
+                const isCurrent = plan.id === currentPlan?.id
+                const action = !currentPlan
+                  ? "Subscribe"
+                  : plan.monthly_price_cents > currentPlan.monthly_price_cents
+                    ? "Upgrade"
+                    : "Downgrade"
+
+                return (
+                  <div
+                    key={plan.id}
+                    className={`border rounded-lg p-4 text-center ${
+                      isCurrent ? "border-blue-500 bg-blue-50" : "border-gray-200"
+                    }`}
+                  >
+                    <div className="font-medium">{plan.name}</div>
+                    <div className="text-2xl font-bold">
+                      ${(plan.monthly_price_cents / 100).toFixed(0)}
+                      <span className="text-sm font-normal text-gray-600">/month</span>
+                    </div>
+                    <div className="text-sm text-gray-600">{plan.monthly_credits} credits every month</div>
+                    <div className="text-xs text-gray-500 mb-4">
+                      {plan.credits_expire ? "Unused credits expire at renewal" : "Unused credits roll over"}
+                    </div>
+                    <Button
+                      disabled={isCurrent || checkoutItemId !== null}
+                      onClick={() => handleChangePlan(plan.id)}
+                      className="w-full"
+                      variant={isCurrent ? "outline" : "default"}
+                    >
+                      {isCurrent ? "Current plan" : checkoutItemId === `plan:${plan.id}` ? "Redirecting..." : action}
+                    </Button>
+                  </div>
+                )
+              })}
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Purchase Credits */}
         <Card>
           <CardHeader>
             <CardTitle>Purchase Credits</CardTitle>
-            <CardDescription>Each credit generates one 3D model. Minimum purchase is $10.</CardDescription>
+            <CardDescription>
+              Free models are used first each month. After that, Standard and Draft models cost 1 credit,
+              High Detail costs 2. Minimum purchase is $10.
+            </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-              {[
-                { amount: 10, credits: 10, popular: false },
-                { amount: 20, credits: 22, popular: true },
-                { amount: 30, credits: 35, popular: false },
-                { amount: 40, credits: 50, popular: false },
-              ].map((option) => (
-                <TooltipProvider key={option.amount}>
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <div
-                        className={`relative border rounded-lg p-4 text-center ${
-                          option.popular ? "border-blue-500 bg-blue-50" : "border-gray-200"
-                        }`}
-                      >
-                        {option.popular && (
-                          <Badge className="absolute -top-2 left-1/2 transform -translate-x-1/2 bg-blue-500">
-                            Most Popular
-                          </Badge>
-                        )}
-                        <div className="text-2xl font-bold">${option.amount}</div>
-                        <div className="text-sm text-gray-600 mb-4">{option.credits} credits</div>
-                        <Button
-                          disabled={true}
-                          className="w-full"
-                          variant={option.popular ? "default" : "outline"}
-                        >
-                          Purchase
-                        </Button>
-                      </div>
-                    </TooltipTrigger>
-                    <TooltipContent>
-                      <p>Coming soon</p>
-                    </TooltipContent>
-                  </Tooltip>
-                </TooltipProvider>
+              {CREDIT_PACKAGES.map((option) => (
+                <div
+                  key={option.id}
+                  className={`relative border rounded-lg p-4 text-center ${
+                    option.popular ? "border-blue-500 bg-blue-50" : "border-gray-200"
+                  }`}
+                >
+                  {option.popular && (
+                    <Badge className="absolute -top-2 left-1/2 transform -translate-x-1/2 bg-blue-500">
+                      Most Popular
+                    </Badge>
+                  )}
+                  <div className="text-2xl font-bold">${option.price}</div>
+                  <div className="text-sm text-gray-600 mb-4">{option.credits} credits</div>
+                  <Button
+                    disabled={checkoutItemId !== null}
+                    onClick={() => handlePurchase(option.id)}
+                    className="w-full"
+                    variant={option.popular ? "default" : "outline"}
+                  >
+                    {checkoutItemId === option.id ? "Redirecting..." : "Purchase"}
+                  </Button>
+                </div>
               ))}
             </div>
             <div className="mt-6 p-4 bg-gray-50 rounded-lg">
@@ -215,6 +495,53 @@ export default function BillingPage() {
           </CardContent>
         </Card>
 
+        {/* Promo Code */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Redeem a Promo Code</CardTitle>
+            <CardDescription>Promo code credits are added to your balance right away</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleRedeemPromoCode} className="flex gap-3">
+              <Input
+                placeholder="Enter code"
+                value={promoCode}
+                onChange={(e) => setPromoCode(e.target.value)}
+                className="max-w-xs uppercase"
+              />
+              <Button type="submit" variant="outline" disabled={isRedeeming || !promoCode.trim()}>
+                {isRedeeming ? "Redeeming..." : "Redeem"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Referrals */}
+        {referral && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Refer a Friend</CardTitle>
+              <CardDescription>
+                When a friend signs up with your link and makes their first model, you get{" "}
+                {referral.referrer_credits} credits and they get {referral.referred_credits}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex gap-3">
+                <Input readOnly value={referral.link} onFocus={(e) => e.target.select()} />
+                <Button variant="outline" onClick={handleCopyReferralLink}>
+                  {referralLinkCopied ? "Copied" : "Copy link"}
+                </Button>
+              </div>
+              <div className="flex space-x-6 text-sm text-gray-600">
+                <span>{referral.invited} waiting for a first model</span>
+                <span>{referral.awarded} rewarded</span>
+                <span>{referral.credits_earned} credits earned</span>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Transaction History */}
         <Card>
           <CardHeader>
@@ -243,7 +570,9 @@ export default function BillingPage() {
                             ? "bg-green-100 text-green-600" 
                             : transaction.type === "award"
                               ? "bg-purple-100 text-purple-600"
-                              : "bg-blue-100 text-blue-600"
+                              : transaction.type === "refund"
+                                ? "bg-amber-100 text-amber-600"
+                                : "bg-blue-100 text-blue-600"
                         }`}
                       >
                         {transaction.type === "purchase" ? (
@@ -255,6 +584,15 @@ export default function BillingPage() {
                               d="M12 6v6m0 0v6m0-6h6m-6 0H6"
                             />
                           </svg>
+                        ) : transaction.type === "refund" ? (
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path
+                              strokeLinecap="round"
+                              strokeLinejoin="round"
+                              strokeWidth={2}
+                              d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6"
+                            />
+                          </svg>
                         ) : transaction.type === "award" ? (
                           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             <path
@@ -281,8 +619,16 @@ export default function BillingPage() {
                             ? `Bought credits - $${transaction.amount?.toFixed(0)}`
                             : transaction.type === "award"
                               ? transaction.description || "Credit Award"
-                              : transaction.description || "Credit Usage"}
+                              : transaction.type === "refund"
+                                ? transaction.description || "Credit Refund"
+                                : transaction.description || "Credit Usage"}
                         </div>
+                        {transaction.model_id && (
+                          <div className="text-sm text-gray-600">
+                            {transaction.type === "refund" ? "Refunded for " : "For "}
+                            {transaction.model?.name || `model ${transaction.model_id.slice(0, 8)}`}
+                          </div>
+                        )}
                         <div className="text-sm text-gray-500">
                           {new Date(transaction.created_at).toLocaleDateString()} {new Date(transaction.created_at).toLocaleTimeString()}
                         </div>
@@ -295,10 +641,12 @@ export default function BillingPage() {
                             ? "text-green-600" 
                             : transaction.type === "award"
                               ? "text-purple-600"
-                              : "text-red-600"
+                              : transaction.type === "refund"
+                                ? "text-amber-600"
+                                : "text-red-600"
                         }`}
                       >
-                        {transaction.type === "purchase" || transaction.type === "award" ? "+" : "-"}
+                        {transaction.type === "purchase" || transaction.type === "award" || transaction.type === "refund" ? "+" : "-"}
                         {Math.abs(transaction.credits)}
                       </div>
                     </div>
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect, Suspense } from "react"
+import { useState, useEffect, useCallback, Suspense } from "react"
 import { useRouter, usePathname, useSearchParams } from 'next/navigation';
 import { useToast } from '@/components/ui/use-toast';
 
@@ -13,6 +13,9 @@ import { ModelGenerator } from "@/components/model-generator"
 import { ModelPreview } from "@/components/model-preview"
 import { MobileHomeContent } from "@/components/mobile-home-content"
 import { Logo } from "@/components/logo"
+import { BatchUpload } from "@/components/batch-upload"
+import { BatchProgress } from "@/components/batch-progress"
+import { Button } from "@/components/ui/button"
 
 // Context imports
 import { NavigationProvider } from "@/contexts/NavigationContext"
@@ -27,9 +30,15 @@ import { supabase } from "@/lib/supabase"
 // Hook imports
 import { useIsMobile } from "@/components/ui/use-mobile"
 import { useModelGeneration } from "@/hooks/useModelGeneration";
+import { useJobEvents } from "@/hooks/useJobEvents";
+
+// Config imports
+import { DEFAULT_QUALITY_PRESET, QUALITY_PRESETS, type QualityPresetId } from "@/lib/generation/presets"
+import { getFreeModelsLeft } from "@/lib/billing/free-tier"
 
 // Type imports
 import type { ModelStatus } from "@/lib/supabase/types"
+import type { JobStreamEvent } from "@/types/jobs"
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -87,6 +96,8 @@ export interface User {
   email: string
   avatar_url?: string | null
   credits?: number
+  free_models_used?: number
+  free_models_period_start?: string
   created_at?: string
 }
 
@@ -97,12 +108,6 @@ export interface User {
 // Admin user ID for displaying sample models to logged-out users
 const ADMIN_USER_ID = "541a43f1-6c11-43a0-8ddb-91563e22c5f7"
 
-// Maximum retry attempts for job status checks
-const MAX_STATUS_CHECK_RETRIES = 5
-
-// Delay between retry attempts (milliseconds)
-const STATUS_CHECK_RETRY_DELAY = 2000
-
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
@@ -123,7 +128,8 @@ function mapModelStatus(dbStatus: string): {
     'removed_background': { status: 'processing', processingStage: 'removed_background' },
     'generating_3d_model': { status: 'processing', processingStage: 'generating_3d_model' },
     'completed': { status: 'completed', processingStage: 'completed' },
-    'failed': { status: 'failed', processingStage: 'failed' }
+    'failed': { status: 'failed', processingStage: 'failed' },
+    'canceled': { status: 'failed', processingStage: 'canceled' }
   }
 
   return statusMap[dbStatus] || { status: 'failed' }
@@ -238,6 +244,10 @@ function HomeContent() {
   // Current photo set being worked on
   const [currentPhotoSet, setCurrentPhotoSet] = useState<PhotoSet>({})
   
+  // Quality preset chosen for the next generation
+  const [qualityPreset, setQualityPreset] = useState<QualityPresetId>(DEFAULT_QUALITY_PRESET)
+  const [saveGaussianPly, setSaveGaussianPly] = useState(false)
+  
   // Generation and loading states
   const [isGenerating, setIsGenerating] = useState(false)
   const [isLoading, setIsLoading] = useState(true)
@@ -246,6 +256,10 @@ function HomeContent() {
   const [models, setModels] = useState<ModelData[]>([]) // User's models
   const [adminModels, setAdminModels] = useState<ModelData[]>([]) // Sample models for logged-out users
 
+  // Batch generation dialog and progress refresh trigger
+  const [showBatchUpload, setShowBatchUpload] = useState(false)
+  const [batchRefreshKey, setBatchRefreshKey] = useState(0)
+
   // ============================================================================
   // SERVICE INSTANCES
   // ============================================================================
@@ -641,8 +655,9 @@ function HomeContent() {
       return;
     }
 
-    if ((user.credits || 0) < 1) {
-      alert("You have no credits remaining. Please add credits to continue.");
+    // A free model of this month covers any preset; credits are only needed once they are used up
+    if (getFreeModelsLeft(user) === 0 && (user.credits || 0) < QUALITY_PRESETS[qualityPreset].credits) {
+      alert("You don't have enough credits for this quality preset. Please add credits to continue.");
       return;
     }
 
@@ -670,12 +685,8 @@ function HomeContent() {
           error: undefined
         } : null)
         
+        // Completion is pushed through the job stream
         console.log("Started retry job with ID:", retryResult.jobId)
-        
-        // Start polling for completion
-        if (retryResult.jobId) {
-          checkJobStatusWithRetry(selectedModel.id, retryResult.jobId)
-        }
       } catch (error) {
         console.error("Retry error:", error)
         toast({
@@ -715,12 +726,22 @@ function HomeContent() {
 
       // Step 1: Upload raw photos
       const urlMap = await uploadRawPhotos(modelId, currentPhotoSet);
+      const uploadedAt = new Date();
 
-      // Step 2: Remove background (using the front URL)
-      const processedUrl = await removeBackground(modelId, urlMap.front);
+      // Step 2: Remove background from every view
+      const processedUrls = await removeBackground(modelId, urlMap, currentPhotoSet);
+      const backgroundRemovedAt = new Date();
 
       // Step 3: Generate 3D model
-      const result = await generate3DModel(modelId, processedUrl, currentPhotoSet, await getAccessToken() || undefined);
+      const result = await generate3DModel(
+        modelId,
+        processedUrls,
+        currentPhotoSet,
+        await getAccessToken() || undefined,
+        qualityPreset,
+        { uploadedAt, backgroundRemovedAt },
+        saveGaussianPly
+      );
       jobId = result.jobId;
       
       // Update UI with job information
@@ -743,10 +764,8 @@ function HomeContent() {
         };
       });
 
-      // Start polling for job completion
-      if (jobId) {
-        checkJobStatusWithRetry(modelId, jobId);
-      } else {
+      // Completion is pushed through the job stream
+      if (!jobId) {
         throw new Error('Job ID is missing after creating job');
       }
       
@@ -800,90 +819,95 @@ function HomeContent() {
     }
   }
 
+  /**
+   * Regenerates a completed model with the chosen preset
+   * The previous result stays available as an older version
+   */
+  const handleRegenerateModel = async (preset: QualityPresetId) => {
+    if (!user) {
+      openAuthModal("Please sign in to generate 3D models.");
+      return;
+    }
+
+    if (!selectedModel) return;
+
+    if (getFreeModelsLeft(user) === 0 && (user.credits || 0) < QUALITY_PRESETS[preset].credits) {
+      alert("You don't have enough credits for this quality preset. Please add credits to continue.");
+      return;
+    }
+
+    setIsGenerating(true);
+    try {
+      const result = await retryModelGeneration(
+        selectedModel.id,
+        user.id,
+        await getAccessToken() || undefined,
+        preset
+      );
+
+      const updateModel = (model: ModelData): ModelData => ({
+        ...model,
+        jobId: result.jobId,
+        status: "processing",
+        processingStage: 'generating_3d_model',
+        error: undefined
+      });
+
+      setModels(prev => prev.map(model => model.id === selectedModel.id ? updateModel(model) : model));
+      setSelectedModel(prev => prev && prev.id === selectedModel.id ? updateModel(prev) : prev);
+    } catch (error) {
+      console.error("Regenerate error:", error);
+      toast({
+        title: "Regeneration failed",
+        description: "Failed to start a new version. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsGenerating(false);
+      refreshUserCredits();
+    }
+  }
+
   // ============================================================================
-  // JOB STATUS POLLING
+  // JOB STATUS UPDATES
   // ============================================================================
 
   /**
-   * Check job status with retry logic
-   * Polls API until job completes or fails
+   * Applies a job update pushed by the job stream to the matching model
    */
-  const checkJobStatusWithRetry = async (
-    photoId: string, 
-    jobId: string, 
-    attempt = 0
-  ) => {
-    try {
-      const response = await fetch(`/api/status?job_id=${encodeURIComponent(jobId)}`);
-      
-      // Handle job not found
-      if (response.status === 404) {
-        await modelService.updateModel(photoId, {
-          model_status: 'failed'
-        });
-        
-        updateModelStatus(jobId, 'failed', 'Job not found')
-        return;
-      }
-      
-      // Handle API errors
-      if (!response.ok) {
-        throw new Error(`API returned ${response.status}`);
-      }
-      
-      const statusData = await response.json();
-      
-      // Handle completed job
-      if (statusData.status === 'completed' && statusData.model_urls?.glb) {
-        await modelService.updateModel(photoId, {
-          model_status: 'completed',
-          model_url: statusData.model_urls.glb
-        });
-        
-        setModels(prev => prev.map(model => 
-          model.jobId === jobId ? {
-            ...model,
-            status: 'completed',
-            modelUrl: statusData.model_urls.glb,
-            processingStage: undefined
-          } : model
-        ));
-        
-        if (selectedModel?.jobId === jobId) {
-          setSelectedModel(prev => prev ? {
-            ...prev,
-            status: 'completed',
-            modelUrl: statusData.model_urls.glb,
-            processingStage: undefined
-          } : prev);
-        }
-      }
-      // Handle failed job
-      else if (statusData.status === 'failed') {
-        await modelService.updateModel(photoId, {
-          model_status: 'failed'
-        });
-        
-        updateModelStatus(jobId, 'failed', 'Model generation failed');
-      }
-      // Job still processing - continue polling
-      else {
-        // Continue checking status
-        setTimeout(() => checkJobStatusWithRetry(photoId, jobId, attempt), 3000)
-      }
-    } catch (error) {
-      console.error('Error checking job status:', error);
+  const handleJobEvent = useCallback((event: JobStreamEvent) => {
+    const isCompleted = event.status === 'completed' || event.status === 'succeeded';
+
+    if (isCompleted && event.model_url) {
+      const modelUrl = event.model_url;
+
+      setModels(prev => prev.map(model => 
+        model.jobId === event.job_id ? {
+          ...model,
+          status: 'completed',
+          modelUrl,
+          processingStage: undefined
+        } : model
+      ));
       
-      // Retry if under max attempts
-      if (attempt < MAX_STATUS_CHECK_RETRIES) {
-        await new Promise(resolve => setTimeout(resolve, STATUS_CHECK_RETRY_DELAY))
-        return checkJobStatusWithRetry(photoId, jobId, attempt + 1)
-      } else {
-        // Max retries reached - mark as failed
-        updateModelStatus(jobId, 'failed', 'Failed to check job status')
-      }
+      setSelectedModel(prev => prev && prev.jobId === event.job_id ? {
+        ...prev,
+        status: 'completed',
+        modelUrl,
+        processingStage: undefined
+      } : prev);
+    }
+    else if (event.status === 'failed' || event.status === 'canceled') {
+      updateModelStatus(event.job_id, 'failed', event.error_message || 'Model generation failed');
     }
-  };
+
+    // Finished jobs move batch progress forward
+    if (isCompleted || event.status === 'failed' || event.status === 'canceled') {
+      setBatchRefreshKey(key => key + 1);
+    }
+  }, []);
+
+  useJobEvents(handleJobEvent, !!user);
 
   /**
    * Helper to update model status in state
@@ -902,40 +926,14 @@ function HomeContent() {
       } : model
     ))
     
-    if (selectedModel?.jobId === jobId) {
-      setSelectedModel(prev => prev ? {
-        ...prev,
-        status,
-        processingStage: 'failed',
-        error
-      } : prev)
-    }
+    setSelectedModel(prev => prev && prev.jobId === jobId ? {
+      ...prev,
+      status,
+      processingStage: 'failed',
+      error
+    } : prev)
   }
 
-  /**
-   * Check status for all processing models
-   * Used on initial load to resume monitoring
-   */
-  const checkAllProcessingPhotos = async () => {
-    try {
-      const statuses = ['photos_uploaded', 'removed_background', 'generating_3d_model'] as const;
-      let processingModels: any[] = [];
-
-      for (const status of statuses) {
-        const models = await modelService.getModelsByStatus(status);
-        processingModels = [...processingModels, ...models];
-      }
-    
-      for (const model of processingModels) {
-        if (model.job_id) {
-          await checkJobStatusWithRetry(model.id, model.job_id);
-        }
-      }
-    } catch (error) {
-      console.error('Error checking processing photos:', error);
-    }
-  };
-
   // ============================================================================
   // LIFECYCLE EFFECTS
   // ============================================================================
@@ -977,15 +975,6 @@ function HomeContent() {
     }
   }, [models]);
 
-  /**
-   * Check for processing jobs when user logs in
-   */
-  useEffect(() => {
-    if (user) {
-      checkAllProcessingPhotos();
-    }
-  }, [user]);
-  
   /**
    * Cleanup temporary models on tab close
    */
@@ -1007,18 +996,6 @@ function HomeContent() {
     };
   }, [selectedModel]);
   
-  /**
-   * Check status when selected model changes
-   */
-  useEffect(() => {
-    if (selectedModel?.jobId && selectedModel.status === 'processing') {
-      const photoId = models.find(m => m.id === selectedModel.id)?.id;
-      if (photoId) {
-        checkJobStatusWithRetry(photoId, selectedModel.jobId);
-      }
-    }
-  }, [selectedModel?.id]);
-  
   /**
    * Refresh user credits (placeholder for AuthContext integration)
    */
@@ -1086,7 +1063,16 @@ function HomeContent() {
             
             {/* Upload Section */}
             <div className="grid row-span-1 bg-white rounded-lg shadow-sm border border-gray-200 p-6 h-fit" data-testid="upload-view">
-              <h2 className="text-xl font-semibold text-gray-900 mb-4">Upload Photos</h2>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-semibold text-gray-900">Upload Photos</h2>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => user ? setShowBatchUpload(true) : openAuthModal("Please sign in to generate in batches")}
+                >
+                  Batch upload
+                </Button>
+              </div>
               <FileUpload 
                 onUpload={(file: File) => handleUpload(file, "front")} 
                 onUploadRequest={handleUploadRequest}
@@ -1112,6 +1098,7 @@ function HomeContent() {
               <h2 className="text-xl font-semibold text-gray-900 mb-4">
                 {user ? "Your 3D Models" : "Sample 3D Models"}
               </h2>
+            {user && <BatchProgress refreshKey={batchRefreshKey} />}
             <ModelGallery 
               key={user ? user.id : 'logged-out'}
               models={user ? models : adminModels} 
@@ -1136,6 +1123,12 @@ function HomeContent() {
                     <ModelPreview
                     modelUrl={selectedModel.modelUrl}
                     photoSet={currentPhotoSet}
+                    modelId={selectedModel.id}
+                    onCurrentVersionChange={(modelUrl) => {
+                      setModels(prev => prev.map(model => model.id === selectedModel.id ? { ...model, modelUrl } : model));
+                      setSelectedModel(prev => prev ? { ...prev, modelUrl } : prev);
+                    }}
+                    onRegenerate={handleRegenerateModel}
                     data-testid="preview-view" />
                   ) : (
                     /* Show generator for draft/processing/failed models */
@@ -1155,6 +1148,10 @@ function HomeContent() {
                       processingStage={selectedModel.processingStage}
                       selectedModel={selectedModel}
                       errorMessage={selectedModel.status === "failed" ? selectedModel.error : undefined}
+                      qualityPreset={qualityPreset}
+                      onQualityPresetChange={setQualityPreset}
+                      saveGaussianPly={saveGaussianPly}
+                      onSaveGaussianPlyChange={setSaveGaussianPly}
                     />
                   )}
                 </div>
@@ -1183,6 +1180,31 @@ function HomeContent() {
           </div>
         </div>
 
+        {/* ===== BATCH UPLOAD ===== */}
+        <BatchUpload
+          open={showBatchUpload}
+          onOpenChange={setShowBatchUpload}
+          onCreated={(result) => {
+            toast({
+              title: "Batch started",
+              description: result.failed.length > 0
+                ? `${result.queued.length} models queued, ${result.failed.length} could not be queued and were refunded.`
+                : `${result.queued.length} models queued for generation.`,
+            })
+            loadUserPhotos()
+            setBatchRefreshKey(key => key + 1)
+          }}
+          onImported={(result) => {
+            toast({
+              title: "Manifest imported",
+              description: result.failures.length > 0
+                ? `${result.queued} of ${result.total} models queued, ${result.failures.length} row(s) need attention.`
+                : `${result.queued} models queued for generation.`,
+            })
+            loadUserPhotos()
+          }}
+        />
+
         {/* ===== AUTH MODAL ===== */}
         <AuthModal 
           isOpen={showAuthModal} 
@@ -10,6 +10,7 @@ import { Label } from "@/components/ui/label"
 import { Separator } from "@/components/ui/separator"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { supabase, type AuthUser, userService } from "@/lib/supabase"
+import { useAuth } from "@/contexts/AuthContext"
 
 interface AuthModalProps {
   isOpen: boolean
@@ -28,6 +29,7 @@ export function AuthModal({ isOpen, onClose, onLogin, reason, initialForgotPassw
   const [name, setName] = useState("")
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const { referralCode } = useAuth()
   
   // Check if reason indicates we should show the forgot password form
   useEffect(() => {
@@ -73,7 +75,9 @@ export function AuthModal({ isOpen, onClose, onLogin, reason, initialForgotPassw
             password,
             options: {
               data: {
-                display_name: name.trim()
+                display_name: name.trim(),
+                // Lets the account claim its referral even if the email is confirmed elsewhere
+                ...(referralCode && { referral_code: referralCode })
               }
             }
           })
@@ -227,6 +231,13 @@ export function AuthModal({ isOpen, onClose, onLogin, reason, initialForgotPassw
             </>
           )}
 
+          {/* Referral note */}
+          {isSignUp && !showForgotPassword && referralCode && (
+            <p className="text-sm text-green-700 bg-green-50 rounded-md p-3">
+              You were invited by a friend. You both get bonus credits after your first model.
+            </p>
+          )}
+
           {/* Email/Password Form */}
           {isSignUp && !showForgotPassword && (
             <div>
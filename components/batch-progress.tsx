@@ -0,0 +1,87 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Progress } from "@/components/ui/progress"
+import { supabase } from "@/lib/supabase"
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+interface BatchSummary {
+  id: string
+  name: string | null
+  total_sets: number
+  completed: number
+  failed: number
+  in_progress: number
+  created_at: string
+}
+
+interface BatchProgressProps {
+  /** Change to refetch, e.g. when a job finishes */
+  refreshKey?: number
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Progress of the user's batches that still have models generating
+ */
+export function BatchProgress({ refreshKey = 0 }: BatchProgressProps) {
+  const [batches, setBatches] = useState<BatchSummary[]>([])
+
+  useEffect(() => {
+    let stopped = false
+
+    const fetchBatches = async () => {
+      try {
+        const { data: { session } } = await supabase.auth.getSession()
+        if (!session) return
+
+        const response = await fetch('/api/batches', {
+          headers: { 'Authorization': `Bearer ${session.access_token}` }
+        })
+        if (!response.ok) return
+
+        const data = await response.json()
+        if (!stopped) {
+          setBatches(data.batches.filter((batch: BatchSummary) => batch.in_progress > 0))
+        }
+      } catch (error) {
+        console.error('Error fetching batches:', error)
+      }
+    }
+
+    fetchBatches()
+    return () => {
+      stopped = true
+    }
+  }, [refreshKey])
+
+  if (batches.length === 0) return null
+
+  return (
+    <div className="space-y-3 mb-4">
+      {batches.map((batch) => {
+        const finished = batch.completed + batch.failed
+        return (
+          <div key={batch.id} className="space-y-1">
+            <div className="flex items-center justify-between text-xs text-gray-600">
+              <span className="font-medium text-gray-900 truncate">
+                {batch.name || `Batch of ${new Date(batch.created_at).toLocaleDateString()}`}
+              </span>
+              <span>
+                {finished}/{batch.total_sets} done
+                {batch.failed > 0 && <span className="text-red-600"> · {batch.failed} failed</span>}
+              </span>
+            </div>
+            <Progress value={(finished / batch.total_sets) * 100} className="h-2" />
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,439 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { cn } from "@/lib/utils"
+import { supabase } from "@/lib/supabase"
+import { uploadOriginalImageToR2 } from "@/lib/backgroundRemoval"
+import {
+  DEFAULT_QUALITY_PRESET,
+  QUALITY_PRESETS,
+  getQualityPreset,
+  type QualityPresetId,
+} from "@/lib/generation/presets"
+import {
+  BATCH_VIEWS,
+  groupByFilename,
+  groupByManifest,
+  parseBatchManifest,
+  type BatchGrouping,
+  type BatchManifestEntry,
+  type BatchPhotoSet,
+} from "@/lib/batch/photo-sets"
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+interface BatchUploadProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Called once the batch has been queued */
+  onCreated?: (result: { batch_id: string; queued: unknown[]; failed: { name: string; error: string }[] }) => void
+  /** Called once a manifest of image URLs has been imported */
+  onImported?: (result: ImportReport) => void
+}
+
+interface ImportReport {
+  total: number
+  created: number
+  queued: number
+  failures: { row: number; name: string; status: string; error: string }[]
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Photos uploaded at the same time
+const UPLOAD_CONCURRENCY = 3
+
+// Manifest rows sent per import request (the server's per-request limit)
+const IMPORT_CHUNK_ROWS = 20
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Dialog for generating many models at once
+ * Photos are grouped into sets by filename ("sku-123_front.jpg") or by an optional
+ * CSV/JSON manifest, uploaded, then submitted as one batch charged up front.
+ * A manifest of image URLs without photos is imported by the server instead.
+ */
+export function BatchUpload({ open, onOpenChange, onCreated, onImported }: BatchUploadProps) {
+  const [files, setFiles] = useState<File[]>([])
+  const [manifestText, setManifestText] = useState<string | null>(null)
+  const [batchName, setBatchName] = useState("")
+  const [qualityPreset, setQualityPreset] = useState<QualityPresetId>(DEFAULT_QUALITY_PRESET)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [progressText, setProgressText] = useState<string | null>(null)
+  const [submitError, setSubmitError] = useState<string | null>(null)
+  const [importFailures, setImportFailures] = useState<ImportReport["failures"]>([])
+
+  // Group photos whenever the selection or manifest changes
+  const grouping: BatchGrouping<File> = useMemo(() => {
+    if (files.length === 0) return { sets: [], errors: [] }
+    if (manifestText === null) return groupByFilename(files)
+
+    try {
+      return groupByManifest(files, parseBatchManifest(manifestText))
+    } catch (error) {
+      return { sets: [], errors: [error instanceof Error ? error.message : "Invalid manifest"] }
+    }
+  }, [files, manifestText])
+
+  // A manifest whose front images are all URLs is imported without uploading photos
+  const urlManifest: BatchManifestEntry[] | null = useMemo(() => {
+    if (files.length > 0 || manifestText === null) return null
+    try {
+      const rows = parseBatchManifest(manifestText)
+      return rows.length > 0 && rows.every((row) => /^https?:\/\//i.test(row.front ?? "")) ? rows : null
+    } catch {
+      return null
+    }
+  }, [files, manifestText])
+
+  const modelCount = urlManifest ? urlManifest.length : grouping.sets.length
+  const totalCredits = urlManifest
+    ? urlManifest.reduce((sum, row) => sum + getQualityPreset(row.preset ?? qualityPreset).credits, 0)
+    : grouping.sets.length * QUALITY_PRESETS[qualityPreset].credits
+
+  // ============================================================================
+  // EVENT HANDLERS
+  // ============================================================================
+
+  const handleManifestChange = async (file: File | undefined) => {
+    setManifestText(file ? await file.text() : null)
+  }
+
+  const reset = () => {
+    setFiles([])
+    setManifestText(null)
+    setBatchName("")
+    setProgressText(null)
+    setSubmitError(null)
+    setImportFailures([])
+  }
+
+  /**
+   * Uploads every photo, then submits the sets as one batch
+   */
+  const handleSubmit = async () => {
+    if (urlManifest) return handleImport()
+    if (grouping.sets.length === 0) return
+
+    setIsSubmitting(true)
+    setSubmitError(null)
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) throw new Error("Please sign in to start a batch")
+
+      const uploadedSets = await uploadPhotoSets(grouping.sets, (done, total) => {
+        setProgressText(`Uploading photos ${done}/${total}...`)
+      })
+
+      setProgressText("Queuing models...")
+      const response = await fetch('/api/batches', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`
+        },
+        body: JSON.stringify({
+          name: batchName || undefined,
+          preset: qualityPreset,
+          sets: uploadedSets
+        })
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.detail || data.error || 'Failed to start batch')
+      }
+
+      onCreated?.(data)
+      reset()
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Batch upload failed:', error)
+      setSubmitError(error instanceof Error ? error.message : 'Failed to start batch')
+    } finally {
+      setIsSubmitting(false)
+      setProgressText(null)
+    }
+  }
+
+  /**
+   * Sends a URL manifest to the server, which fetches the images and queues each row
+   * Large manifests go in several requests; rows that failed stay listed in the dialog
+   */
+  const handleImport = async () => {
+    setIsSubmitting(true)
+    setSubmitError(null)
+    setImportFailures([])
+    const report: ImportReport = { total: 0, created: 0, queued: 0, failures: [] }
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) throw new Error("Please sign in to import models")
+
+      const rows = urlManifest!
+
+      for (let start = 0; start < rows.length; start += IMPORT_CHUNK_ROWS) {
+        const chunk = rows.slice(start, start + IMPORT_CHUNK_ROWS)
+        setProgressText(`Importing models ${start + 1}-${start + chunk.length} of ${rows.length}...`)
+
+        const response = await fetch('/api/models/import', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${session.access_token}`
+          },
+          body: JSON.stringify({
+            rows: chunk,
+            generate: true,
+            preset: qualityPreset
+          })
+        })
+
+        const data: ImportReport & { detail?: string; error?: string } = await response.json()
+        if (!response.ok) {
+          throw new Error(data.detail || data.error || 'Failed to import manifest')
+        }
+
+        // Row numbers are per request; report them against the whole manifest
+        report.total += data.total
+        report.created += data.created
+        report.queued += data.queued
+        report.failures.push(...data.failures.map(failure => ({ ...failure, row: failure.row + start })))
+      }
+
+      onImported?.(report)
+      if (report.failures.length > 0) {
+        setImportFailures(report.failures)
+      } else {
+        reset()
+        onOpenChange(false)
+      }
+    } catch (error) {
+      console.error('Manifest import failed:', error)
+      setSubmitError(error instanceof Error ? error.message : 'Failed to import manifest')
+
+      // Earlier requests already imported their rows
+      if (report.total > 0) {
+        onImported?.(report)
+        setImportFailures(report.failures)
+      }
+    } finally {
+      setIsSubmitting(false)
+      setProgressText(null)
+    }
+  }
+
+  // ============================================================================
+  // RENDER
+  // ============================================================================
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isSubmitting && onOpenChange(next)}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Batch Generation</DialogTitle>
+          <DialogDescription>
+            Name photos like <code>sku-123_front.jpg</code>, <code>sku-123_left.jpg</code>, or add a
+            CSV/JSON manifest with <code>name, front, back, left, right</code> columns. A manifest of
+            image URLs (with optional <code>preset</code> and <code>tags</code>) can be imported without photos.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* File inputs */}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="batch-photos">Photos</Label>
+              <Input
+                id="batch-photos"
+                type="file"
+                accept="image/*"
+                multiple
+                disabled={isSubmitting}
+                onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="batch-manifest">Manifest (optional)</Label>
+              <Input
+                id="batch-manifest"
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                disabled={isSubmitting}
+                onChange={(e) => handleManifestChange(e.target.files?.[0])}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="batch-name">Batch name (optional)</Label>
+            <Input
+              id="batch-name"
+              value={batchName}
+              placeholder="Spring catalog"
+              disabled={isSubmitting}
+              onChange={(e) => setBatchName(e.target.value)}
+            />
+          </div>
+
+          {/* Quality preset */}
+          <div className="grid grid-cols-3 gap-2">
+            {Object.values(QUALITY_PRESETS).map((preset) => (
+              <button
+                key={preset.id}
+                type="button"
+                disabled={isSubmitting}
+                onClick={() => setQualityPreset(preset.id)}
+                className={cn(
+                  "rounded-md border p-2 text-left text-sm transition-colors",
+                  qualityPreset === preset.id
+                    ? "border-blue-500 bg-blue-50"
+                    : "border-gray-200 hover:border-gray-300"
+                )}
+              >
+                <div className="font-medium text-gray-900">{preset.label}</div>
+                <div className="text-xs text-gray-500">
+                  {preset.credits} credit{preset.credits === 1 ? "" : "s"} per model
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {/* Grouping preview */}
+          {grouping.sets.length > 0 && (
+            <div className="max-h-48 overflow-y-auto rounded-md border border-gray-200 divide-y">
+              {grouping.sets.map((set) => (
+                <div key={set.name} className="flex items-center justify-between px-3 py-2">
+                  <span className="text-sm font-medium text-gray-900 truncate">{set.name}</span>
+                  <div className="flex space-x-1">
+                    {BATCH_VIEWS.map((view) => (
+                      <Badge
+                        key={view}
+                        variant={set.views[view] ? "default" : "outline"}
+                        className={cn(!set.views[view] && "text-gray-400")}
+                      >
+                        {view}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* URL manifest preview */}
+          {urlManifest && (
+            <div className="max-h-48 overflow-y-auto rounded-md border border-gray-200 divide-y">
+              {urlManifest.map((row, index) => (
+                <div key={`${row.name}-${index}`} className="flex items-center justify-between px-3 py-2">
+                  <div className="min-w-0">
+                    <span className="text-sm font-medium text-gray-900 truncate">{row.name}</span>
+                    {row.tags && (
+                      <span className="ml-2 text-xs text-gray-500">{row.tags.join(", ")}</span>
+                    )}
+                  </div>
+                  <div className="flex space-x-1">
+                    {row.preset && <Badge variant="secondary">{row.preset}</Badge>}
+                    {BATCH_VIEWS.map((view) => (
+                      <Badge
+                        key={view}
+                        variant={row[view] ? "default" : "outline"}
+                        className={cn(!row[view] && "text-gray-400")}
+                      >
+                        {view}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {importFailures.length > 0 && (
+            <ul className="max-h-32 overflow-y-auto text-xs text-red-700 space-y-1">
+              {importFailures.map((failure) => (
+                <li key={failure.row}>
+                  Row {failure.row} ({failure.name}): {failure.error}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {!urlManifest && grouping.errors.length > 0 && (
+            <ul className="max-h-24 overflow-y-auto text-xs text-amber-700 space-y-1">
+              {grouping.errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+
+          {submitError && <p className="text-sm text-red-600">{submitError}</p>}
+        </div>
+
+        <DialogFooter className="items-center">
+          <span className="mr-auto text-sm text-gray-600">
+            {progressText ?? `${modelCount} model(s) · ${totalCredits} credit(s)`}
+          </span>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || modelCount === 0}>
+            {isSubmitting ? "Starting..." : "Generate All"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Uploads the photos of every set to R2, a few at a time
+ * @returns The same sets with photo URLs in place of files
+ */
+async function uploadPhotoSets(
+  sets: BatchPhotoSet<File>[],
+  onProgress: (done: number, total: number) => void
+): Promise<BatchPhotoSet<string>[]> {
+  const tasks = sets.flatMap((set) =>
+    BATCH_VIEWS.filter((view) => set.views[view]).map((view) => ({ set, view, file: set.views[view]! }))
+  )
+  const uploaded: BatchPhotoSet<string>[] = sets.map((set) => ({ name: set.name, views: {} }))
+
+  let done = 0
+  let next = 0
+  onProgress(0, tasks.length)
+
+  const worker = async () => {
+    while (next < tasks.length) {
+      const task = tasks[next++]
+      const { url } = await uploadOriginalImageToR2(task.file)
+      uploaded[sets.indexOf(task.set)].views[task.view] = url
+      onProgress(++done, tasks.length)
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(UPLOAD_CONCURRENCY, tasks.length) }, worker))
+  return uploaded
+}
@@ -0,0 +1,160 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { cn } from "@/lib/utils"
+import { supabase } from "@/lib/supabase"
+import type { JobEventStage } from "@/lib/supabase/types"
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+interface TimelineEvent {
+  id: string
+  stage: JobEventStage
+  attempt: number
+  progress?: number | null
+  detail?: string | null
+  occurred_at: string
+  duration_ms: number | null
+}
+
+interface JobTimelineProps {
+  jobId: string
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const STAGE_LABELS: Record<JobEventStage, string> = {
+  uploaded: "Photos uploaded",
+  background_removed: "Background removed",
+  queued: "Queued",
+  submitted: "Queued at provider",
+  started: "Generation started",
+  succeeded: "Generation finished",
+  stored: "Model saved",
+  retry_scheduled: "Retry scheduled",
+  failed: "Failed",
+  canceled: "Canceled",
+}
+
+const TERMINAL_STAGES: JobEventStage[] = ["stored", "failed", "canceled"]
+
+// Running jobs gain events as they progress, so their timeline is refreshed
+const TIMELINE_POLL_INTERVAL = 10000
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Stages a generation job went through, with the time spent in each
+ * The latest stage of a running job shows its elapsed time so far
+ */
+export function JobTimeline({ jobId }: JobTimelineProps) {
+  const [events, setEvents] = useState<TimelineEvent[]>([])
+  const [now, setNow] = useState(() => Date.now())
+
+  const isFinished = events.some((event) => TERMINAL_STAGES.includes(event.stage))
+
+  useEffect(() => {
+    let stopped = false
+
+    const fetchTimeline = async () => {
+      try {
+        const { data: { session } } = await supabase.auth.getSession()
+        if (!session) return
+
+        const response = await fetch(`/api/jobs/events?job_id=${encodeURIComponent(jobId)}`, {
+          headers: { 'Authorization': `Bearer ${session.access_token}` }
+        })
+        if (!response.ok) return
+
+        const data = await response.json()
+        if (!stopped) {
+          setEvents(data.events ?? [])
+          setNow(Date.now())
+        }
+      } catch (error) {
+        console.error('Error fetching job timeline:', error)
+      }
+    }
+
+    fetchTimeline()
+    if (isFinished) {
+      return () => {
+        stopped = true
+      }
+    }
+
+    const interval = setInterval(fetchTimeline, TIMELINE_POLL_INTERVAL)
+    return () => {
+      stopped = true
+      clearInterval(interval)
+    }
+  }, [jobId, isFinished])
+
+  if (events.length === 0) return null
+
+  const totalMs = (isFinished
+    ? new Date(events[events.length - 1].occurred_at).getTime()
+    : now) - new Date(events[0].occurred_at).getTime()
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-medium text-gray-700">Timeline</span>
+        <span className="text-xs text-gray-500">{formatDuration(totalMs)} total</span>
+      </div>
+      <ol className="relative border-l border-gray-200 ml-1 space-y-2">
+        {events.map((event, index) => {
+          const isLatest = index === events.length - 1
+          const isError = event.stage === "failed" || event.stage === "retry_scheduled"
+          const durationMs = event.duration_ms
+            ?? (isLatest && !isFinished ? now - new Date(event.occurred_at).getTime() : null)
+
+          return (
+            <li key={event.id} className="ml-3">
+              <span
+                className={cn(
+                  "absolute -left-1 mt-1.5 h-2 w-2 rounded-full",
+                  isError ? "bg-red-500" : isLatest && !isFinished ? "bg-blue-500 animate-pulse" : "bg-green-500"
+                )}
+              />
+              <div className="flex items-center justify-between text-xs">
+                <span className={cn("font-medium", isError ? "text-red-600" : "text-gray-900")}>
+                  {STAGE_LABELS[event.stage] ?? event.stage}
+                  {event.attempt > 1 && <span className="text-gray-500"> (attempt {event.attempt})</span>}
+                </span>
+                <span className="text-gray-500">
+                  {new Date(event.occurred_at).toLocaleTimeString()}
+                  {durationMs !== null && ` · ${formatDuration(durationMs)}`}
+                </span>
+              </div>
+              {event.detail && isError && (
+                <p className="text-xs text-red-500 truncate">{event.detail}</p>
+              )}
+            </li>
+          )
+        })}
+      </ol>
+    </div>
+  )
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Formats a duration as "850ms", "42s" or "3m 05s"
+ */
+function formatDuration(ms: number) {
+  if (ms < 1000) return `${Math.max(0, Math.round(ms))}ms`
+  const seconds = Math.round(ms / 1000)
+  if (seconds < 60) return `${seconds}s`
+  const minutes = Math.floor(seconds / 60)
+  return `${minutes}m ${String(seconds % 60).padStart(2, "0")}s`
+}
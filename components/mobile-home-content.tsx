@@ -18,13 +18,16 @@ import { useNavigation } from "@/contexts/NavigationContext"
 import { useIsMobile } from "@/components/ui/use-mobile"
 import { useAuth } from "@/contexts/AuthContext"
 import { useModelGeneration } from "@/hooks/useModelGeneration"
+import { useJobEvents } from "@/hooks/useJobEvents"
 
 // Service imports
 import { StorageService } from "@/lib/storage.service"
 import { ModelService } from "@/lib/supabase/model.service"
 import { supabase } from "@/lib/supabase"
 import type { ModelStatus } from "@/lib/supabase/types"
+import { DEFAULT_QUALITY_PRESET, type QualityPresetId } from "@/lib/generation/presets"
 import type { UploadItem, PhotoSet, ModelData } from "@/app/page"
+import type { JobStreamEvent } from "@/types/jobs"
 
 // ============================================================================
 // Constants
@@ -37,7 +40,8 @@ const STATUS_MAP: Record<string, {status: string, processingStage?: ModelStatus}
   'removed_background': { status: 'processing', processingStage: 'removed_background' },
   'generating_3d_model': { status: 'processing', processingStage: 'generating_3d_model' },
   'completed': { status: 'completed', processingStage: 'completed' },
-  'failed': { status: 'failed', processingStage: 'failed' }
+  'failed': { status: 'failed', processingStage: 'failed' },
+  'canceled': { status: 'failed', processingStage: 'canceled' }
 }
 
 // ============================================================================
@@ -155,7 +159,6 @@ export function MobileHomeContent() {
     removeBackground,
     generate3DModel,
     retryModelGeneration, 
-    pollJobStatus, 
     createModelDraft,
     isGenerating: isGeneratingHook,
     isInitialized,
@@ -171,6 +174,8 @@ export function MobileHomeContent() {
   const [currentPhotoSet, setCurrentPhotoSet] = useState<PhotoSet>({})
   const [models, setModels] = useState<ModelData[]>([])
   const [adminModels, setAdminModels] = useState<ModelData[]>([])
+  const [qualityPreset, setQualityPreset] = useState<QualityPresetId>(DEFAULT_QUALITY_PRESET)
+  const [saveGaussianPly, setSaveGaussianPly] = useState(false)
 
   // UI state
   const [isGenerating, setIsGenerating] = useState(false)
@@ -393,12 +398,8 @@ export function MobileHomeContent() {
           error: undefined
         } : null)
         
+        // Completion is pushed through the job stream
         console.log("Started retry job with ID:", retryResult.jobId)
-        
-        // Poll for completion
-        if (retryResult.jobId) {
-          await pollForJobCompletion(retryResult.jobId)
-        }
       } else {
         // ========================================
         // New Generation Logic
@@ -407,16 +408,21 @@ export function MobileHomeContent() {
         
         // Step 1: Upload raw photos
         const urlMap = await uploadRawPhotos(modelId, currentPhotoSet)
+        const uploadedAt = new Date()
         
         // Step 2: Remove background
-        const processedUrl = await removeBackground(modelId, urlMap.front)
+        const processedUrls = await removeBackground(modelId, urlMap, currentPhotoSet)
+        const backgroundRemovedAt = new Date()
         
         // Step 3: Generate 3D model
         const result = await generate3DModel(
           modelId, 
-          processedUrl, 
+          processedUrls, 
           currentPhotoSet, 
-          await getAccessToken() || undefined
+          await getAccessToken() || undefined,
+          qualityPreset,
+          { uploadedAt, backgroundRemovedAt },
+          saveGaussianPly
         )
         
         // Navigate to generator view
@@ -438,12 +444,8 @@ export function MobileHomeContent() {
           error: undefined
         } : null)
         
+        // Completion is pushed through the job stream
         console.log("Started job with ID:", result.jobId)
-        
-        // Poll for completion
-        if (result.jobId) {
-          await pollForJobCompletion(result.jobId)
-        }
       }
       
     } catch (error) {
@@ -455,54 +457,67 @@ export function MobileHomeContent() {
   }
 
   /**
-   * Polls for job completion and updates model state
+   * Regenerates a completed model with the chosen preset as a new version
    */
-  const pollForJobCompletion = async (jobId: string) => {
-    setTimeout(async () => {
-      try {
-        const jobResult = await pollJobStatus(jobId)
-        
-        if (jobResult.status === 'completed' && jobResult.modelUrl) {
-          // Success - update to completed state
-          setSelectedModel(prev => prev ? {
-            ...prev,
-            status: "completed",
-            modelUrl: jobResult.modelUrl,
-            processingStage: 'completed'
-          } : null)
-          
-          // Refresh models list
-          loadUserPhotos()
-        } else if (jobResult.status === 'failed') {
-          // Failure - update to failed state
-          setSelectedModel(prev => prev ? {
-            ...prev,
-            status: "failed",
-            processingStage: 'failed',
-            error: jobResult.errorMessage || 'Model generation failed'
-          } : null)
-        }
-      } catch (pollError) {
-        console.error("Job polling failed:", pollError)
-        
-        // Update to failed state
-        setSelectedModel(prev => prev ? {
-          ...prev,
-          status: "failed",
-          processingStage: 'failed',
-          error: 'Model generation failed'
-        } : null)
-        
-        // Show error notification
-        toast({
-          title: "Generation Failed",
-          description: "There was an issue generating your 3D model. Please try again.",
-          variant: "destructive",
-        })
-      }
-    }, 1000)
+  const handleRegenerate = async (preset: QualityPresetId) => {
+    if (!selectedModel || !user) return
+    
+    try {
+      setIsGenerating(true)
+      
+      const result = await retryModelGeneration(
+        selectedModel.id,
+        user.id,
+        await getAccessToken() || undefined,
+        preset
+      )
+      
+      // Show progress in the generator view
+      navigateToGenerator(selectedModel.id)
+      setSelectedModel(prev => prev ? {
+        ...prev,
+        jobId: result.jobId,
+        status: "processing",
+        processingStage: 'generating_3d_model',
+        error: undefined
+      } : null)
+    } catch (error) {
+      console.error("Regenerate error:", error)
+      alert(error instanceof Error ? error.message : "Failed to regenerate model")
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  /**
+   * Applies job updates pushed by the job stream to the selected model
+   */
+  const handleJobEvent = (event: JobStreamEvent) => {
+    const isCompleted = event.status === 'completed' || event.status === 'succeeded'
+
+    if (isCompleted && event.model_url) {
+      const modelUrl = event.model_url
+      setSelectedModel(prev => prev && prev.jobId === event.job_id ? {
+        ...prev,
+        status: "completed",
+        modelUrl,
+        processingStage: 'completed'
+      } : prev)
+      
+      // Refresh models list
+      loadUserPhotos()
+    } else if (event.status === 'failed' || event.status === 'canceled') {
+      setSelectedModel(prev => prev && prev.jobId === event.job_id ? {
+        ...prev,
+        status: "failed",
+        processingStage: 'failed',
+        error: event.error_message || 'Model generation failed'
+      } : prev)
+    }
   }
 
+  useJobEvents(handleJobEvent, !!user)
+
   /**
    * Handles user logout
    */
@@ -646,6 +661,10 @@ export function MobileHomeContent() {
               selectedModel={selectedModel}
               onNavigateBack={navigateToGallery}
               isFullView={true}
+              qualityPreset={qualityPreset}
+              onQualityPresetChange={setQualityPreset}
+              saveGaussianPly={saveGaussianPly}
+              onSaveGaussianPlyChange={setSaveGaussianPly}
             />
           </div>
         )}
@@ -660,6 +679,9 @@ export function MobileHomeContent() {
               photoSet={currentPhotoSet}
               onNavigateBack={navigateToGallery}
               isFullView={true}
+              modelId={selectedModel.id}
+              onCurrentVersionChange={(modelUrl) => setSelectedModel(prev => prev ? { ...prev, modelUrl } : null)}
+              onRegenerate={handleRegenerate}
             />
           </div>
         )}
@@ -6,6 +6,8 @@ import { Button } from "@/components/ui/button"
 import { cn } from "@/lib/utils"
 import type { PhotoSet, UploadItem } from "@/app/page"
 import type { ModelStatus } from "@/lib/supabase/types"
+import { DEFAULT_QUALITY_PRESET, QUALITY_PRESETS, type QualityPresetId } from "@/lib/generation/presets"
+import { formatEta, useNewJobEstimate } from "@/hooks/useGenerationEstimate"
 
 // ============================================================================
 // TYPES & INTERFACES
@@ -24,6 +26,10 @@ interface ModelGeneratorProps {
   errorMessage?: string
   onNavigateBack?: () => void
   isFullView?: boolean
+  qualityPreset?: QualityPresetId
+  onQualityPresetChange?: (preset: QualityPresetId) => void
+  saveGaussianPly?: boolean
+  onSaveGaussianPlyChange?: (save: boolean) => void
 }
 
 // ============================================================================
@@ -69,6 +75,10 @@ export function ModelGenerator({
   processingStage,
   selectedModel,
   errorMessage,
+  qualityPreset = DEFAULT_QUALITY_PRESET,
+  onQualityPresetChange,
+  saveGaussianPly = false,
+  onSaveGaussianPlyChange,
 }: ModelGeneratorProps) {
     
   // ============================================================================
@@ -173,6 +183,12 @@ export function ModelGenerator({
 
   /** Check if model is in draft state (not yet generated) */
   const isDraftModel = !selectedModel || selectedModel?.status === "draft"
+
+  /** Credit price of the selected quality preset */
+  const presetCredits = QUALITY_PRESETS[qualityPreset].credits
+
+  /** Expected duration of a generation started now, shown before credits are spent */
+  const estimate = useNewJobEstimate(qualityPreset, isDraftModel && !!photoSet.front)
   
   // ============================================================================
   // RENDER - Main Component
@@ -319,6 +335,52 @@ export function ModelGenerator({
         </p>
       </div>
 
+      {/* ============================================================================
+          QUALITY PRESET - Sets generation parameters and credit price
+          ============================================================================ */}
+      {isDraftModel && onQualityPresetChange && (
+        <div className="grid grid-cols-3 gap-2 mb-4">
+          {Object.values(QUALITY_PRESETS).map((preset) => (
+            <button
+              key={preset.id}
+              type="button"
+              onClick={() => onQualityPresetChange(preset.id)}
+              disabled={isGenerating || isRetrying}
+              className={cn(
+                "rounded-lg border p-2 text-left transition-colors",
+                qualityPreset === preset.id
+                  ? "border-blue-500 bg-blue-50"
+                  : "border-gray-200 hover:border-gray-300"
+              )}
+            >
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-900">{preset.label}</span>
+                <span className="text-xs text-gray-500">
+                  {preset.credits} {preset.credits === 1 ? "credit" : "credits"}
+                </span>
+              </div>
+              <p className="hidden sm:block text-xs text-gray-500 mt-1">{preset.description}</p>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* ============================================================================
+          GAUSSIAN SPLAT - Opt-in PLY output next to the GLB
+          ============================================================================ */}
+      {isDraftModel && onSaveGaussianPlyChange && (
+        <label className="flex items-center gap-2 mb-4 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={saveGaussianPly}
+            onChange={(e) => onSaveGaussianPlyChange(e.target.checked)}
+            disabled={isGenerating || isRetrying}
+            className="h-4 w-4 rounded border-gray-300"
+          />
+          Also create a Gaussian splat (PLY)
+        </label>
+      )}
+
       {/* ============================================================================
           GENERATE BUTTON
           ============================================================================ */}
@@ -447,7 +509,15 @@ export function ModelGenerator({
           INFORMATION FOOTER
           ============================================================================ */}
       <div className="text-center">
-        <p className="text-sm">Consumes 1 credit and takes ~2 minutes</p>
+        <p className="text-sm">
+          Consumes {presetCredits} {presetCredits === 1 ? "credit" : "credits"} and takes{" "}
+          {estimate ? formatEta(estimate.totalSeconds) : "~2 minutes"}
+        </p>
+        {estimate && estimate.queueWaitSeconds >= 60 && (
+          <p className="text-xs text-gray-400">
+            Includes {formatEta(estimate.queueWaitSeconds)} waiting in the queue
+          </p>
+        )}
       </div>
     </div>
   )
@@ -1,8 +1,16 @@
 "use client"
 
 import type React from "react"
+import { useState, useEffect, useCallback } from "react"
 import type { PhotoSet } from "@/app/page"
 import { ModelViewer } from "@/components/model-viewer"
+import { SplatViewer } from "@/components/splat-viewer"
+import { JobTimeline } from "@/components/job-timeline"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import { supabase } from "@/lib/supabase"
+import { getQualityPreset, QUALITY_PRESETS, DEFAULT_QUALITY_PRESET, type QualityPresetId } from "@/lib/generation/presets"
+import type { ModelVersion } from "@/lib/supabase/types"
 
 // ============================================================================
 // Type Definitions
@@ -13,6 +21,13 @@ interface ModelPreviewProps {
   photoSet: PhotoSet
   onNavigateBack?: () => void
   isFullView?: boolean
+  modelId?: string
+  onCurrentVersionChange?: (modelUrl: string) => void
+  onRegenerate?: (preset: QualityPresetId) => void
+}
+
+type VersionWithJob = ModelVersion & {
+  job?: { api_status: string; error_message?: string | null } | null
 }
 
 // ============================================================================
@@ -39,21 +54,271 @@ const PHOTO_POSITIONS = [
  * Shows the model in an interactive viewer at the top, with reference photos below in a 
  * horizontal grid layout.
  * 
+ * When a modelId is given, every generated version of the model is listed so the user
+ * can browse older results, mark one as current, or regenerate with another preset.
+ * The timeline of the job behind the shown version lists how long each stage took.
+ * Versions generated with a Gaussian splat PLY can be previewed as a splat and downloaded.
+ * 
  * @param modelUrl - URL to the 3D model file to display
  * @param photoSet - Object containing photos from different angles (front, left, right, back)
+ * @param modelId - Model whose versions should be listed
+ * @param onCurrentVersionChange - Called with the new GLB URL after a version is marked current
+ * @param onRegenerate - Called to start a new version with the chosen preset
  */
 export function ModelPreview({
   modelUrl,
   photoSet,
+  modelId,
+  onCurrentVersionChange,
+  onRegenerate,
 }: ModelPreviewProps) {
+  const [versions, setVersions] = useState<VersionWithJob[]>([])
+  const [currentVersionId, setCurrentVersionId] = useState<string | null>(null)
+  const [viewingVersionId, setViewingVersionId] = useState<string | null>(null)
+  const [isUpdatingVersion, setIsUpdatingVersion] = useState(false)
+  const [versionError, setVersionError] = useState<string | null>(null)
+  const [regeneratePreset, setRegeneratePreset] = useState<QualityPresetId>(DEFAULT_QUALITY_PRESET)
+  const [viewMode, setViewMode] = useState<"mesh" | "splat">("mesh")
+
+  /**
+   * Fetch all versions of the model
+   */
+  const loadVersions = useCallback(async () => {
+    if (!modelId) return
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) return
+
+      const response = await fetch(`/api/models/versions?model_id=${modelId}`, {
+        headers: { 'Authorization': `Bearer ${session.access_token}` }
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to load versions')
+      }
+
+      const data = await response.json()
+      setVersions(data.versions || [])
+      setCurrentVersionId(data.current_version_id)
+      setViewingVersionId(null)
+    } catch (err) {
+      console.error('Failed to load model versions:', err)
+      setVersionError(err instanceof Error ? err.message : 'Failed to load versions')
+    }
+  }, [modelId])
+
+  useEffect(() => {
+    loadVersions()
+  }, [loadVersions, modelUrl])
+
+  /**
+   * Mark a finished version as the model's current one
+   */
+  const handleSetCurrent = async (version: VersionWithJob) => {
+    if (!modelId) return
+
+    setIsUpdatingVersion(true)
+    setVersionError(null)
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) throw new Error("Please sign in to change versions")
+
+      const response = await fetch('/api/models/versions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`
+        },
+        body: JSON.stringify({ model_id: modelId, version_id: version.id })
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to set current version')
+      }
+
+      const data = await response.json()
+      setCurrentVersionId(data.current_version_id)
+      setViewingVersionId(null)
+      onCurrentVersionChange?.(data.model_url)
+    } catch (err) {
+      console.error('Failed to set current version:', err)
+      setVersionError(err instanceof Error ? err.message : 'Failed to set current version')
+    } finally {
+      setIsUpdatingVersion(false)
+    }
+  }
+
+  // Version being shown in the viewer (defaults to the current model)
+  const viewingVersion = versions.find(v => v.id === viewingVersionId)
+  const displayedModelUrl = viewingVersion?.model_url || modelUrl
+  const shownVersion = viewingVersion ?? versions.find(v => v.id === currentVersionId) ?? versions[0]
+  const timelineJobId = shownVersion?.job_id
+  const displayedPlyUrl = shownVersion?.model_url === displayedModelUrl ? shownVersion?.gaussian_ply_url : undefined
+  const isSplatView = viewMode === "splat" && !!displayedPlyUrl
+
   return (
     <div className="h-full flex flex-col">
       {/* 3D Model Viewer Section */}
       {/* Takes up remaining vertical space with flex-1, mb-6 adds bottom margin */}
       <div className="flex-1 mb-6 min-h-0">
-        <ModelViewer modelUrl={modelUrl} />
+        {isSplatView ? (
+          <SplatViewer plyUrl={displayedPlyUrl} />
+        ) : (
+          <ModelViewer modelUrl={displayedModelUrl} />
+        )}
       </div>
 
+      {/* View Mode & Downloads */}
+      <div className="flex items-center gap-2 mb-4">
+        {displayedPlyUrl && (
+          <div className="flex items-center gap-1">
+            {(["mesh", "splat"] as const).map((mode) => (
+              <button
+                key={mode}
+                type="button"
+                onClick={() => setViewMode(mode)}
+                className={cn(
+                  "rounded-md border px-2 py-1 text-xs",
+                  (mode === "splat") === isSplatView
+                    ? "border-blue-500 bg-blue-50 text-blue-700"
+                    : "border-gray-200 text-gray-600 hover:border-gray-300"
+                )}
+              >
+                {mode === "mesh" ? "Mesh" : "Splat"}
+              </button>
+            ))}
+          </div>
+        )}
+        <div className="ml-auto flex items-center gap-3">
+          <a
+            href={displayedModelUrl}
+            download
+            className="text-xs text-blue-500 hover:text-blue-700 hover:underline"
+          >
+            Download GLB
+          </a>
+          {displayedPlyUrl && (
+            <a
+              href={displayedPlyUrl}
+              download
+              className="text-xs text-blue-500 hover:text-blue-700 hover:underline"
+            >
+              Download Gaussian PLY
+            </a>
+          )}
+        </div>
+      </div>
+
+      {/* Version History */}
+      {modelId && versions.length > 0 && (
+        <div className="mb-4">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-medium text-gray-700">Versions</span>
+            {viewingVersion && (
+              <button
+                onClick={() => setViewingVersionId(null)}
+                className="text-xs text-blue-500 hover:text-blue-700 hover:underline"
+              >
+                Back to current
+              </button>
+            )}
+          </div>
+          <div className="space-y-1 max-h-40 overflow-y-auto">
+            {versions.map((version) => {
+              const isCurrent = version.id === currentVersionId
+              const isViewing = version.id === viewingVersionId
+              const status = version.job?.api_status
+
+              return (
+                <div
+                  key={version.id}
+                  className={cn(
+                    "flex items-center justify-between rounded-md border px-3 py-2 text-sm",
+                    isViewing ? "border-blue-500 bg-blue-50" : "border-gray-200"
+                  )}
+                >
+                  <div className="flex items-center space-x-2 min-w-0">
+                    <span className="font-medium text-gray-900">v{version.version_number}</span>
+                    <span className="text-gray-500 truncate">
+                      {getQualityPreset(version.quality_preset).label}
+                      {" · "}
+                      {new Date(version.created_at).toLocaleDateString()}
+                    </span>
+                    {isCurrent && (
+                      <span className="text-xs text-green-600 font-medium">Current</span>
+                    )}
+                  </div>
+
+                  {version.model_url ? (
+                    <div className="flex items-center space-x-3 flex-shrink-0">
+                      {!isCurrent && !isViewing && (
+                        <button
+                          onClick={() => setViewingVersionId(version.id)}
+                          className="text-xs text-blue-500 hover:text-blue-700 hover:underline"
+                        >
+                          View
+                        </button>
+                      )}
+                      {!isCurrent && (
+                        <button
+                          onClick={() => handleSetCurrent(version)}
+                          disabled={isUpdatingVersion}
+                          className="text-xs text-blue-500 hover:text-blue-700 hover:underline disabled:text-gray-400"
+                        >
+                          Set as current
+                        </button>
+                      )}
+                    </div>
+                  ) : (
+                    <span className="text-xs text-gray-400 flex-shrink-0">
+                      {status === 'failed' || status === 'canceled' ? status : 'generating'}
+                    </span>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+          {versionError && (
+            <p className="text-xs text-red-500 mt-1">{versionError}</p>
+          )}
+        </div>
+      )}
+
+      {/* Stage timeline of the shown version */}
+      {timelineJobId && <JobTimeline key={timelineJobId} jobId={timelineJobId} />}
+
+      {/* Regenerate with another preset */}
+      {onRegenerate && (
+        <div className="flex items-center gap-2 mb-4">
+          {Object.values(QUALITY_PRESETS).map((preset) => (
+            <button
+              key={preset.id}
+              type="button"
+              onClick={() => setRegeneratePreset(preset.id)}
+              className={cn(
+                "rounded-md border px-2 py-1 text-xs",
+                regeneratePreset === preset.id
+                  ? "border-blue-500 bg-blue-50 text-blue-700"
+                  : "border-gray-200 text-gray-600 hover:border-gray-300"
+              )}
+            >
+              {preset.label} ({preset.credits})
+            </button>
+          ))}
+          <Button
+            size="sm"
+            variant="outline"
+            className="ml-auto"
+            onClick={() => onRegenerate(regeneratePreset)}
+          >
+            Regenerate
+          </Button>
+        </div>
+      )}
+
       {/* Photo Reference Grid */}
       <div className="grid grid-cols-4 gap-4 mb-4">
         {PHOTO_POSITIONS.map(({ key, label, required }) => {
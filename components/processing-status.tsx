@@ -1,31 +1,90 @@
 "use client"
 
+import { useState } from "react"
 import { cn } from "@/lib/utils"
 import { useJobStatus } from "@/hooks/useJobStatus"
+import { useQueuePosition } from "@/hooks/useQueuePosition"
+import { formatEta, useJobEstimate } from "@/hooks/useGenerationEstimate"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import { supabase } from "@/lib/supabase"
 
 interface ProcessingStatusProps {
   jobId: string | null
   thumbnail: string
+  onCanceled?: () => void
+}
+
+// What the cancel endpoint reports it gave back
+interface CancelRefund {
+  refund_applied: boolean
+  refunded_credits: number
+  free_model_returned: boolean
 }
 
 const stages = [
+  { key: "pending", label: "Waiting in queue", icon: "🚦" },
   { key: "queued", label: "Queued", icon: "⏳" },
   { key: "processing", label: "Generating 3D model", icon: "🎯" },
   { key: "succeeded", label: "Model ready", icon: "✅" },
 ]
 
-export function ProcessingStatus({ jobId, thumbnail }: ProcessingStatusProps) {
-  const { status, error } = useJobStatus(jobId);
+export function ProcessingStatus({ jobId, thumbnail, onCanceled }: ProcessingStatusProps) {
+  const { status, error, progress } = useJobStatus(jobId);
+  const queueInfo = useQueuePosition(jobId, status === "pending");
+  const [isCanceling, setIsCanceling] = useState(false);
+  const [cancelError, setCancelError] = useState<string | null>(null);
+  const [cancelRefund, setCancelRefund] = useState<CancelRefund | null>(null);
   
   // Map job status to UI status
   const currentStageIndex = 
-    status === "queued" ? 0 : 
-    status === "processing" ? 1 : 
-    status === "succeeded" ? 2 : 
+    status === "pending" ? 0 :
+    status === "queued" || status === "retrying" ? 1 : 
+    status === "processing" ? 2 : 
+    status === "succeeded" || status === "completed" ? 3 : 
     -1;
     
-  const isFailed = status === "failed";
+  const isCanceled = status === "canceled";
+  const isFailed = status === "failed" || isCanceled;
   const errorMessage = error;
+  const canCancel = !!jobId && currentStageIndex >= 0 && currentStageIndex <= 2;
+  const estimate = useJobEstimate(jobId, currentStageIndex >= 1 && currentStageIndex <= 2);
+
+  /**
+   * Cancel the running job; the server refunds the credits or returns the free model
+   */
+  const handleCancel = async () => {
+    if (!jobId) return;
+
+    setIsCanceling(true);
+    setCancelError(null);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error("Please sign in to cancel this job");
+
+      const response = await fetch('/api/jobs/cancel', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`
+        },
+        body: JSON.stringify({ job_id: jobId })
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to cancel job');
+      }
+
+      setCancelRefund(data);
+      onCanceled?.();
+    } catch (err) {
+      console.error('Job cancel failed:', err);
+      setCancelError(err instanceof Error ? err.message : 'Failed to cancel job');
+    } finally {
+      setIsCanceling(false);
+    }
+  };
 
   return (
     <div className="flex flex-col items-center justify-center h-96 space-y-6">
@@ -86,15 +145,26 @@ export function ProcessingStatus({ jobId, thumbnail }: ProcessingStatusProps) {
                   isPending && "text-gray-500",
                 )}
               >
-                {isCurrent && isFailed ? "Failed" : stageItem.label}
+                {isCurrent && isFailed ? (isCanceled ? "Canceled" : "Failed") : stageItem.label}
                 {isCurrent && isFailed && errorMessage && (
                   <span className="ml-2 text-xs text-red-500">({errorMessage})</span>
                 )}
+                {isCurrent && !isFailed && stageItem.key === "processing" && progress > 0 && (
+                  <span className="ml-2 text-xs text-gray-500">{progress}%</span>
+                )}
+                {isCurrent && stageItem.key === "pending" && queueInfo && (
+                  <span className="ml-2 text-xs text-gray-500">
+                    (#{queueInfo.position} in line · {formatEta(queueInfo.etaSeconds)})
+                  </span>
+                )}
               </span>
 
-              {/* Loading indicator for current stage */}
+              {/* Loading indicator for current stage, with the time left once the job left our queue */}
               {isCurrent && !isFailed && (
-                <div className="flex-1 flex justify-end">
+                <div className="flex-1 flex items-center justify-end space-x-2">
+                  {stageItem.key !== "pending" && estimate?.remainingSeconds != null && (
+                    <span className="text-xs text-gray-500">{formatEta(estimate.remainingSeconds)} left</span>
+                  )}
                   <div className="flex space-x-1">
                     <div className="w-2 h-2 bg-blue-500 rounded-full animate-bounce" />
                     <div
@@ -113,11 +183,50 @@ export function ProcessingStatus({ jobId, thumbnail }: ProcessingStatusProps) {
         })}
       </div>
 
+      {/* Provider-reported progress while generating */}
+      {currentStageIndex === 2 && !isFailed && progress > 0 && (
+        <Progress value={progress} className="h-2 w-full max-w-md" />
+      )}
+
       <p className="text-sm text-gray-600 text-center">
-        {isFailed 
-          ? "There was an error processing your model. Please try again."
-          : "This usually takes 1-2 minutes. You can continue using the app while we process your model."}
+        {isCanceled
+          ? getCancelMessage(cancelRefund)
+          : isFailed 
+            ? "There was an error processing your model. Please try again."
+            : estimate?.remainingP90Seconds != null
+              ? `Usually done within ${Math.max(1, Math.ceil(estimate.remainingP90Seconds / 60))} min. You can continue using the app while we process your model.`
+              : "This usually takes 1-2 minutes. You can continue using the app while we process your model."}
       </p>
+
+      {/* Cancel button while the job is still running */}
+      {canCancel && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleCancel}
+          disabled={isCanceling}
+        >
+          {isCanceling ? "Canceling..." : "Cancel"}
+        </Button>
+      )}
+      {cancelError && (
+        <p className="text-xs text-red-500 text-center">{cancelError}</p>
+      )}
     </div>
   )
 }
+
+/**
+ * Describes what a cancellation gave back, from the cancel response when this view made it
+ */
+function getCancelMessage(refund: CancelRefund | null) {
+  if (!refund) return "Generation was canceled."
+  if (!refund.refund_applied) {
+    return "Generation was canceled. Your refund is being processed and will appear shortly."
+  }
+  if (refund.free_model_returned) {
+    return "Generation was canceled and your free model has been returned to this month's allowance."
+  }
+  const credits = refund.refunded_credits
+  return `Generation was canceled and ${credits} credit${credits === 1 ? " has" : "s have"} been refunded.`
+}
@@ -0,0 +1,355 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { parseSplatPly, type SplatCloud } from "@/lib/splat/ply"
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+interface SplatViewerProps {
+  /** URL of the Gaussian splat PLY */
+  plyUrl: string
+}
+
+interface OrbitState {
+  yaw: number
+  pitch: number
+  distance: number
+}
+
+// ============================================================================
+// SHADERS
+// ============================================================================
+
+// Each splat is drawn as a round point sized by its world-space radius
+const VERTEX_SHADER = `
+attribute vec3 aPosition;
+attribute vec4 aColor;
+attribute float aSize;
+uniform mat4 uView;
+uniform mat4 uProjection;
+uniform float uViewportHeight;
+uniform float uMinRadius;
+varying vec4 vColor;
+
+void main() {
+  vec4 viewPosition = uView * vec4(aPosition, 1.0);
+  gl_Position = uProjection * viewPosition;
+  float radius = max(aSize, uMinRadius);
+  gl_PointSize = clamp(2.0 * radius * uProjection[1][1] * uViewportHeight / -viewPosition.z, 1.0, 64.0);
+  vColor = aColor;
+}
+`
+
+// Gaussian falloff from the point center; faint fragments are dropped instead of sorted
+const FRAGMENT_SHADER = `
+precision mediump float;
+varying vec4 vColor;
+
+void main() {
+  vec2 offset = gl_PointCoord * 2.0 - 1.0;
+  float distanceSquared = dot(offset, offset);
+  if (distanceSquared > 1.0) discard;
+  float alpha = vColor.a * exp(-4.0 * distanceSquared);
+  if (alpha < 0.1) discard;
+  gl_FragColor = vec4(vColor.rgb, alpha);
+}
+`
+
+const MIN_PITCH = -Math.PI / 2 + 0.05
+const MAX_PITCH = Math.PI / 2 - 0.05
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * SplatViewer - Lightweight preview of a Gaussian splat PLY
+ *
+ * Draws every splat as a soft, colored point with plain WebGL (no sorting or
+ * anisotropy), which is enough to judge the capture. Drag to orbit, scroll to zoom.
+ */
+export function SplatViewer({ plyUrl }: SplatViewerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [cloud, setCloud] = useState<SplatCloud | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // ============================================================================
+  // EFFECT: Download and parse the PLY
+  // ============================================================================
+
+  useEffect(() => {
+    let stopped = false
+    setCloud(null)
+    setError(null)
+
+    const loadPly = async () => {
+      try {
+        const response = await fetch(plyUrl)
+        if (!response.ok) {
+          throw new Error(`Download failed: ${response.status}`)
+        }
+        const parsed = parseSplatPly(await response.arrayBuffer())
+        if (!stopped) setCloud(parsed)
+      } catch (err) {
+        console.error('Failed to load Gaussian splat:', err)
+        if (!stopped) setError(err instanceof Error ? err.message : 'Failed to load splat')
+      }
+    }
+
+    loadPly()
+    return () => {
+      stopped = true
+    }
+  }, [plyUrl])
+
+  // ============================================================================
+  // EFFECT: Render the cloud and handle orbit controls
+  // ============================================================================
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || !cloud) return
+
+    const gl = canvas.getContext('webgl', { antialias: true })
+    if (!gl) {
+      setError('WebGL is not available in this browser')
+      return
+    }
+
+    const program = createProgram(gl)
+    if (!program) {
+      setError('Failed to initialize the splat renderer')
+      return
+    }
+    gl.useProgram(program)
+
+    const buffers = [
+      bindAttribute(gl, program, 'aPosition', cloud.positions, 3),
+      bindAttribute(gl, program, 'aColor', cloud.colors, 4),
+      bindAttribute(gl, program, 'aSize', cloud.sizes, 1),
+    ]
+
+    const uniforms = {
+      view: gl.getUniformLocation(program, 'uView'),
+      projection: gl.getUniformLocation(program, 'uProjection'),
+      viewportHeight: gl.getUniformLocation(program, 'uViewportHeight'),
+      minRadius: gl.getUniformLocation(program, 'uMinRadius'),
+    }
+
+    gl.enable(gl.DEPTH_TEST)
+    gl.enable(gl.BLEND)
+    gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA)
+    gl.clearColor(0.953, 0.957, 0.965, 1)
+
+    const orbit: OrbitState = { yaw: 0, pitch: 0.3, distance: cloud.radius * 2.5 }
+    let frame = 0
+
+    const render = () => {
+      frame = 0
+      const width = canvas.clientWidth * window.devicePixelRatio
+      const height = canvas.clientHeight * window.devicePixelRatio
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width
+        canvas.height = height
+      }
+      gl.viewport(0, 0, width, height)
+      gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT)
+
+      const [cx, cy, cz] = cloud.center
+      const eye: [number, number, number] = [
+        cx + orbit.distance * Math.cos(orbit.pitch) * Math.sin(orbit.yaw),
+        cy + orbit.distance * Math.sin(orbit.pitch),
+        cz + orbit.distance * Math.cos(orbit.pitch) * Math.cos(orbit.yaw),
+      ]
+
+      gl.uniformMatrix4fv(uniforms.view, false, lookAt(eye, cloud.center))
+      gl.uniformMatrix4fv(
+        uniforms.projection,
+        false,
+        perspective(Math.PI / 4, width / Math.max(1, height), cloud.radius * 0.01, cloud.radius * 20)
+      )
+      gl.uniform1f(uniforms.viewportHeight, height)
+      gl.uniform1f(uniforms.minRadius, cloud.radius * 0.002)
+      gl.drawArrays(gl.POINTS, 0, cloud.count)
+    }
+
+    const requestRender = () => {
+      if (!frame) frame = requestAnimationFrame(render)
+    }
+
+    // Orbit on drag, zoom on wheel
+    let dragStart: { x: number; y: number } | null = null
+
+    const handlePointerDown = (event: PointerEvent) => {
+      dragStart = { x: event.clientX, y: event.clientY }
+      canvas.setPointerCapture(event.pointerId)
+    }
+    const handlePointerMove = (event: PointerEvent) => {
+      if (!dragStart) return
+      orbit.yaw -= (event.clientX - dragStart.x) * 0.01
+      orbit.pitch = Math.min(MAX_PITCH, Math.max(MIN_PITCH, orbit.pitch + (event.clientY - dragStart.y) * 0.01))
+      dragStart = { x: event.clientX, y: event.clientY }
+      requestRender()
+    }
+    const handlePointerUp = () => {
+      dragStart = null
+    }
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault()
+      orbit.distance = Math.min(
+        cloud.radius * 10,
+        Math.max(cloud.radius * 0.5, orbit.distance * Math.exp(event.deltaY * 0.001))
+      )
+      requestRender()
+    }
+
+    canvas.addEventListener('pointerdown', handlePointerDown)
+    canvas.addEventListener('pointermove', handlePointerMove)
+    canvas.addEventListener('pointerup', handlePointerUp)
+    canvas.addEventListener('pointercancel', handlePointerUp)
+    canvas.addEventListener('wheel', handleWheel, { passive: false })
+    window.addEventListener('resize', requestRender)
+    requestRender()
+
+    return () => {
+      if (frame) cancelAnimationFrame(frame)
+      canvas.removeEventListener('pointerdown', handlePointerDown)
+      canvas.removeEventListener('pointermove', handlePointerMove)
+      canvas.removeEventListener('pointerup', handlePointerUp)
+      canvas.removeEventListener('pointercancel', handlePointerUp)
+      canvas.removeEventListener('wheel', handleWheel)
+      window.removeEventListener('resize', requestRender)
+      buffers.forEach(buffer => gl.deleteBuffer(buffer))
+      gl.deleteProgram(program)
+    }
+  }, [cloud])
+
+  // ============================================================================
+  // RENDER
+  // ============================================================================
+
+  return (
+    <div className="w-full">
+      <div className="relative w-full h-96 rounded-lg overflow-hidden bg-gray-100">
+        <canvas ref={canvasRef} className="w-full h-full touch-none cursor-grab" />
+
+        {!cloud && !error && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <div className="text-center">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+              <p className="text-gray-600">Loading Gaussian splat...</p>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="absolute inset-0 flex items-center justify-center p-4">
+            <div className="text-center">
+              <h3 className="text-lg font-medium text-gray-900 mb-2">Splat Unavailable</h3>
+              <p className="text-sm text-gray-500">{error}</p>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="mt-4 text-center">
+        <p className="text-sm text-gray-600">
+          {cloud
+            ? `${cloud.count.toLocaleString()} splats • Drag to rotate • Scroll to zoom`
+            : "Drag to rotate • Scroll to zoom"}
+        </p>
+      </div>
+    </div>
+  )
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function createProgram(gl: WebGLRenderingContext) {
+  const compile = (type: number, source: string) => {
+    const shader = gl.createShader(type)
+    if (!shader) return null
+    gl.shaderSource(shader, source)
+    gl.compileShader(shader)
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      console.error('Splat shader error:', gl.getShaderInfoLog(shader))
+      return null
+    }
+    return shader
+  }
+
+  const vertexShader = compile(gl.VERTEX_SHADER, VERTEX_SHADER)
+  const fragmentShader = compile(gl.FRAGMENT_SHADER, FRAGMENT_SHADER)
+  const program = gl.createProgram()
+  if (!vertexShader || !fragmentShader || !program) return null
+
+  gl.attachShader(program, vertexShader)
+  gl.attachShader(program, fragmentShader)
+  gl.linkProgram(program)
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    console.error('Splat program error:', gl.getProgramInfoLog(program))
+    return null
+  }
+  return program
+}
+
+function bindAttribute(
+  gl: WebGLRenderingContext,
+  program: WebGLProgram,
+  name: string,
+  data: Float32Array,
+  size: number
+) {
+  const buffer = gl.createBuffer()
+  gl.bindBuffer(gl.ARRAY_BUFFER, buffer)
+  gl.bufferData(gl.ARRAY_BUFFER, data, gl.STATIC_DRAW)
+
+  const location = gl.getAttribLocation(program, name)
+  gl.enableVertexAttribArray(location)
+  gl.vertexAttribPointer(location, size, gl.FLOAT, false, 0, 0)
+  return buffer
+}
+
+/**
+ * Column-major perspective projection matrix
+ */
+function perspective(fovY: number, aspect: number, near: number, far: number) {
+  const f = 1 / Math.tan(fovY / 2)
+  const rangeInverse = 1 / (near - far)
+  return new Float32Array([
+    f / aspect, 0, 0, 0,
+    0, f, 0, 0,
+    0, 0, (near + far) * rangeInverse, -1,
+    0, 0, 2 * near * far * rangeInverse, 0,
+  ])
+}
+
+/**
+ * Column-major view matrix looking from eye at target with +Y up
+ */
+function lookAt(eye: [number, number, number], target: [number, number, number]) {
+  const forward = normalize([eye[0] - target[0], eye[1] - target[1], eye[2] - target[2]])
+  const right = normalize(cross([0, 1, 0], forward))
+  const up = cross(forward, right)
+  const dot = (a: number[], b: number[]) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2]
+
+  return new Float32Array([
+    right[0], up[0], forward[0], 0,
+    right[1], up[1], forward[1], 0,
+    right[2], up[2], forward[2], 0,
+    -dot(right, eye), -dot(up, eye), -dot(forward, eye), 1,
+  ])
+}
+
+function cross(a: number[], b: number[]) {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]]
+}
+
+function normalize(v: number[]) {
+  const length = Math.hypot(v[0], v[1], v[2]) || 1
+  return [v[0] / length, v[1] / length, v[2] / length]
+}
@@ -5,6 +5,11 @@ import { supabase } from "@/lib/supabase"
 import { userService } from "@/lib/supabase"
 import type { User } from "@/app/page"
 
+// Referral links look like /?ref=CODE; the code is kept until a signed-in account claims it
+// (it has to survive OAuth redirects and email confirmation)
+const REFERRAL_QUERY_PARAM = "ref"
+const REFERRAL_STORAGE_KEY = "referral_code"
+
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
@@ -14,6 +19,7 @@ interface AuthContextType {
   showAuthModal: boolean
   authReason: string | null
   showForgotPassword: boolean
+  referralCode: string | null
   login: (user: User) => void
   logout: () => Promise<void>
   openAuthModal: (reason?: string) => void
@@ -31,6 +37,7 @@ const AuthContext = createContext<AuthContextType>({
   showAuthModal: false,
   authReason: null,
   showForgotPassword: false,
+  referralCode: null,
   login: () => {},
   logout: async () => {},
   openAuthModal: () => {},
@@ -50,6 +57,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [authReason, setAuthReason] = useState<string | null>(null)
   const [showForgotPassword, setShowForgotPassword] = useState(false)
   const [isLoading, setIsLoading] = useState(true)
+  const [referralCode, setReferralCode] = useState<string | null>(null)
 
   // --------------------------------------------------------------------------
   // INITIALIZATION & AUTH STATE MANAGEMENT
@@ -58,6 +66,13 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   useEffect(() => {
     let isInitialized = false
 
+    // Keep the referral code of the link the visitor arrived through
+    const linkCode = new URLSearchParams(window.location.search).get(REFERRAL_QUERY_PARAM)
+    if (linkCode) {
+      localStorage.setItem(REFERRAL_STORAGE_KEY, linkCode)
+    }
+    setReferralCode(localStorage.getItem(REFERRAL_STORAGE_KEY))
+
     /**
      * Initialize authentication by checking for existing session
      * Loads full user data from database if session exists
@@ -78,7 +93,14 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
                        currentUser.user_metadata?.avatar_url || 
                        "/placeholder.svg?height=40&width=40",
             credits: fullUser.credits || 0,
+            free_models_used: fullUser.free_models_used,
+            free_models_period_start: fullUser.free_models_period_start,
           })
+
+          const { data: { session } } = await supabase.auth.getSession()
+          if (session && localStorage.getItem(REFERRAL_STORAGE_KEY)) {
+            claimReferral(session.access_token)
+          }
         }
       } catch (error) {
         console.error('❌ Failed to initialize auth:', error)
@@ -101,6 +123,16 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
         const authUser = session?.user
 
+        // New accounts claim the referral they signed up with: from the stored link, or
+        // from their signup metadata when the email was confirmed in another browser
+        if (
+          event === "SIGNED_IN" &&
+          session &&
+          (localStorage.getItem(REFERRAL_STORAGE_KEY) || session.user.user_metadata?.referral_code)
+        ) {
+          claimReferral(session.access_token)
+        }
+
         if (authUser) {
           // User is authenticated - load or update user data
           setUser(prev => {
@@ -156,6 +188,39 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   // AUTH ACTIONS
   // --------------------------------------------------------------------------
 
+  /**
+   * Record the referral of a signed-in account
+   * The code is dropped once the server has decided on it (recorded or refused), both
+   * the stored one and the one in the signup metadata, so later sign-ins do not claim
+   * again; credits for both accounts follow the referred user's first completed model
+   */
+  const claimReferral = async (accessToken: string) => {
+    try {
+      const storedCode = localStorage.getItem(REFERRAL_STORAGE_KEY)
+      const response = await fetch('/api/referrals/claim', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${accessToken}`
+        },
+        body: JSON.stringify(storedCode ? { code: storedCode } : {})
+      })
+
+      if (response.status < 500) {
+        localStorage.removeItem(REFERRAL_STORAGE_KEY)
+        setReferralCode(null)
+
+        const { data: { session } } = await supabase.auth.getSession()
+        if (session?.user.user_metadata?.referral_code) {
+          const { error } = await supabase.auth.updateUser({ data: { referral_code: null } })
+          if (error) console.error('Failed to clear referral code from signup metadata:', error)
+        }
+      }
+    } catch (error) {
+      console.error('Failed to claim referral:', error)
+    }
+  }
+
   /**
    * Set authenticated user and close auth modal
    */
@@ -217,6 +282,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         showAuthModal,
         authReason,
         showForgotPassword,
+        referralCode,
         login,
         logout,
         openAuthModal,
@@ -2,33 +2,28 @@ import { useAuth } from "@/contexts/AuthContext";
 import { userService } from "@/lib/supabase";
 import { useCallback } from "react";
 
+/**
+ * Read-only view of the signed-in user's credits
+ * Balances only change server-side through the credit ledger (charges, refunds,
+ * purchases, awards); call refreshCredits after such an operation to show the new balance
+ */
 export function useCredits() {
   const { user, updateUser } = useAuth();
 
   /**
-   * Deduct credits from user account
-   * @throws Error for unauthenticated users or insufficient credits
+   * Reload the balance from the database
    */
-  const deductCredits = useCallback(async (amount: number) => {
-    if (!user) throw new Error("User not authenticated");
-    if ((user.credits || 0) < amount) throw new Error("Insufficient credits");
-    
-    const newCredits = (user.credits || 0) - amount;
-    const updatedUser = await userService.updateUser(user.id, { credits: newCredits });
-    updateUser(updatedUser);
-    return updatedUser;
-  }, [user, updateUser]);
+  const refreshCredits = useCallback(async () => {
+    if (!user) return null;
 
-  /**
-   * Add credits to user account
-   */
-  const addCredits = useCallback(async (amount: number) => {
-    if (!user) throw new Error("User not authenticated");
-    
-    const newCredits = (user.credits || 0) + amount;
-    const updatedUser = await userService.updateUser(user.id, { credits: newCredits });
-    updateUser(updatedUser);
-    return updatedUser;
+    const fullUser = await userService.getUserById(user.id);
+    updateUser({
+      ...user,
+      credits: fullUser.credits || 0,
+      free_models_used: fullUser.free_models_used,
+      free_models_period_start: fullUser.free_models_period_start
+    });
+    return fullUser.credits || 0;
   }, [user, updateUser]);
 
   /**
@@ -41,8 +36,7 @@ export function useCredits() {
 
   return {
     credits: user?.credits || 0,
-    deductCredits,
-    addCredits,
+    refreshCredits,
     hasSufficientCredits,
     user
   };
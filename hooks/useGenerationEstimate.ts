@@ -0,0 +1,118 @@
+"use client"
+
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { QualityPresetId } from '@/lib/generation/presets';
+
+// Remaining time shrinks as the job runs, so it is refreshed periodically
+const ESTIMATE_POLL_INTERVAL = 20000;
+
+export interface JobEstimate {
+  remainingSeconds: number | null;
+  remainingP90Seconds: number | null;
+}
+
+export interface NewJobEstimate {
+  totalSeconds: number;
+  totalP90Seconds: number;
+  queueWaitSeconds: number;
+}
+
+/**
+ * Polls the remaining-time estimate of an unfinished job
+ * @param jobId - Job to track
+ * @param isActive - Poll only while the job is pending or running
+ */
+export function useJobEstimate(jobId: string | null, isActive: boolean) {
+  const [estimate, setEstimate] = useState<JobEstimate | null>(null);
+
+  useEffect(() => {
+    if (!jobId || !isActive) {
+      setEstimate(null);
+      return;
+    }
+
+    let stopped = false;
+
+    const fetchEstimate = async () => {
+      const data = await fetchEstimateData(`job_id=${encodeURIComponent(jobId)}`);
+      if (!data || stopped) return;
+
+      setEstimate({
+        remainingSeconds: data.remaining_seconds,
+        remainingP90Seconds: data.remaining_p90_seconds
+      });
+    };
+
+    fetchEstimate();
+    const interval = setInterval(fetchEstimate, ESTIMATE_POLL_INTERVAL);
+
+    return () => {
+      stopped = true;
+      clearInterval(interval);
+    };
+  }, [jobId, isActive]);
+
+  return estimate;
+}
+
+/**
+ * Fetches how long a generation with the given preset would take if started now
+ * @param preset - Selected quality preset
+ * @param enabled - Fetch only while the user can still start a generation
+ */
+export function useNewJobEstimate(preset: QualityPresetId, enabled: boolean) {
+  const [estimate, setEstimate] = useState<NewJobEstimate | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let stopped = false;
+
+    fetchEstimateData(`preset=${encodeURIComponent(preset)}`).then((data) => {
+      if (!data || stopped) return;
+
+      setEstimate({
+        totalSeconds: data.total_seconds,
+        totalP90Seconds: data.total_p90_seconds,
+        queueWaitSeconds: data.queue_wait_seconds
+      });
+    });
+
+    return () => {
+      stopped = true;
+    };
+  }, [preset, enabled]);
+
+  return estimate;
+}
+
+/**
+ * Formats an ETA in seconds as a short approximate duration
+ */
+export function formatEta(seconds: number) {
+  if (seconds < 60) return "under a minute";
+  const minutes = Math.round(seconds / 60);
+  return minutes === 1 ? "about 1 min" : `about ${minutes} min`;
+}
+
+// ==================== HELPER FUNCTIONS ====================
+
+async function fetchEstimateData(query: string) {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return null;
+
+    const response = await fetch(`/api/jobs/estimate?${query}`, {
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`
+      }
+    });
+    if (!response.ok) return null;
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error fetching generation estimate:', error);
+    return null;
+  }
+}
@@ -0,0 +1,86 @@
+"use client"
+
+import { useEffect, useRef } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { JobStreamEvent } from '@/types/jobs';
+
+// Delay before reopening a stream the browser gave up on (e.g. expired token)
+const RECONNECT_DELAY = 5000;
+
+/**
+ * Subscribes to the signed-in user's job updates over Server-Sent Events
+ * The stream replays every active job on connect, then pushes each change as it is written
+ * @param onEvent - Called for every job event; the latest callback is always used
+ * @param enabled - Open the stream only while true (e.g. when a user is signed in)
+ */
+export function useJobEvents(
+  onEvent: (event: JobStreamEvent) => void,
+  enabled = true
+) {
+  const handlerRef = useRef(onEvent);
+
+  useEffect(() => {
+    handlerRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let source: EventSource | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let connectAttempt = 0;
+    let stopped = false;
+
+    const close = () => {
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+      source?.close();
+      source = null;
+    };
+
+    const connect = async () => {
+      close();
+      const attempt = ++connectAttempt;
+
+      const { data: { session } } = await supabase.auth.getSession();
+      // Skip if stopped or a newer connect() started while fetching the session
+      if (!session || stopped || attempt !== connectAttempt) return;
+
+      source = new EventSource(
+        `/api/jobs/stream?access_token=${encodeURIComponent(session.access_token)}`
+      );
+
+      source.addEventListener('job', (message) => {
+        try {
+          handlerRef.current(JSON.parse((message as MessageEvent).data));
+        } catch (error) {
+          console.error('Invalid job event:', error);
+        }
+      });
+
+      // EventSource retries transient errors itself; a closed source needs a fresh token
+      source.onerror = () => {
+        if (source?.readyState === EventSource.CLOSED && !stopped) {
+          reconnectTimer = setTimeout(connect, RECONNECT_DELAY);
+        }
+      };
+    };
+
+    connect();
+
+    // Reopen with the new token whenever the session changes
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+      if (event === 'TOKEN_REFRESHED' || event === 'SIGNED_IN') {
+        connect();
+      } else if (event === 'SIGNED_OUT') {
+        close();
+      }
+    });
+
+    return () => {
+      stopped = true;
+      close();
+      subscription.unsubscribe();
+    };
+  }, [enabled]);
+}
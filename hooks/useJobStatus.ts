@@ -7,6 +7,7 @@ import type { Job } from '@/lib/supabase/types';
 export function useJobStatus(jobId: string | null) {
   const [status, setStatus] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<number>(0);
 
   useEffect(() => {
     if (!jobId) return;
@@ -15,7 +16,7 @@ export function useJobStatus(jobId: string | null) {
     const fetchStatus = async () => {
       const { data, error } = await supabase
         .from('jobs')
-        .select('api_status, error_message')
+        .select('api_status, error_message, progress')
         .eq('id', jobId)
         .single();
       
@@ -26,6 +27,7 @@ export function useJobStatus(jobId: string | null) {
       
       setStatus(data.api_status);
       setError(data.error_message);
+      setProgress(data.progress ?? 0);
     };
 
     fetchStatus();
@@ -42,6 +44,7 @@ export function useJobStatus(jobId: string | null) {
         const newData = payload.new as Job;
         setStatus(newData.api_status);
         setError(newData.error_message || null);
+        setProgress(newData.progress ?? 0);
       })
       .subscribe();
 
@@ -50,5 +53,5 @@ export function useJobStatus(jobId: string | null) {
     };
   }, [jobId]);
 
-  return { status, error };
+  return { status, error, progress };
 }
@@ -1,13 +1,15 @@
 import { useState, useEffect, useCallback } from 'react';
 import { ModelService } from '@/lib/supabase/model.service';
 import type { PhotoSet } from '@/app/page';
+import { DEFAULT_QUALITY_PRESET, type QualityPresetId } from '@/lib/generation/presets';
 
 // Singleton instance to ensure consistent state across hook calls
 const ModelServiceSingleton = new ModelService();
 
 /**
  * Custom hook for managing 3D model generation workflow
- * Handles the complete pipeline: photo upload → background removal → 3D generation → polling
+ * Handles the complete pipeline: photo upload → background removal → 3D generation
+ * Job progress is delivered separately through useJobEvents
  */
 export function useModelGeneration() {
 
@@ -104,25 +106,52 @@ export function useModelGeneration() {
   // ==================== Background Removal ====================
   
   /**
-   * Removes background from the front image
-   * NOTE: Current implementation is a placeholder - needs proper file fetching
+   * Removes the background from every uploaded view
+   * Views are processed one at a time since the segmentation model is memory hungry.
+   * If removal fails for a view, the original upload is used for that view's generation
+   * only; its background-removed column stays empty so it is never mistaken for a cutout
    * @param modelId - The model's unique identifier
-   * @param frontUrl - URL of the front image
-   * @returns URL of the processed image
+   * @param urlMap - Map of position to uploaded original URL
+   * @param photoSet - Photo set with the local files for each view
+   * @returns Map of position to the URL that should be sent for generation
    */
   const removeBackground = useCallback(async (
     modelId: string, 
-    frontUrl: string
-  ): Promise<string> => {
+    urlMap: Record<string, string>,
+    photoSet: PhotoSet
+  ): Promise<Record<string, string>> => {
     try {
       // Update model status to indicate background removal stage
       await ModelServiceSingleton.updateModel(modelId, {
         model_status: 'removed_background'
       });
 
-      // TODO: Implement actual background removal
-      // Need to fetch file from URL and process it
-      return frontUrl; // Placeholder
+      const { removeBackgroundFromImage } = await import('@/lib/backgroundRemoval');
+      const processedUrls: Record<string, string> = {};
+      const generationUrls: Record<string, string> = {};
+
+      for (const position of Object.keys(urlMap)) {
+        const originalUrl = urlMap[position];
+        try {
+          const file = photoSet[position as keyof PhotoSet]?.file
+            ?? await fetchImageAsFile(originalUrl, `${position}.png`);
+          const result = await removeBackgroundFromImage(file);
+          URL.revokeObjectURL(result.imageUrl);
+          processedUrls[position] = result.processedImageUrl;
+          generationUrls[position] = result.processedImageUrl;
+        } catch (viewError) {
+          console.warn(`⚠️ Background removal failed for ${position} view, using original image:`, viewError);
+          generationUrls[position] = originalUrl;
+        }
+      }
+
+      // Store processed URLs for each uploaded view; failed views are cleared so an
+      // earlier cutout of a replaced photo is not reused
+      await ModelServiceSingleton.updateModel(modelId, Object.fromEntries(
+        Object.keys(urlMap).map(position => [`${position}_nobgr_image_url`, processedUrls[position] ?? null])
+      ));
+
+      return generationUrls;
     } catch (error) {
       console.error('❌ Background removal failed:', error);
       await ModelServiceSingleton.updateModel(modelId, {
@@ -137,40 +166,55 @@ export function useModelGeneration() {
   /**
    * Initiates 3D model generation by sending photos to the generation API
    * @param modelId - The model's unique identifier
-   * @param processedUrl - URL of the background-removed front image
+   * @param processedUrls - Map of position to background-removed image URL
    * @param photoSet - Photo set containing URLs for additional views
    * @param accessToken - Optional authentication token
+   * @param preset - Quality preset that sets generation parameters and credit cost
+   * @param stageTimes - When upload and background removal finished, for the job timeline
+   * @param saveGaussianPly - Also request a Gaussian splat PLY alongside the GLB
    * @returns Object containing the job ID for polling
    */
   const generate3DModel = useCallback(async (
     modelId: string, 
-    processedUrl: string,
+    processedUrls: Record<string, string>,
     photoSet: PhotoSet,
-    accessToken?: string
+    accessToken?: string,
+    preset: QualityPresetId = DEFAULT_QUALITY_PRESET,
+    stageTimes?: { uploadedAt?: Date; backgroundRemovedAt?: Date },
+    saveGaussianPly = false
   ): Promise<{ jobId: string }> => {
     try {
       // Prepare form data with image URLs
       const formData = new FormData();
-      formData.append('frontUrl', processedUrl);
+      formData.append('frontUrl', processedUrls.front);
       formData.append('modelId', modelId);
 
-      // Add optional view URLs
-      if (photoSet.left?.persistentUrl) {
-        formData.append('leftUrl', photoSet.left.persistentUrl);
+      // Add optional view URLs (prefer processed over raw)
+      const leftUrl = processedUrls.left || photoSet.left?.persistentUrl;
+      const rightUrl = processedUrls.right || photoSet.right?.persistentUrl;
+      const backUrl = processedUrls.back || photoSet.back?.persistentUrl;
+      if (leftUrl) {
+        formData.append('leftUrl', leftUrl);
+      }
+      if (rightUrl) {
+        formData.append('rightUrl', rightUrl);
       }
-      if (photoSet.right?.persistentUrl) {
-        formData.append('rightUrl', photoSet.right.persistentUrl);
+      if (backUrl) {
+        formData.append('backUrl', backUrl);
       }
-      if (photoSet.back?.persistentUrl) {
-        formData.append('backUrl', photoSet.back.persistentUrl);
+      
+      // Generation parameters are resolved server-side from the preset
+      formData.append('preset', preset);
+      if (saveGaussianPly) {
+        formData.append('gaussianPly', 'true');
       }
       
-      // Configure generation options
-      formData.append('options', JSON.stringify({
-        enable_pbr: true,
-        should_remesh: true,
-        should_texture: true
-      }));
+      if (stageTimes?.uploadedAt) {
+        formData.append('uploadedAt', stageTimes.uploadedAt.toISOString());
+      }
+      if (stageTimes?.backgroundRemovedAt) {
+        formData.append('backgroundRemovedAt', stageTimes.backgroundRemovedAt.toISOString());
+      }
       
       // Set up authentication if token provided
       const headers: Record<string, string> = {};
@@ -178,15 +222,24 @@ export function useModelGeneration() {
         headers['Authorization'] = `Bearer ${accessToken}`;
       }
       
+      // One key per generation attempt: a resent request returns the original job
+      // instead of charging again, so a request lost to the network is retried once
+      headers['Idempotency-Key'] = crypto.randomUUID();
+      
       // Call generation API
-      const response = await fetch('/api/generate', {
+      const sendRequest = () => fetch('/api/generate', {
         method: 'POST',
         headers,
         body: formData,
       });
+      const response = await sendRequest().catch(sendRequest);
       
       if (!response.ok) {
         const errorData = await response.json();
+        // The model is already generating; leave its status to the running job
+        if (response.status === 409) {
+          throw new GenerationInProgressError(errorData.detail || 'A generation is already in progress');
+        }
         throw new Error(errorData.detail || 'Job creation failed');
       }
       
@@ -206,6 +259,10 @@ export function useModelGeneration() {
     } catch (error) {
       console.error('❌ Error during 3D model generation:', error);
       
+      if (error instanceof GenerationInProgressError) {
+        throw error;
+      }
+      
       // Mark model as failed on error
       try {
         await ModelServiceSingleton.updateModelStatus(modelId, 'failed');
@@ -221,16 +278,19 @@ export function useModelGeneration() {
   
   /**
    * Retries 3D model generation using existing processed images
-   * Useful when generation fails but photos are already uploaded and processed
+   * Useful when generation fails but photos are already uploaded and processed.
+   * Also used to regenerate a completed model; every run is kept as a new version
    * @param modelId - The model's unique identifier
    * @param userId - The user's unique identifier
    * @param accessToken - Optional authentication token
+   * @param preset - Quality preset for the new version (defaults to the previous run's preset)
    * @returns Object indicating success and new job ID
    */
   const retryModelGeneration = useCallback(async (
     modelId: string,
     userId: string,
-    accessToken?: string
+    accessToken?: string,
+    preset?: QualityPresetId
   ) => {
     try {
       setIsGenerating(true);
@@ -246,6 +306,12 @@ export function useModelGeneration() {
       const frontUrl = model.front_nobgr_image_url || model.front_image_url || '';
       formData.append('frontUrl', frontUrl);
       
+      // Reuse the preset of the previous attempt unless a new one was chosen
+      const presetToUse = preset || model.quality_preset;
+      if (presetToUse) {
+        formData.append('preset', presetToUse);
+      }
+      
       if (model.back_nobgr_image_url || model.back_image_url) {
         formData.append('backUrl', model.back_nobgr_image_url || model.back_image_url);
       }
@@ -294,84 +360,6 @@ export function useModelGeneration() {
     }
   }, []);
 
-  // ==================== Job Status Polling ====================
-  
-  /**
-   * Polls the job status until completion or failure
-   * Uses exponential backoff to reduce server load
-   * @param jobId - The job's unique identifier
-   * @param maxRetries - Maximum number of polling attempts (default: 10)
-   * @returns Object with status, modelUrl, and optional error message
-   */
-  const pollJobStatus = useCallback(async (jobId: string, maxRetries = 10) => {
-    try {
-      // Poll with exponential backoff
-      for (let attempt = 0; attempt < maxRetries; attempt++) {
-        try {
-          // Check job status in database
-          const job = await ModelServiceSingleton.getJob(jobId);
-
-          if (!job) {
-            console.warn(`Job ${jobId} not found`);
-            // Exponential backoff: 1s, 2s, 4s, 8s, 16s, max 30s
-            const delay = Math.min(1000 * Math.pow(2, attempt), 30000);
-            await new Promise(resolve => setTimeout(resolve, delay));
-            continue;
-          }
-          
-          // Check if job has reached a terminal state
-          if (job.api_status === 'completed' || job.api_status === 'failed') {
-            // Retrieve associated model data
-            const model = await ModelServiceSingleton.getModelByJobId(jobId);
-            
-            if (model) {
-              return {
-                status: model.model_status === 'completed' ? 'completed' : 'failed',
-                modelUrl: model.model_url,
-                errorMessage: model.error_message || (model.model_status === 'failed' ? 'Model generation failed' : null)
-              };
-            } else {
-              // Model not yet created, continue polling
-              console.warn(`Model not found for job ${jobId}`);
-              return {
-                status: 'pending',
-                message: 'Model not created yet'
-              };
-            }
-          }
-          
-          // Job still processing, wait before next attempt
-          const delay = Math.min(1000 * Math.pow(2, attempt), 30000);
-          await new Promise(resolve => setTimeout(resolve, delay));
-
-        } catch (jobError) {
-          console.error(`Error checking job ${jobId} status:`, jobError);
-
-          // Handle specific error types gracefully
-          if (jobError && typeof jobError === 'object') {
-            // PGRST116: Model doesn't exist yet
-            if ('code' in jobError && (jobError as any).code === 'PGRST116') {
-              console.warn('PGRST116 error detected - model may not exist yet, continuing polling...');
-            }
-            // 406 Not Acceptable: Header/format issue
-            else if ('status' in jobError && (jobError as any).status === 406) {
-              console.warn('406 Not Acceptable error detected - retrying with proper headers...');
-            }
-          }
-
-          // Use exponential backoff and continue
-          const delay = Math.min(1000 * Math.pow(2, attempt), 30000);
-          await new Promise(resolve => setTimeout(resolve, delay));
-        }
-      }
-
-      throw new Error('Job status could not be determined after maximum retries');
-    } catch (error) {
-      console.error('Failed to poll job status:', error);
-      throw error;
-    }
-  }, []);
-
   // ==================== Model Creation ====================
   
   /**
@@ -409,9 +397,6 @@ export function useModelGeneration() {
     generate3DModel,
     retryModelGeneration,
 
-    // Status tracking
-    pollJobStatus,
-
     // Model management
     createModelDraft,
 
@@ -420,3 +405,28 @@ export function useModelGeneration() {
     isGenerating
   };
 }
+
+// ==================== Helpers ====================
+
+/**
+ * Downloads an already uploaded image so it can be processed locally
+ * Used when a view has no local file (e.g. a draft restored from storage)
+ */
+async function fetchImageAsFile(url: string, fileName: string): Promise<File> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch image: ${response.statusText}`);
+  }
+  const blob = await response.blob();
+  return new File([blob], fileName, { type: blob.type || 'image/png' });
+}
+
+/**
+ * Thrown when the server refuses a generation because the model already has one running
+ */
+class GenerationInProgressError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GenerationInProgressError';
+  }
+}
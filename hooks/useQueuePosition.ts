@@ -0,0 +1,63 @@
+"use client"
+
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+
+// Queue positions change as other users' jobs are released, so they are polled
+const QUEUE_POLL_INTERVAL = 15000;
+
+export interface QueueInfo {
+  position: number;
+  etaSeconds: number;
+}
+
+/**
+ * Polls the queue position and ETA of a pending job
+ * @param jobId - Job to track
+ * @param isPending - Poll only while the job is waiting in the queue
+ */
+export function useQueuePosition(jobId: string | null, isPending: boolean) {
+  const [queueInfo, setQueueInfo] = useState<QueueInfo | null>(null);
+
+  useEffect(() => {
+    if (!jobId || !isPending) {
+      setQueueInfo(null);
+      return;
+    }
+
+    let stopped = false;
+
+    const fetchPosition = async () => {
+      try {
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return;
+
+        const response = await fetch(`/api/jobs/queue?job_id=${encodeURIComponent(jobId)}`, {
+          headers: {
+            'Authorization': `Bearer ${session.access_token}`
+          }
+        });
+        if (!response.ok) return;
+
+        const data = await response.json();
+        if (stopped) return;
+
+        setQueueInfo(data.position !== null
+          ? { position: data.position, etaSeconds: data.eta_seconds }
+          : null);
+      } catch (error) {
+        console.error('Error fetching queue position:', error);
+      }
+    };
+
+    fetchPosition();
+    const interval = setInterval(fetchPosition, QUEUE_POLL_INTERVAL);
+
+    return () => {
+      stopped = true;
+      clearInterval(interval);
+    };
+  }, [jobId, isPending]);
+
+  return queueInfo;
+}
@@ -0,0 +1,49 @@
+import { NextRequest } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+
+/**
+ * Admin access
+ * Admins are the users listed in ADMIN_USER_IDS (comma-separated auth user IDs)
+ */
+
+/**
+ * Checks whether a user ID is configured as admin
+ */
+export function isAdminUserId(userId: string): boolean {
+  const adminIds = (process.env.ADMIN_USER_IDS || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+
+  return adminIds.includes(userId);
+}
+
+/**
+ * Resolves the caller from the Bearer token and returns it only if it is an admin
+ * @returns The admin user, or null when unauthenticated or not an admin
+ */
+export async function getAdminUser(request: NextRequest) {
+  const authHeader = request.headers.get('Authorization');
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null;
+  }
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      global: {
+        headers: {
+          Authorization: authHeader
+        }
+      }
+    }
+  );
+
+  const { data: { user }, error } = await supabase.auth.getUser();
+  if (error || !user || !isAdminUserId(user.id)) {
+    return null;
+  }
+
+  return user;
+}
@@ -0,0 +1,251 @@
+/**
+ * Batch photo sets
+ * Groups many uploaded photos into per-model sets of front/back/left/right views,
+ * either by filename convention or by a manifest. Shared by the batch UI and API.
+ */
+
+export const BATCH_VIEWS = ['front', 'back', 'left', 'right'] as const;
+
+export type BatchView = typeof BATCH_VIEWS[number];
+
+// Largest number of photo sets accepted in one batch
+export const MAX_BATCH_SETS = 50;
+
+// One model's photos; T is a File in the browser and a URL once uploaded
+export interface BatchPhotoSet<T> {
+  name: string;
+  views: Partial<Record<BatchView, T>>;
+}
+
+export interface BatchGrouping<T> {
+  sets: BatchPhotoSet<T>[];
+  errors: string[];  // Problems that leave a photo or set out of the batch
+}
+
+// One manifest row: set name, the filename (or URL) of each view, and optional preset and tags
+export interface BatchManifestEntry {
+  name: string;
+  front?: string;
+  back?: string;
+  left?: string;
+  right?: string;
+  preset?: string;
+  tags?: string[];
+}
+
+// "<set>_<view>.<ext>", "<set>-<view>.<ext>" or "<set> <view>.<ext>", view in any case
+const FILENAME_PATTERN = /^(.+?)[\s_-]+(front|back|left|right)\.[a-z0-9]+$/i;
+
+/**
+ * Groups files by filename convention, e.g. "sku-123_front.jpg" and "sku-123_left.jpg"
+ * Sets without a front view are reported and left out
+ */
+export function groupByFilename<T extends { name: string }>(files: T[]): BatchGrouping<T> {
+  const sets = new Map<string, BatchPhotoSet<T>>();
+  const errors: string[] = [];
+
+  for (const file of files) {
+    const match = file.name.match(FILENAME_PATTERN);
+    if (!match) {
+      errors.push(`${file.name}: name must end in _front, _back, _left or _right`);
+      continue;
+    }
+
+    const setName = match[1].trim();
+    const view = match[2].toLowerCase() as BatchView;
+    const set = sets.get(setName) ?? { name: setName, views: {} };
+
+    if (set.views[view]) {
+      errors.push(`${file.name}: set "${setName}" already has a ${view} photo`);
+      continue;
+    }
+
+    set.views[view] = file;
+    sets.set(setName, set);
+  }
+
+  return finalizeGrouping(Array.from(sets.values()), errors);
+}
+
+/**
+ * Groups files by a manifest that names the file for each view of each set
+ * Files are matched by name, ignoring case
+ */
+export function groupByManifest<T extends { name: string }>(
+  files: T[],
+  manifest: BatchManifestEntry[]
+): BatchGrouping<T> {
+  const filesByName = new Map(files.map(file => [file.name.toLowerCase(), file]));
+  const sets: BatchPhotoSet<T>[] = [];
+  const errors: string[] = [];
+
+  for (const entry of manifest) {
+    const set: BatchPhotoSet<T> = { name: entry.name, views: {} };
+
+    for (const view of BATCH_VIEWS) {
+      const fileName = entry[view];
+      if (!fileName) continue;
+
+      const file = filesByName.get(fileName.toLowerCase());
+      if (!file) {
+        errors.push(`${entry.name}: ${view} photo "${fileName}" was not uploaded`);
+        continue;
+      }
+      set.views[view] = file;
+    }
+
+    sets.push(set);
+  }
+
+  return finalizeGrouping(sets, errors);
+}
+
+/**
+ * Parses a manifest in JSON (an array of entries, or { sets: [...] }) or CSV
+ * (header row with name and any of front, back, left, right, preset, tags)
+ * Tags are an array in JSON and separated by ";" or "|" in CSV
+ * @throws Error if the manifest cannot be read
+ */
+export function parseBatchManifest(text: string): BatchManifestEntry[] {
+  const trimmed = text.trim();
+  const rows = trimmed.startsWith('[') || trimmed.startsWith('{')
+    ? parseJsonRows(trimmed)
+    : parseCsvRows(trimmed);
+
+  return normalizeManifestRows(rows);
+}
+
+/**
+ * Validates already-structured manifest rows, e.g. from a JSON request body
+ * @throws Error if a row has no name
+ */
+export function normalizeManifestRows(rows: Record<string, unknown>[]): BatchManifestEntry[] {
+  return rows.map((row, index) => {
+    const name = String(row.name ?? '').trim();
+    if (!name) {
+      throw new Error(`Manifest row ${index + 1} has no name`);
+    }
+
+    const entry: BatchManifestEntry = { name };
+    for (const view of BATCH_VIEWS) {
+      const value = row[view];
+      if (value !== undefined && value !== null && String(value).trim()) {
+        entry[view] = String(value).trim();
+      }
+    }
+
+    if (row.preset !== undefined && row.preset !== null && String(row.preset).trim()) {
+      entry.preset = String(row.preset).trim();
+    }
+    const tags = parseTags(row.tags);
+    if (tags.length > 0) {
+      entry.tags = tags;
+    }
+    return entry;
+  });
+}
+
+// ==================== HELPER FUNCTIONS ====================
+
+/**
+ * Drops sets without a front view, flags duplicate names and enforces the batch size
+ */
+function finalizeGrouping<T>(sets: BatchPhotoSet<T>[], errors: string[]): BatchGrouping<T> {
+  const seen = new Set<string>();
+  const valid: BatchPhotoSet<T>[] = [];
+
+  for (const set of sets) {
+    if (!set.views.front) {
+      errors.push(`${set.name}: a front photo is required`);
+      continue;
+    }
+    if (seen.has(set.name)) {
+      errors.push(`${set.name}: set name is used more than once`);
+      continue;
+    }
+    seen.add(set.name);
+    valid.push(set);
+  }
+
+  if (valid.length > MAX_BATCH_SETS) {
+    errors.push(`Only the first ${MAX_BATCH_SETS} sets fit in one batch`);
+  }
+
+  return { sets: valid.slice(0, MAX_BATCH_SETS), errors };
+}
+
+/**
+ * Normalizes tags given as an array or a ";"/"|"-separated string, dropping blanks and duplicates
+ */
+function parseTags(value: unknown): string[] {
+  const raw = Array.isArray(value)
+    ? value.map(tag => String(tag))
+    : typeof value === 'string' ? value.split(/[;|]/) : [];
+
+  return Array.from(new Set(raw.map(tag => tag.trim()).filter(Boolean)));
+}
+
+function parseJsonRows(text: string): Record<string, unknown>[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Manifest is not valid JSON');
+  }
+
+  const rows = Array.isArray(parsed) ? parsed : (parsed as { sets?: unknown })?.sets;
+  if (!Array.isArray(rows)) {
+    throw new Error('JSON manifest must be an array of sets or { "sets": [...] }');
+  }
+  return rows as Record<string, unknown>[];
+}
+
+function parseCsvRows(text: string): Record<string, string>[] {
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  if (lines.length < 2) {
+    throw new Error('CSV manifest needs a header row and at least one set');
+  }
+
+  const header = splitCsvLine(lines[0]).map(column => column.toLowerCase());
+  if (!header.includes('name')) {
+    throw new Error('CSV manifest needs a "name" column');
+  }
+
+  return lines.slice(1).map(line => {
+    const cells = splitCsvLine(line);
+    return Object.fromEntries(header.map((column, i) => [column, cells[i] ?? '']));
+  });
+}
+
+/**
+ * Splits one CSV line, honoring double-quoted cells with "" escapes
+ */
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  cells.push(cell.trim());
+  return cells;
+}
@@ -0,0 +1,310 @@
+import { lookup } from 'dns/promises';
+import http, { type IncomingMessage } from 'http';
+import https from 'https';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import { r2Service } from '@/lib/r2';
+
+/**
+ * Remote image import
+ * Fetches photos named by URL in an import manifest and copies them into the R2 photos bucket.
+ * Only public http(s) hosts are contacted (checked on the address actually connected to),
+ * every redirect is re-checked, and responses are capped in size and must actually be
+ * JPEG, PNG or WebP images.
+ */
+
+// Largest image accepted from a remote URL
+export const MAX_REMOTE_IMAGE_BYTES = 10 * 1024 * 1024;
+
+// Time allowed for one image, including redirects
+const FETCH_TIMEOUT_MS = 15000;
+
+const MAX_REDIRECTS = 3;
+
+// Detected from the first bytes; the Content-Type header alone is not trusted
+const IMAGE_SIGNATURES: { contentType: string; extension: string; matches: (bytes: Uint8Array) => boolean }[] = [
+  {
+    contentType: 'image/jpeg',
+    extension: 'jpg',
+    matches: bytes => bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff
+  },
+  {
+    contentType: 'image/png',
+    extension: 'png',
+    matches: bytes => bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47
+  },
+  {
+    contentType: 'image/webp',
+    extension: 'webp',
+    matches: bytes => ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 12) === 'WEBP'
+  }
+];
+
+/**
+ * Downloads an image from a public URL and stores it in the photos bucket
+ * @param url - Image URL from the manifest
+ * @param prefix - Key prefix inside the bucket
+ * @returns Public URL and key of the stored copy
+ * @throws RemoteImageError if the URL is not allowed or does not return a usable image
+ */
+export async function importRemoteImage(url: string, prefix = 'imported') {
+  const { bytes, contentType, extension } = await fetchRemoteImage(url);
+  const key = r2Service.generateKey(prefix, `image.${extension}`);
+  return r2Service.uploadFile('photos', key, Buffer.from(bytes), contentType);
+}
+
+/**
+ * Fetches an image, following redirects manually so each hop is checked
+ * Connections go to the address that passed the check (see publicLookup), so a host
+ * cannot resolve to a public address for the check and a private one for the request.
+ */
+export async function fetchRemoteImage(url: string) {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+  try {
+    let currentUrl = url;
+
+    for (let redirects = 0; ; redirects++) {
+      const target = assertPublicUrl(currentUrl);
+      const response = await requestImage(target, controller.signal);
+      const status = response.statusCode ?? 0;
+
+      if (status >= 300 && status < 400) {
+        response.resume();
+        const location = response.headers.location;
+        if (!location) {
+          throw new RemoteImageError(`Redirect without a location from ${target.host}`);
+        }
+        if (redirects >= MAX_REDIRECTS) {
+          throw new RemoteImageError('Too many redirects');
+        }
+        currentUrl = new URL(location, target).toString();
+        continue;
+      }
+
+      if (status < 200 || status >= 300) {
+        response.resume();
+        throw new RemoteImageError(`Image request failed with status ${status}`);
+      }
+
+      const declaredType = response.headers['content-type'] ?? '';
+      if (declaredType && !/^(image\/|application\/octet-stream)/i.test(declaredType)) {
+        response.resume();
+        throw new RemoteImageError(`URL does not point to an image (${declaredType.split(';')[0]})`);
+      }
+
+      const bytes = await readLimitedBody(response);
+      const signature = IMAGE_SIGNATURES.find(candidate => candidate.matches(bytes));
+      if (!signature) {
+        throw new RemoteImageError('Only JPEG, PNG and WebP images are supported');
+      }
+
+      return { bytes, contentType: signature.contentType, extension: signature.extension };
+    }
+  } catch (error) {
+    if (error instanceof RemoteImageError) throw error;
+    if (controller.signal.aborted) {
+      throw new RemoteImageError(`Image download timed out after ${FETCH_TIMEOUT_MS / 1000}s`);
+    }
+    throw new RemoteImageError(
+      `Image download failed: ${error instanceof Error ? error.message : 'unknown error'}`
+    );
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * True for loopback, private, link-local, carrier-grade NAT, documentation, multicast and
+ * reserved addresses, including IPv4 addresses embedded in IPv6 (mapped, compatible, NAT64)
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return true;
+
+  const ipv4 = family === 4 ? address : getEmbeddedIPv4(address);
+  if (ipv4) {
+    return PRIVATE_ADDRESSES.check(ipv4, 'ipv4');
+  }
+  return PRIVATE_ADDRESSES.check(address, 'ipv6');
+}
+
+// ==================== HELPER FUNCTIONS ====================
+
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 3]           // multicast and reserved (224.0.0.0 - 255.255.255.255)
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],             // unique local
+  ['fe80::', 10],            // link-local
+  ['ff00::', 8],             // multicast
+  ['2001:db8::', 32]         // documentation
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Rejects non-http(s) URLs, embedded credentials and private IP literals
+ * Host names are checked when they are resolved for the connection (see publicLookup)
+ */
+function assertPublicUrl(value: string): URL {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new RemoteImageError('Invalid image URL');
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new RemoteImageError('Image URLs must use http or https');
+  }
+  if (url.username || url.password) {
+    throw new RemoteImageError('Image URLs must not contain credentials');
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(hostname) && isPrivateAddress(hostname)) {
+    throw new RemoteImageError(`${hostname} is not a public host`);
+  }
+
+  return url;
+}
+
+/**
+ * DNS lookup for image requests: every resolved address must be public, and the socket
+ * connects to the checked addresses only
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { all: true, verbatim: true })
+    .then(entries => {
+      if (entries.length === 0 || entries.some(entry => isPrivateAddress(entry.address))) {
+        throw new RemoteImageError(`${hostname} is not a public host`);
+      }
+      if (options.all) {
+        callback(null, entries);
+      } else {
+        callback(null, entries[0].address, entries[0].family);
+      }
+    })
+    .catch(error => {
+      callback(error instanceof RemoteImageError ? error : new RemoteImageError(`Could not resolve ${hostname}`), '', 0);
+    });
+};
+
+/**
+ * Sends one GET request for an image without following redirects
+ */
+function requestImage(url: URL, signal: AbortSignal): Promise<IncomingMessage> {
+  const client = url.protocol === 'https:' ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const request = client.get(url, {
+      lookup: publicLookup,
+      signal,
+      headers: { 'Accept': 'image/jpeg,image/png,image/webp' }
+    }, resolve);
+    request.on('error', reject);
+  });
+}
+
+/**
+ * Returns the IPv4 address carried in an IPv4-mapped (::ffff:0:0/96), IPv4-compatible
+ * (::/96) or NAT64 (64:ff9b::/96, 64:ff9b:1::/48) IPv6 address, if any
+ */
+function getEmbeddedIPv4(address: string): string | null {
+  const groups = expandIPv6(address);
+  if (!groups) return null;
+
+  const isZero = (from: number, to: number) => groups.slice(from, to).every(group => group === 0);
+  const embedded =
+    (isZero(0, 5) && (groups[5] === 0xffff || groups[5] === 0))
+    || (groups[0] === 0x64 && groups[1] === 0xff9b && isZero(2, 6))
+    || (groups[0] === 0x64 && groups[1] === 0xff9b && groups[2] === 1);
+
+  if (!embedded) return null;
+  return [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join('.');
+}
+
+/**
+ * Expands an IPv6 address into its eight 16-bit groups
+ */
+function expandIPv6(address: string): number[] | null {
+  let value = address.toLowerCase().split('%')[0];
+
+  // A dotted IPv4 tail becomes the last two groups
+  const dotted = value.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted[2].split('.').map(Number);
+    value = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail] = value.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+  if (value.includes('::') ? missing < 0 : missing !== 0) return null;
+
+  const groups = [...headGroups, ...Array(missing).fill('0'), ...tailGroups].map(group => parseInt(group, 16));
+  return groups.every(group => Number.isInteger(group) && group >= 0 && group <= 0xffff) ? groups : null;
+}
+
+/**
+ * Reads the response body, aborting once it grows past the size limit
+ */
+async function readLimitedBody(response: IncomingMessage): Promise<Uint8Array> {
+  const declaredLength = Number(response.headers['content-length']);
+  if (declaredLength > MAX_REMOTE_IMAGE_BYTES) {
+    response.destroy();
+    throw new RemoteImageError(`Image is larger than ${MAX_REMOTE_IMAGE_BYTES / 1024 / 1024}MB`);
+  }
+
+  const chunks: Buffer[] = [];
+  let total = 0;
+
+  for await (const chunk of response) {
+    total += chunk.byteLength;
+    if (total > MAX_REMOTE_IMAGE_BYTES) {
+      response.destroy();
+      throw new RemoteImageError(`Image is larger than ${MAX_REMOTE_IMAGE_BYTES / 1024 / 1024}MB`);
+    }
+    chunks.push(chunk);
+  }
+
+  if (total === 0) {
+    throw new RemoteImageError('Image response was empty');
+  }
+  return new Uint8Array(Buffer.concat(chunks, total));
+}
+
+function ascii(bytes: Uint8Array, start: number, end: number) {
+  return String.fromCharCode(...bytes.subarray(start, end));
+}
+
+// ==================== CUSTOM ERROR CLASSES ====================
+
+/**
+ * Error for a manifest image URL that cannot be imported; the message is shown per row
+ */
+export class RemoteImageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RemoteImageError';
+  }
+}
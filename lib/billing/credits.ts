@@ -0,0 +1,357 @@
+import { supabaseServer } from '@/lib/supabase-server';
+import type { TransactionType } from '@/types/models';
+import { FREE_MODELS_PER_MONTH } from './free-tier';
+
+/**
+ * Server-side credit ledger
+ * Every balance change is one call to the apply_credit_change database function, which
+ * locks the billing row, updates user_billing.credits and writes the user_transactions
+ * row together, so the balance always equals the sum of the user's transactions.
+ * Balances are never written anywhere else (clients only have read access).
+ * Job refunds reference their job and are applied at most once per job.
+ * Free generations of the monthly free tier (see free-tier.ts) are used before credits;
+ * generation routes pay through chargeGenerations so every route applies that order.
+ * Usage spends plan credits (see plans.ts) before purchased ones; each charge remembers
+ * its plan share so a refund puts plan credits back where they came from.
+ */
+
+export interface CreditChange {
+  transactionId: string;
+  balance: number;
+  applied: boolean;  // False when the job was already refunded and nothing changed
+  planCredits: number;  // Part of the change taken from (negative) or returned to plan credits
+}
+
+// Job fields needed to refund its charge
+export interface RefundableJob {
+  id: string;
+  user_id: string;
+  credits_charged?: number | null;
+  free_model?: boolean | null;  // Covered by the free tier; the free model is given back instead
+}
+
+export interface FreeModelUse {
+  applied: boolean;        // False when this month's free models are used up
+  usedThisMonth: number;
+}
+
+// How one generation was paid for
+export interface GenerationCharge {
+  freeModel: boolean;  // Covered by a free model of the monthly free tier
+  credits: number;     // Credits charged (0 for a free model)
+  planCredits: number; // Part of those credits taken from the plan allowance
+}
+
+export interface LedgerDiscrepancy {
+  user_id: string;
+  balance: number;
+  ledger_total: number;
+  difference: number;
+}
+
+export const creditService = {
+  /**
+   * Deducts credits atomically; the whole amount is charged or nothing is
+   * @param userId - Owner of the billing record
+   * @param credits - Number of credits to deduct
+   * @param description - Reason shown in the transaction history
+   * @returns The applied change, with the balance after the charge and the plan credits it spent
+   * @throws InsufficientCreditsError if the balance is too low
+   */
+  async chargeCredits(userId: string, credits: number, description: string) {
+    console.log(`💳 Charging ${credits} credit(s) to user:`, userId);
+    return applyCreditChange(userId, -credits, 'usage', description);
+  },
+
+  /**
+   * Pays for generations the way every generation route must: free models of this month
+   * first, then the rest charged as credits in one all-or-nothing charge
+   * If the credits cannot be charged, the free models used are given back
+   * @param userId - Owner of the billing record
+   * @param count - Number of generations
+   * @param credits - Price of one generation
+   * @param description - Usage text shown in the transaction history
+   * @returns One charge per generation, free ones first; pass each to its enqueued job
+   * @throws InsufficientCreditsError if the balance cannot cover the paid generations
+   */
+  async chargeGenerations(userId: string, count: number, credits: number, description: string): Promise<GenerationCharge[]> {
+    const charges: GenerationCharge[] = [];
+
+    while (charges.length < count) {
+      const { applied } = await this.useFreeModel(userId, credits, description);
+      if (!applied) break;
+      charges.push({ freeModel: true, credits: 0, planCredits: 0 });
+    }
+
+    const paidCount = count - charges.length;
+    if (paidCount > 0) {
+      let change: CreditChange;
+      try {
+        change = await this.chargeCredits(userId, paidCount * credits, description);
+      } catch (error) {
+        await this.releaseGenerationCharges(userId, charges, 'Refund: generation could not be started');
+        throw error;
+      }
+
+      // The plan credits spent are assigned to the first paid generations
+      let planCreditsLeft = -change.planCredits;
+      for (let i = 0; i < paidCount; i++) {
+        const planCredits = Math.min(credits, planCreditsLeft);
+        planCreditsLeft -= planCredits;
+        charges.push({ freeModel: false, credits, planCredits });
+      }
+    }
+
+    return charges;
+  },
+
+  /**
+   * Gives back what generations that never got a job were charged: free models are
+   * returned to this month's free tier, credits are refunded in one transaction
+   * Failures are logged, not thrown, since this runs on error paths
+   * @param description - Refund reason shown in the transaction history
+   */
+  async releaseGenerationCharges(userId: string, charges: GenerationCharge[], description: string) {
+    for (const charge of charges.filter(charge => charge.freeModel)) {
+      try {
+        await this.returnFreeModel(userId);
+      } catch (error) {
+        console.error('❌ Failed to return free model:', error);
+      }
+    }
+
+    const refundCredits = charges.reduce((sum, charge) => sum + charge.credits, 0);
+    const refundPlanCredits = charges.reduce((sum, charge) => sum + charge.planCredits, 0);
+    if (refundCredits > 0) {
+      try {
+        await this.refundCredit(userId, description, refundCredits, refundPlanCredits);
+      } catch (error) {
+        console.error(`❌ Failed to refund ${refundCredits} credit(s):`, error);
+      }
+    }
+  },
+
+  /**
+   * Returns credits to a user for a generation that will not produce a model
+   * @param userId - Owner of the billing record
+   * @param description - Reason shown in the transaction history
+   * @param credits - Number of credits to return (default 1)
+   * @param planCredits - Part of them that was taken from plan credits and goes back there
+   */
+  async refundCredit(userId: string, description: string, credits = 1, planCredits = 0) {
+    console.log(`💸 Refunding ${credits} credit(s) to user:`, userId);
+    return applyCreditChange(userId, credits, 'refund', description, { planCredits });
+  },
+
+  /**
+   * Refunds what a job was charged, at most once per job
+   * The refund references the job and its model; repeating it returns the original
+   * transaction with applied=false and leaves the balance alone
+   * A job covered by the free tier gets its free model back instead of credits, and the
+   * plan credits a job spent go back to plan credits
+   * @param job - Job that will never produce a model
+   * @param description - Reason shown in the transaction history
+   */
+  async refundJob(job: RefundableJob, description: string): Promise<CreditChange> {
+    if (job.free_model) {
+      console.log(`💸 Returning free model for job ${job.id} to user:`, job.user_id);
+      const applied = await returnFreeModel(job.user_id, job.id);
+      return { transactionId: '', balance: NaN, applied, planCredits: 0 };
+    }
+
+    const credits = job.credits_charged ?? 1;
+    console.log(`💸 Refunding ${credits} credit(s) for job ${job.id} to user:`, job.user_id);
+    return applyCreditChange(job.user_id, credits, 'refund', description, { jobId: job.id });
+  },
+
+  /**
+   * Covers a generation with one of this month's free models, if any are left
+   * Records an award and a usage of the generation's price, so the balance is unchanged
+   * @param userId - Owner of the billing record
+   * @param credits - Price of the generation
+   * @param description - Usage text shown in the transaction history
+   */
+  async useFreeModel(userId: string, credits: number, description: string): Promise<FreeModelUse> {
+    const { data, error } = await supabaseServer
+      .rpc('use_free_model', {
+        p_user_id: userId,
+        p_credits: credits,
+        p_monthly_quota: FREE_MODELS_PER_MONTH,
+        p_description: description
+      })
+      .single<{ applied: boolean; used_this_month: number }>();
+
+    if (error) {
+      throw new Error(`Failed to use free model: ${error.message}`);
+    }
+
+    if (data.applied) {
+      console.log(`🆓 Free model ${data.used_this_month}/${FREE_MODELS_PER_MONTH} used by user:`, userId);
+    }
+    return { applied: data.applied, usedThisMonth: data.used_this_month };
+  },
+
+  /**
+   * Gives back a free model whose generation could not be started
+   */
+  async returnFreeModel(userId: string) {
+    console.log('💸 Returning free model to user:', userId);
+    return returnFreeModel(userId, null);
+  },
+
+  /**
+   * Starts the free-tier count over for accounts still counting an earlier month
+   * @returns Number of accounts reset
+   */
+  async resetFreeModels(): Promise<number> {
+    const { data, error } = await supabaseServer.rpc('reset_free_models');
+
+    if (error) {
+      throw new Error(`Failed to reset free models: ${error.message}`);
+    }
+    return Number(data ?? 0);
+  },
+
+  /**
+   * Grants free credits (promotions, plan allowances)
+   * @param userId - Owner of the billing record
+   * @param credits - Number of credits to grant
+   * @param description - Reason shown in the transaction history
+   */
+  async awardCredits(userId: string, credits: number, description: string) {
+    console.log(`🎁 Awarding ${credits} credit(s) to user:`, userId);
+    return applyCreditChange(userId, credits, 'award', description);
+  },
+
+  /**
+   * Reads a user's billing record, creating an empty one on first use
+   * New accounts start without credits and generate through the free tier
+   */
+  async getOrCreateBilling(userId: string): Promise<{ credits: number; total_models_generated: number }> {
+    const { data, error } = await supabaseServer
+      .from('user_billing')
+      .select('credits, total_models_generated')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch user credits: ${error.message}`);
+    }
+    if (data) return data;
+
+    console.log('ℹ️ No billing record found, creating one with default credits');
+    const { data: created, error: createError } = await supabaseServer
+      .from('user_billing')
+      .upsert(
+        { id: userId, credits: 0, total_models_generated: 0 },
+        { onConflict: 'id', ignoreDuplicates: true }
+      )
+      .select('credits, total_models_generated')
+      .maybeSingle();
+
+    if (createError) {
+      throw new Error(`Failed to create user billing record: ${createError.message}`);
+    }
+
+    // A concurrent request created the record first
+    return created ?? this.getOrCreateBilling(userId);
+  },
+
+  /**
+   * Lists accounts whose balance differs from the sum of their transactions
+   * An empty list means the ledger is consistent
+   */
+  async findLedgerDiscrepancies(limit = 100): Promise<LedgerDiscrepancy[]> {
+    const { data, error } = await supabaseServer
+      .from('credit_ledger_discrepancies')
+      .select('user_id, balance, ledger_total, difference')
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to reconcile credit ledger: ${error.message}`);
+    }
+
+    return (data ?? []).map(row => ({
+      user_id: row.user_id,
+      balance: Number(row.balance),
+      ledger_total: Number(row.ledger_total),
+      difference: Number(row.difference)
+    }));
+  }
+};
+
+// ==================== HELPER FUNCTIONS ====================
+
+/**
+ * Applies a signed credit change and records its transaction in one database call
+ */
+async function applyCreditChange(
+  userId: string,
+  credits: number,
+  type: TransactionType,
+  description: string,
+  {
+    amount = 0,
+    jobId = null,
+    modelId = null,
+    planCredits = null
+  }: { amount?: number; jobId?: string | null; modelId?: string | null; planCredits?: number | null } = {}
+): Promise<CreditChange> {
+  const { data, error } = await supabaseServer
+    .rpc('apply_credit_change', {
+      p_user_id: userId,
+      p_credits: credits,
+      p_type: type,
+      p_description: description,
+      p_amount: amount,
+      p_job_id: jobId,
+      p_model_id: modelId,
+      p_plan_credits: planCredits
+    })
+    .single<{ transaction_id: string; balance: number; applied: boolean; plan_credits: number }>();
+
+  if (error) {
+    // Lost a race with a concurrent refund of the same job (unique index on job refunds)
+    if (error.code === '23505' && type === 'refund' && jobId) {
+      return { transactionId: '', balance: NaN, applied: false, planCredits: 0 };
+    }
+    if (error.message?.startsWith('insufficient_credits')) {
+      throw new InsufficientCreditsError(`Insufficient credits: ${error.message.replace('insufficient_credits: ', '')}`);
+    }
+    throw new Error(`Failed to apply credit change: ${error.message}`);
+  }
+
+  return {
+    transactionId: data.transaction_id,
+    balance: Number(data.balance),
+    applied: data.applied,
+    planCredits: data.plan_credits ?? 0
+  };
+}
+
+/**
+ * Gives back a free model, for a job (at most once) or for a generation that never started
+ */
+async function returnFreeModel(userId: string, jobId: string | null): Promise<boolean> {
+  const { data, error } = await supabaseServer.rpc('return_free_model', {
+    p_user_id: userId,
+    p_job_id: jobId
+  });
+
+  if (error) {
+    throw new Error(`Failed to return free model: ${error.message}`);
+  }
+  return data === true;
+}
+
+// ==================== CUSTOM ERROR CLASSES ====================
+
+/**
+ * Error for a charge larger than the user's balance
+ */
+export class InsufficientCreditsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InsufficientCreditsError';
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Monthly free tier
+ * Each account gets FREE_MODELS_PER_MONTH free generations per calendar month (UTC),
+ * used before paid credits. user_billing.free_models_used counts the ones used in the
+ * month starting at free_models_period_start; a count from an earlier month is stale
+ * and means the whole quota is available again.
+ * Safe to import on the client (no server dependencies).
+ */
+
+export const FREE_MODELS_PER_MONTH = 3;
+
+export interface FreeTierUsage {
+  free_models_used?: number | null;
+  free_models_period_start?: string | null;
+}
+
+/**
+ * First day of the month (UTC) as YYYY-MM-DD, matching free_models_period_start
+ */
+export function getFreeTierPeriodStart(now = new Date()): string {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString().slice(0, 10);
+}
+
+/**
+ * When the free models start over
+ */
+export function getNextFreeTierReset(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
+
+/**
+ * Free generations still available this month
+ */
+export function getFreeModelsLeft(billing: FreeTierUsage, now = new Date()): number {
+  const isCurrentPeriod = billing.free_models_period_start?.slice(0, 10) === getFreeTierPeriodStart(now);
+  const used = isCurrentPeriod ? billing.free_models_used ?? 0 : 0;
+  return Math.max(FREE_MODELS_PER_MONTH - used, 0);
+}
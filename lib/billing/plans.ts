@@ -0,0 +1,77 @@
+import { supabaseServer } from '@/lib/supabase-server';
+import type { Plan } from '@/lib/supabase/types';
+
+/**
+ * Subscription plans
+ * A plan is bought through the payment checkout (see lib/payments) and then grants its
+ * monthly credit allowance through the credit ledger: the first month when the checkout
+ * completes, later months when the scheduled sweep runs renewDuePlans() and finds the
+ * provider's paid invoice for that month. Plans with credits_expire drop what is left of
+ * the previous allowance at each renewal.
+ */
+
+export interface PlanRenewal {
+  user_id: string;
+  plan_id: string;
+  outcome: 'renewed' | 'ended' | 'lapsed';  // 'ended': subscription canceled; 'lapsed': renewal never paid
+}
+
+export const planService = {
+  /**
+   * Plans that can be subscribed to, cheapest first
+   */
+  async listPlans(): Promise<Plan[]> {
+    const { data, error } = await supabaseServer
+      .from('plans')
+      .select('*')
+      .eq('active', true)
+      .order('sort_order', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch plans: ${error.message}`);
+    }
+    return data ?? [];
+  },
+
+  /**
+   * Looks up an active plan by ID
+   */
+  async getPlan(planId: string): Promise<Plan | null> {
+    const { data, error } = await supabaseServer
+      .from('plans')
+      .select('*')
+      .eq('id', planId)
+      .eq('active', true)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch plan: ${error.message}`);
+    }
+    return data;
+  },
+
+  /**
+   * Grants the monthly allowance of every due plan whose renewal invoice has been paid,
+   * one month per plan and run. Canceled plans end instead, and plans still unpaid after
+   * the grace period lapse; other due plans wait for their invoice.
+   * @param limit - Maximum number of accounts handled in this run
+   */
+  async renewDuePlans(limit = 100): Promise<PlanRenewal[]> {
+    const { data, error } = await supabaseServer.rpc('renew_due_plans', { p_limit: limit });
+
+    if (error) {
+      throw new Error(`Failed to renew plans: ${error.message}`);
+    }
+
+    const renewals: PlanRenewal[] = (data ?? []).map((row: { renewed_user_id: string; renewed_plan_id: string; outcome: PlanRenewal['outcome'] }) => ({
+      user_id: row.renewed_user_id,
+      plan_id: row.renewed_plan_id,
+      outcome: row.outcome
+    }));
+
+    if (renewals.length > 0) {
+      console.log(`📅 Renewed ${renewals.filter(r => r.outcome === 'renewed').length} plan(s), ended ${renewals.filter(r => r.outcome === 'ended').length}, lapsed ${renewals.filter(r => r.outcome === 'lapsed').length}`);
+    }
+    return renewals;
+  }
+};
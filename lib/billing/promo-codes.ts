@@ -0,0 +1,149 @@
+import crypto from 'crypto';
+import { supabaseServer } from '@/lib/supabase-server';
+import type { PromoCode, PromoCodeStats } from '@/lib/supabase/types';
+
+/**
+ * Promo codes
+ * Admin-created codes worth a number of credits. Redemption runs in the
+ * redeem_promo_code database function, which enforces expiry, the redemption limit and
+ * single use per user under a lock on the code and grants the credits as an 'award'.
+ */
+
+// Codes are stored upper-case; users may type them in any case
+const PROMO_CODE_PATTERN = /^[A-Z0-9_-]{4,32}$/;
+
+// Alphabet for generated codes, without characters that are easy to mix up (0/O, 1/I)
+const GENERATED_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const GENERATED_CODE_LENGTH = 8;
+
+export interface NewPromoCode {
+  code?: string;                    // Generated when omitted
+  credits: number;
+  description?: string | null;
+  expiresAt?: Date | null;          // Never expires when omitted
+  maxRedemptions?: number | null;   // Unlimited when omitted
+  singleUsePerUser?: boolean;       // Default true
+}
+
+export interface PromoRedemption {
+  transactionId: string;
+  credits: number;
+  balance: number;
+}
+
+export const promoCodeService = {
+  /**
+   * Redeems a code for a user
+   * @throws PromoCodeError if the code is unknown, inactive, expired, used up or already redeemed by the user
+   */
+  async redeem(userId: string, code: string): Promise<PromoRedemption> {
+    const normalized = normalizePromoCode(code);
+    if (!PROMO_CODE_PATTERN.test(normalized)) {
+      throw new PromoCodeError('invalid', 'This promo code is not valid');
+    }
+
+    const { data, error } = await supabaseServer
+      .rpc('redeem_promo_code', { p_user_id: userId, p_code: normalized })
+      .single<{ transaction_id: string; credits: number; balance: number }>();
+
+    if (error) {
+      const reason = error.message?.split(':')[0];
+      switch (reason) {
+        case 'promo_invalid':
+          throw new PromoCodeError('invalid', 'This promo code is not valid');
+        case 'promo_expired':
+          throw new PromoCodeError('expired', 'This promo code has expired');
+        case 'promo_exhausted':
+          throw new PromoCodeError('exhausted', 'This promo code has been fully redeemed');
+        case 'promo_already_redeemed':
+          throw new PromoCodeError('already_redeemed', 'You have already redeemed this promo code');
+      }
+      throw new Error(`Failed to redeem promo code: ${error.message}`);
+    }
+
+    console.log(`🎟️ Promo code ${normalized} redeemed for ${data.credits} credit(s) by user:`, userId);
+    return { transactionId: data.transaction_id, credits: data.credits, balance: Number(data.balance) };
+  },
+
+  /**
+   * Creates a code (admins only)
+   * @param createdBy - Admin user ID
+   * @throws PromoCodeError('invalid') for a malformed code, 'duplicate' if it already exists
+   */
+  async createCode(input: NewPromoCode, createdBy: string): Promise<PromoCode> {
+    const code = input.code ? normalizePromoCode(input.code) : generatePromoCode();
+    if (!PROMO_CODE_PATTERN.test(code)) {
+      throw new PromoCodeError('invalid', 'Codes are 4-32 letters, digits, dashes or underscores');
+    }
+
+    const { data, error } = await supabaseServer
+      .from('promo_codes')
+      .insert({
+        code,
+        credits: input.credits,
+        description: input.description ?? null,
+        expires_at: input.expiresAt?.toISOString() ?? null,
+        max_redemptions: input.maxRedemptions ?? null,
+        single_use_per_user: input.singleUsePerUser ?? true,
+        created_by: createdBy
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new PromoCodeError('duplicate', `Promo code ${code} already exists`);
+      }
+      throw new Error(`Failed to create promo code: ${error.message}`);
+    }
+
+    console.log(`🎟️ Promo code ${code} created for ${input.credits} credit(s) by admin:`, createdBy);
+    return data;
+  },
+
+  /**
+   * Lists codes with their redemption statistics, newest first (admins only)
+   */
+  async listCodeStats(limit = 100): Promise<PromoCodeStats[]> {
+    const { data, error } = await supabaseServer
+      .from('promo_code_stats')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch promo codes: ${error.message}`);
+    }
+
+    return (data ?? []).map(row => ({
+      ...row,
+      unique_users: Number(row.unique_users),
+      credits_awarded: Number(row.credits_awarded)
+    }));
+  }
+};
+
+// ==================== HELPER FUNCTIONS ====================
+
+function normalizePromoCode(code: string) {
+  return code.trim().toUpperCase();
+}
+
+function generatePromoCode() {
+  const bytes = crypto.randomBytes(GENERATED_CODE_LENGTH);
+  return Array.from(bytes, byte => GENERATED_CODE_ALPHABET[byte % GENERATED_CODE_ALPHABET.length]).join('');
+}
+
+// ==================== CUSTOM ERROR CLASSES ====================
+
+export type PromoCodeErrorReason = 'invalid' | 'expired' | 'exhausted' | 'already_redeemed' | 'duplicate';
+
+/**
+ * Error for a code that cannot be redeemed or created; the message is safe to show users
+ */
+export class PromoCodeError extends Error {
+  constructor(public reason: PromoCodeErrorReason, message: string) {
+    super(message);
+    this.name = 'PromoCodeError';
+  }
+}
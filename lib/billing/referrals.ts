@@ -0,0 +1,186 @@
+import crypto from 'crypto';
+import { supabaseServer } from '@/lib/supabase-server';
+import type { ReferralStatus } from '@/lib/supabase/types';
+import { creditService } from './credits';
+
+/**
+ * Referral program
+ * Each user shares a link with their referral code; a new account that signs up through
+ * it is recorded as a pending referral (claim_referral). When the referred user's first
+ * generation completes, award_referral grants both accounts credits as linked 'award'
+ * transactions. The database functions enforce the fraud guards: no self-referral, only
+ * new accounts, and one award per referrer and email domain per day.
+ */
+
+// Credits granted to each side when a referral is awarded
+export const REFERRER_CREDITS = 3;
+export const REFERRED_CREDITS = 3;
+
+// How long after signup an account can still claim a referral
+const REFERRAL_MAX_ACCOUNT_AGE = '7 days';
+
+const REFERRAL_CODE_PATTERN = /^[A-Z0-9]{4,32}$/;
+
+// Alphabet for referral codes, without characters that are easy to mix up (0/O, 1/I)
+const REFERRAL_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const REFERRAL_CODE_LENGTH = 8;
+
+export interface ReferralStats {
+  invited: number;        // Referrals waiting for the friend's first model
+  awarded: number;
+  creditsEarned: number;
+}
+
+export interface ClaimedReferral {
+  referralId: string;
+  referrerId: string;
+  status: ReferralStatus;
+}
+
+export type ReferralAwardOutcome = 'awarded' | 'rejected' | 'none';
+
+export const referralService = {
+  /**
+   * Returns the user's referral code, creating it on first use
+   */
+  async getReferralCode(userId: string): Promise<string> {
+    await creditService.getOrCreateBilling(userId);
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const { data, error } = await supabaseServer
+        .from('user_billing')
+        .select('referral_code')
+        .eq('id', userId)
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to fetch referral code: ${error.message}`);
+      }
+      if (data.referral_code) return data.referral_code;
+
+      // Only fills an empty code, so concurrent requests end up with the same one
+      const { error: updateError } = await supabaseServer
+        .from('user_billing')
+        .update({ referral_code: generateReferralCode() })
+        .eq('id', userId)
+        .is('referral_code', null);
+
+      // 23505: the generated code belongs to someone else; try another
+      if (updateError && updateError.code !== '23505') {
+        throw new Error(`Failed to create referral code: ${updateError.message}`);
+      }
+    }
+
+    throw new Error('Failed to create referral code: no unique code found');
+  },
+
+  /**
+   * Counts the user's referrals and the credits they earned
+   */
+  async getReferralStats(userId: string): Promise<ReferralStats> {
+    const { data, error } = await supabaseServer
+      .from('referrals')
+      .select('status')
+      .eq('referrer_id', userId);
+
+    if (error) {
+      throw new Error(`Failed to fetch referrals: ${error.message}`);
+    }
+
+    const invited = (data ?? []).filter(row => row.status === 'pending').length;
+    const awarded = (data ?? []).filter(row => row.status === 'awarded').length;
+    return { invited, awarded, creditsEarned: awarded * REFERRER_CREDITS };
+  },
+
+  /**
+   * Records that a new account signed up through a referral link
+   * Claiming again returns the existing referral
+   * @param referredUserId - The new account
+   * @param code - Referral code from the link
+   * @throws ReferralError if the code is unknown, belongs to the same person or the account is not new
+   */
+  async claimReferral(referredUserId: string, code: string): Promise<ClaimedReferral> {
+    const normalized = code.trim().toUpperCase();
+    if (!REFERRAL_CODE_PATTERN.test(normalized)) {
+      throw new ReferralError('invalid', 'This referral link is not valid');
+    }
+
+    const { data, error } = await supabaseServer
+      .rpc('claim_referral', {
+        p_referred_user_id: referredUserId,
+        p_code: normalized,
+        p_max_account_age: REFERRAL_MAX_ACCOUNT_AGE
+      })
+      .maybeSingle<{ referral_id: string; referrer_id: string; status: ReferralStatus }>();
+
+    if (error) {
+      const reason = error.message?.split(':')[0];
+      switch (reason) {
+        case 'referral_invalid':
+          throw new ReferralError('invalid', 'This referral link is not valid');
+        case 'referral_self':
+          throw new ReferralError('self', 'You cannot use your own referral link');
+        case 'referral_not_new':
+          throw new ReferralError('not_new', 'Referral links only apply to new accounts');
+      }
+      throw new Error(`Failed to claim referral: ${error.message}`);
+    }
+
+    // Lost a race with a concurrent claim for the same account
+    if (!data) {
+      return this.claimReferral(referredUserId, normalized);
+    }
+
+    if (data.status === 'pending') {
+      console.log(`🤝 User ${referredUserId} referred by user:`, data.referrer_id);
+    }
+    return { referralId: data.referral_id, referrerId: data.referrer_id, status: data.status };
+  },
+
+  /**
+   * Awards a pending referral of the given user, once their first generation has completed
+   * @param referredUserId - Owner of the completed generation
+   * @returns 'none' when the user has no pending referral
+   */
+  async awardReferral(referredUserId: string): Promise<ReferralAwardOutcome> {
+    const { data, error } = await supabaseServer
+      .rpc('award_referral', {
+        p_referred_user_id: referredUserId,
+        p_referrer_credits: REFERRER_CREDITS,
+        p_referred_credits: REFERRED_CREDITS
+      })
+      .single<{ referral_id: string | null; outcome: ReferralAwardOutcome }>();
+
+    if (error) {
+      throw new Error(`Failed to award referral: ${error.message}`);
+    }
+
+    if (data.outcome === 'awarded') {
+      console.log(`🎁 Referral ${data.referral_id} awarded for user:`, referredUserId);
+    } else if (data.outcome === 'rejected') {
+      console.warn(`⚠️ Referral ${data.referral_id} rejected: daily limit for the email domain reached`);
+    }
+    return data.outcome;
+  }
+};
+
+// ==================== HELPER FUNCTIONS ====================
+
+function generateReferralCode() {
+  const bytes = crypto.randomBytes(REFERRAL_CODE_LENGTH);
+  return Array.from(bytes, byte => REFERRAL_CODE_ALPHABET[byte % REFERRAL_CODE_ALPHABET.length]).join('');
+}
+
+// ==================== CUSTOM ERROR CLASSES ====================
+
+export type ReferralErrorReason = 'invalid' | 'self' | 'not_new';
+
+/**
+ * Error for a referral that cannot be claimed; the message is safe to show users
+ */
+export class ReferralError extends Error {
+  constructor(public reason: ReferralErrorReason, message: string) {
+    super(message);
+    this.name = 'ReferralError';
+  }
+}
@@ -1,4 +1,12 @@
 import Replicate from "replicate";
+import type {
+  GenerationInput,
+  GenerationProvider,
+  GenerationResult,
+  PredictionStatus
+} from "../generation/types";
+
+export type { PredictionStatus };
 
 export type FirtozTrellisInput = {
   images: string[]; // Array of image URLs
@@ -9,18 +17,46 @@ export type FirtozTrellisInput = {
   ss_sampling_steps?: number; // Sampling steps
 };
 
-export type PredictionStatus = "starting" | "processing" | "succeeded" | "failed" | "canceled";
-
 export type FirtozTrellisOutput = {
   id: string;
   status: PredictionStatus;
+  progress?: number; // Estimated from the prediction logs (0-100)
   output?: {
     model_file: string; // URL to generated GLB
+    gaussian_ply?: string; // URL to Gaussian PLY (only when save_gaussian_ply was set)
   };
   error?: string;
 };
 
-export class FirtozTrellisService {
+// Trellis prints one tqdm bar per sampling stage (sparse structure, then structured latents)
+const SAMPLING_STAGES = 2;
+
+// Progress shown until the prediction reports success (GLB export follows sampling)
+const MAX_LOG_PROGRESS = 95;
+
+/**
+ * Estimates progress from tqdm bars in the prediction logs, e.g. "Sampling:  40%|████  | 10/25"
+ * A bar whose percentage drops back marks the start of the next stage
+ */
+export function parseLogProgress(logs?: string | null): number | undefined {
+  if (!logs) return undefined;
+
+  const percentages = Array.from(logs.matchAll(/(\d{1,3})%\|/g), match => Number(match[1]));
+  if (percentages.length === 0) return undefined;
+
+  let completedStages = 0;
+  for (let i = 1; i < percentages.length; i++) {
+    if (percentages[i] < percentages[i - 1]) completedStages++;
+  }
+  const current = percentages[percentages.length - 1] / 100;
+
+  return Math.min(MAX_LOG_PROGRESS, Math.round(((completedStages + current) / SAMPLING_STAGES) * 100));
+}
+
+export class FirtozTrellisService implements GenerationProvider {
+  readonly name = 'firtoz-trellis' as const;
+  readonly supportsGaussianPly = true;
+  readonly supportsQualityPresets = true;
   private replicate: Replicate;
   private modelVersion = "e8f6c45206993f297372f5436b90350817bd9b4a0d52d2a76df50c1c8afa2b3c";
 
@@ -51,7 +87,8 @@ export class FirtozTrellisService {
       }
       // Only set events filter if webhook is provided
       if (options.webhook) {
-        options.webhook_events_filter = ["completed"];
+        // "start" marks when the prediction left Replicate's queue on the job timeline
+        options.webhook_events_filter = ["start", "completed"];
       }
     }
     
@@ -80,6 +117,7 @@ export class FirtozTrellisService {
       return {
         id: prediction.id,
         status: prediction.status as PredictionStatus,
+        progress: parseLogProgress(prediction.logs),
         output: prediction.output,
         error: prediction.error ? String(prediction.error) : undefined
       };
@@ -98,4 +136,48 @@ export class FirtozTrellisService {
       throw error;
     }
   }
+
+  async cancelPrediction(id: string): Promise<void> {
+    console.log(`Canceling Replicate prediction: ${id}`);
+    await this.replicate.predictions.cancel(id);
+  }
+
+  // ==================== GenerationProvider ====================
+
+  async createJob(input: GenerationInput): Promise<string> {
+    const { views, ...params } = input;
+
+    // Trellis takes a flat image list; keep the front view first
+    const images = [views.front, views.back, views.left, views.right]
+      .filter((url): url is string => Boolean(url));
+
+    return this.createPrediction({
+      images,
+      ...params,
+      generate_model: true
+    });
+  }
+
+  async getJobStatus(externalJobId: string): Promise<GenerationResult> {
+    return this.getPredictionStatus(externalJobId);
+  }
+
+  async cancelJob(externalJobId: string): Promise<void> {
+    return this.cancelPrediction(externalJobId);
+  }
+
+  normalizeOutput(payload: any): GenerationResult {
+    return {
+      id: payload.id,
+      status: payload.status as PredictionStatus,
+      progress: parseLogProgress(payload.logs),
+      ...(payload.output?.model_file && {
+        output: {
+          model_file: payload.output.model_file,
+          ...(payload.output.gaussian_ply && { gaussian_ply: payload.output.gaussian_ply })
+        }
+      }),
+      ...(payload.error && { error: String(payload.error) })
+    };
+  }
 }
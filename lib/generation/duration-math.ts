@@ -0,0 +1,160 @@
+/**
+ * Duration statistics and ETA maths
+ * The pure part of the generation ETAs: percentiles over finished jobs and the
+ * projection of a job's remaining time from its provider and preset's statistics.
+ * Loading and storing the statistics is left to durations.ts.
+ */
+
+// Progress below this is too early to extrapolate from
+const MIN_EXTRAPOLATION_PROGRESS = 10;
+
+export interface DurationStats {
+  provider: string;
+  quality_preset: string;
+  sample_size: number;
+  queue_wait_p50_seconds: number;
+  queue_wait_p90_seconds: number;
+  run_p50_seconds: number;
+  run_p90_seconds: number;
+  updated_at: string;
+}
+
+export interface RemainingEstimate {
+  stage: 'pending' | 'waiting' | 'running' | 'finished';
+  remaining_seconds: number | null;
+  remaining_p90_seconds: number | null;
+  sample_size: number;
+}
+
+// Fields of a jobs row needed for a remaining-time estimate
+export interface EstimableJob {
+  api_status: string;
+  provider?: string | null;
+  quality_preset?: string | null;
+  progress?: number | null;
+  created_at: string;
+  submitted_at?: string | null;
+  started_at?: string | null;
+  completed_at?: string | null;
+}
+
+// Timestamps of a completed job, as selected for the statistics
+export interface CompletedJobTimes {
+  provider?: string | null;
+  quality_preset?: string | null;
+  created_at: string;
+  submitted_at: string;
+  started_at?: string | null;
+  completed_at: string;
+}
+
+/**
+ * Nearest-rank percentile of a list of seconds
+ */
+export function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length) - 1;
+  return Math.round(sorted[Math.max(0, Math.min(sorted.length - 1, rank))]);
+}
+
+/**
+ * Computes p50/p90 provider queue-wait and run times per provider and preset
+ * submitted_at → started_at is the wait (zero when the start was not reported) and
+ * started_at → completed_at the run; jobs with impossible timestamps are skipped.
+ * Time spent in our own queue is left out: the current backlog is estimated separately
+ * (see getBacklogSeconds), so counting it here too would add it twice
+ * @param jobs - Completed jobs, newest first
+ * @param sampleSize - Jobs used at most per provider and preset
+ * @param updatedAt - Timestamp stored with the statistics
+ */
+export function summarizeDurations(
+  jobs: CompletedJobTimes[],
+  sampleSize: number,
+  updatedAt: string
+): DurationStats[] {
+  // Group by provider and preset, keeping the newest samples
+  const groups = new Map<string, { waits: number[]; runs: number[] }>();
+  for (const job of jobs) {
+    const key = `${job.provider ?? 'firtoz-trellis'}|${job.quality_preset ?? 'standard'}`;
+    const group = groups.get(key) ?? { waits: [], runs: [] };
+    if (group.runs.length >= sampleSize) continue;
+
+    const startedAt = new Date(job.started_at ?? job.submitted_at).getTime();
+    const wait = (startedAt - new Date(job.submitted_at).getTime()) / 1000;
+    const run = (new Date(job.completed_at).getTime() - startedAt) / 1000;
+    if (wait < 0 || run <= 0) continue;
+
+    group.waits.push(wait);
+    group.runs.push(run);
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.entries()).map(([key, group]) => {
+    const [provider, qualityPreset] = key.split('|');
+    return {
+      provider,
+      quality_preset: qualityPreset,
+      sample_size: group.runs.length,
+      queue_wait_p50_seconds: percentile(group.waits, 50),
+      queue_wait_p90_seconds: percentile(group.waits, 90),
+      run_p50_seconds: percentile(group.runs, 50),
+      run_p90_seconds: percentile(group.runs, 90),
+      updated_at: updatedAt
+    };
+  });
+}
+
+/**
+ * Projects the time left for a job from its statistics
+ * Running jobs that report progress are extrapolated from their elapsed run time
+ * @param job - Job to estimate
+ * @param stats - Statistics of the job's provider and preset
+ * @param options.pending - Whether the job still waits in our queue
+ * @param options.pendingEtaSeconds - Queue ETA of a pending job (see getQueuePosition)
+ * @param options.now - Reference time in milliseconds
+ */
+export function projectRemaining(
+  job: EstimableJob,
+  stats: DurationStats,
+  options: { pending: boolean; pendingEtaSeconds?: number; now: number }
+): RemainingEstimate {
+  if (job.completed_at) {
+    return { stage: 'finished', remaining_seconds: 0, remaining_p90_seconds: 0, sample_size: 0 };
+  }
+
+  if (options.pending) {
+    const eta = options.pendingEtaSeconds ?? stats.queue_wait_p50_seconds + stats.run_p50_seconds;
+    return {
+      stage: 'pending',
+      remaining_seconds: Math.round(eta),
+      remaining_p90_seconds: Math.round(eta + stats.run_p90_seconds - stats.run_p50_seconds),
+      sample_size: stats.sample_size
+    };
+  }
+
+  // Submitted (or waiting for a retry) but not started by the provider yet
+  if (!job.started_at) {
+    const waited = (options.now - new Date(job.submitted_at ?? job.created_at).getTime()) / 1000;
+    const waitLeft = Math.max(0, stats.queue_wait_p50_seconds - waited);
+    return {
+      stage: 'waiting',
+      remaining_seconds: Math.round(waitLeft + stats.run_p50_seconds),
+      remaining_p90_seconds: Math.round(Math.max(0, stats.queue_wait_p90_seconds - waited) + stats.run_p90_seconds),
+      sample_size: stats.sample_size
+    };
+  }
+
+  const elapsed = (options.now - new Date(job.started_at).getTime()) / 1000;
+  const progress = job.progress ?? 0;
+
+  const remaining = progress >= MIN_EXTRAPOLATION_PROGRESS && progress < 100
+    ? elapsed * (100 - progress) / progress
+    : Math.max(0, stats.run_p50_seconds - elapsed);
+
+  return {
+    stage: 'running',
+    remaining_seconds: Math.round(remaining),
+    remaining_p90_seconds: Math.round(Math.max(remaining, stats.run_p90_seconds - elapsed)),
+    sample_size: stats.sample_size
+  };
+}
@@ -0,0 +1,216 @@
+import { supabaseServer } from '@/lib/supabase-server';
+import { ACTIVE_JOB_STATUSES, getQueueLimits, PENDING_JOB_STATUS } from './queue';
+import { projectRemaining, summarizeDurations } from './duration-math';
+import type { DurationStats, EstimableJob, RemainingEstimate } from './duration-math';
+import type { GenerationProviderName } from './types';
+
+export type { DurationStats, EstimableJob, RemainingEstimate } from './duration-math';
+
+/**
+ * Generation duration statistics and ETAs
+ * Keeps rolling p50/p90 provider queue-wait and run times per provider and preset,
+ * computed from recently completed jobs (submitted_at → started_at is the wait,
+ * started_at → completed_at the run). Waiting in our own queue is estimated from the
+ * current backlog instead. Stats are refreshed by the scheduled sweep and lazily when they go stale.
+ * The maths itself lives in duration-math.ts.
+ */
+
+// Completed jobs older than this are left out of the statistics
+const STATS_WINDOW_DAYS = 14;
+
+// Most recent jobs used per provider and preset
+const STATS_SAMPLE_SIZE = 200;
+
+// Stats older than this are recomputed before estimating
+const STATS_MAX_AGE_MS = 15 * 60 * 1000;
+
+// Used until a provider and preset have finished jobs to learn from
+const DEFAULT_QUEUE_WAIT_SECONDS = 15;
+const DEFAULT_RUN_SECONDS = 120;
+
+export interface GenerationEstimate {
+  queue_wait_seconds: number;   // Expected time until the provider starts the job
+  run_seconds: number;          // Expected provider run time
+  total_seconds: number;        // p50 time until the model is ready
+  total_p90_seconds: number;    // Pessimistic (p90) time until the model is ready
+  sample_size: number;          // Finished jobs behind the estimate; 0 means defaults
+}
+
+/**
+ * Recomputes the statistics of every provider and preset from recently completed jobs
+ * @returns The stored statistics
+ */
+export async function refreshDurationStats(): Promise<DurationStats[]> {
+  const since = new Date(Date.now() - STATS_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data: jobs, error } = await supabaseServer
+    .from('jobs')
+    .select('provider, quality_preset, created_at, submitted_at, started_at, completed_at')
+    .eq('api_status', 'completed')
+    .not('submitted_at', 'is', null)
+    .gte('completed_at', since)
+    .order('completed_at', { ascending: false })
+    .limit(STATS_SAMPLE_SIZE * 10);
+
+  if (error) {
+    throw new Error(`Failed to load finished jobs: ${error.message}`);
+  }
+
+  const stats = summarizeDurations(jobs ?? [], STATS_SAMPLE_SIZE, new Date().toISOString());
+
+  if (stats.length > 0) {
+    const { error: upsertError } = await supabaseServer
+      .from('generation_duration_stats')
+      .upsert(stats, { onConflict: 'provider,quality_preset' });
+
+    if (upsertError) {
+      throw new Error(`Failed to store duration stats: ${upsertError.message}`);
+    }
+  }
+
+  console.log(`📊 Refreshed duration stats for ${stats.length} provider/preset pair(s)`);
+  return stats;
+}
+
+/**
+ * Statistics for a provider and preset, refreshed first if they are stale
+ * Falls back to defaults (sample_size 0) when no job has finished yet; a pair without
+ * recent jobs gets a row with the defaults, so it is not refreshed again on every call
+ */
+export async function getDurationStats(provider: string, qualityPreset: string): Promise<DurationStats> {
+  let stats = await readStats(provider, qualityPreset);
+
+  if (!stats || Date.now() - new Date(stats.updated_at).getTime() > STATS_MAX_AGE_MS) {
+    try {
+      const refreshed = await refreshDurationStats();
+      stats = refreshed.find(row => row.provider === provider && row.quality_preset === qualityPreset)
+        ?? await storeDefaultStats(provider, qualityPreset);
+    } catch (error) {
+      console.error('⚠️ Failed to refresh duration stats:', error);
+    }
+  }
+
+  return stats ?? getDefaultStats(provider, qualityPreset);
+}
+
+/**
+ * Estimates how long a job submitted now would take, given the current queue
+ * @param provider - Provider the job would run on
+ * @param qualityPreset - Preset the job would use
+ */
+export async function estimateNewJob(
+  provider: GenerationProviderName,
+  qualityPreset: string
+): Promise<GenerationEstimate> {
+  const stats = await getDurationStats(provider, qualityPreset);
+  const backlogSeconds = await getBacklogSeconds(stats.run_p50_seconds);
+
+  const queueWait = stats.queue_wait_p50_seconds + backlogSeconds;
+  return {
+    queue_wait_seconds: Math.round(queueWait),
+    run_seconds: Math.round(stats.run_p50_seconds),
+    total_seconds: Math.round(queueWait + stats.run_p50_seconds),
+    total_p90_seconds: Math.round(stats.queue_wait_p90_seconds + backlogSeconds + stats.run_p90_seconds),
+    sample_size: stats.sample_size
+  };
+}
+
+/**
+ * Estimates the time left for an existing job
+ * Running jobs that report progress are extrapolated from their elapsed run time
+ * @param job - Job to estimate
+ * @param pendingEtaSeconds - Queue ETA of a pending job (see getQueuePosition)
+ */
+export async function estimateRemaining(
+  job: EstimableJob,
+  pendingEtaSeconds?: number,
+  now = Date.now()
+): Promise<RemainingEstimate> {
+  if (job.completed_at) {
+    return { stage: 'finished', remaining_seconds: 0, remaining_p90_seconds: 0, sample_size: 0 };
+  }
+
+  const stats = await getDurationStats(job.provider ?? 'firtoz-trellis', job.quality_preset ?? 'standard');
+  return projectRemaining(job, stats, {
+    pending: job.api_status === PENDING_JOB_STATUS,
+    pendingEtaSeconds,
+    now
+  });
+}
+
+// ==================== HELPER FUNCTIONS ====================
+
+function getDefaultStats(provider: string, qualityPreset: string): DurationStats {
+  return {
+    provider,
+    quality_preset: qualityPreset,
+    sample_size: 0,
+    queue_wait_p50_seconds: DEFAULT_QUEUE_WAIT_SECONDS,
+    queue_wait_p90_seconds: DEFAULT_QUEUE_WAIT_SECONDS * 2,
+    run_p50_seconds: DEFAULT_RUN_SECONDS,
+    run_p90_seconds: DEFAULT_RUN_SECONDS * 2,
+    updated_at: new Date().toISOString()
+  };
+}
+
+/**
+ * Stores the defaults for a pair that has no finished jobs in the window
+ * Its updated_at marks when it was last checked, like any refreshed row
+ */
+async function storeDefaultStats(provider: string, qualityPreset: string): Promise<DurationStats> {
+  const stats = getDefaultStats(provider, qualityPreset);
+
+  const { error } = await supabaseServer
+    .from('generation_duration_stats')
+    .upsert(stats, { onConflict: 'provider,quality_preset' });
+
+  if (error) {
+    console.error('⚠️ Failed to store default duration stats:', error);
+  }
+  return stats;
+}
+
+async function readStats(provider: string, qualityPreset: string): Promise<DurationStats | null> {
+  const { data, error } = await supabaseServer
+    .from('generation_duration_stats')
+    .select('*')
+    .eq('provider', provider)
+    .eq('quality_preset', qualityPreset)
+    .maybeSingle();
+
+  if (error) {
+    console.error('⚠️ Failed to read duration stats:', error);
+    return null;
+  }
+  return data;
+}
+
+/**
+ * Extra wait caused by jobs already ahead when every concurrency slot is busy
+ * Jobs leave the queue in waves of `global` slots, each taking about one run
+ */
+async function getBacklogSeconds(runSeconds: number): Promise<number> {
+  const [active, pending] = await Promise.all([
+    countJobs(ACTIVE_JOB_STATUSES),
+    countJobs([PENDING_JOB_STATUS])
+  ]);
+
+  const { global } = getQueueLimits();
+  if (active < global) return 0;
+
+  return Math.ceil((pending + 1) / global) * runSeconds;
+}
+
+async function countJobs(statuses: string[]): Promise<number> {
+  const { count, error } = await supabaseServer
+    .from('jobs')
+    .select('id', { count: 'exact', head: true })
+    .in('api_status', statuses);
+
+  if (error) {
+    console.error('⚠️ Failed to count jobs:', error);
+    return 0;
+  }
+  return count ?? 0;
+}
+
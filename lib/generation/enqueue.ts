@@ -0,0 +1,284 @@
+import { jobService } from '@/lib/supabase';
+import { supabaseServer } from '@/lib/supabase-server';
+import { ModelService } from '@/lib/supabase/model.service';
+import { modelVersionService } from '@/lib/supabase/model-version.service';
+import { ACTIVE_JOB_STATUSES, getJobPriority, PENDING_JOB_STATUS, PREPARING_JOB_STATUS } from './queue';
+import { failJob, type FinalizableJob } from './finalize';
+import { recordJobEvent } from './job-events';
+import type { QualityPreset } from './presets';
+import type { GenerationProviderName, GenerationViews } from './types';
+
+/**
+ * Generation enqueueing
+ * Turns a charged generation request into a pending job, a model version and a model
+ * pointing at that job. Used by /api/generate, batch generation and imports.
+ *
+ * The job is inserted as 'preparing' and only becomes 'pending' (visible to the queue)
+ * once its version and model link exist. From the insert on, the charge belongs to the
+ * job: a failed step fails the job, which refunds it at most once (see failJob).
+ *
+ * A model has at most one unfinished job, and a client-supplied idempotency key maps to
+ * at most one job per user; both are enforced by unique indexes on the jobs table.
+ */
+
+// Unique indexes on jobs that reject a duplicate generation
+const IDEMPOTENCY_KEY_INDEX = 'idx_jobs_user_idempotency_key';
+const ACTIVE_MODEL_JOB_INDEX = 'idx_jobs_active_model';
+
+const modelService = new ModelService();
+
+export interface EnqueueGenerationInput {
+  model: { id: string; user_id: string };
+  providerName: GenerationProviderName;
+  preset: QualityPreset;
+  views: GenerationViews;
+  // When the client finished uploading and removing backgrounds, for the job timeline
+  stageTimes?: { uploadedAt?: Date; backgroundRemovedAt?: Date };
+  // Also request a Gaussian splat PLY (the provider must support it)
+  saveGaussianPly?: boolean;
+  // Client-supplied key that identifies a single generation request
+  idempotencyKey?: string | null;
+  // Covered by the monthly free tier instead of paid credits
+  freeModel?: boolean;
+  // Part of the credits charged that came from the plan allowance, refunded back there
+  planCredits?: number;
+}
+
+/**
+ * Thrown when a job could not be created because an equivalent one already exists
+ * - idempotency_key: the user already made a request with this key
+ * - active_job: the model already has an unfinished job
+ */
+export class DuplicateGenerationError extends Error {
+  constructor(public reason: 'idempotency_key' | 'active_job') {
+    super(reason === 'idempotency_key'
+      ? 'A generation with this idempotency key already exists'
+      : 'A generation is already in progress for this model');
+    this.name = 'DuplicateGenerationError';
+  }
+}
+
+/**
+ * Thrown when a step after the job insert failed
+ * The job was failed and its charge refunded through it, so the caller must not
+ * release the charge again
+ */
+export class JobEnqueueError extends Error {
+  constructor(public jobId: string, cause: unknown) {
+    super(`Failed to queue job ${jobId}: ${cause instanceof Error ? cause.message : 'Unknown error'}`);
+    this.name = 'JobEnqueueError';
+  }
+}
+
+/**
+ * Queues a generation for a model whose credits have already been charged
+ * @returns The pending job
+ * @throws DuplicateGenerationError if the key was used before or the model already has an unfinished job
+ * @throws JobEnqueueError if the job was created but could not be queued (its charge is already refunded)
+ */
+export async function enqueueGeneration({
+  model,
+  providerName,
+  preset,
+  views,
+  stageTimes,
+  saveGaussianPly = false,
+  idempotencyKey = null,
+  freeModel = false,
+  planCredits = 0
+}: EnqueueGenerationInput) {
+  const generationParams = getGenerationParams(preset, saveGaussianPly);
+
+  const job = await createJobRecord(model, providerName, preset, idempotencyKey, freeModel, planCredits);
+
+  try {
+    if (stageTimes?.uploadedAt) {
+      await recordJobEvent(job, 'uploaded', { occurredAt: stageTimes.uploadedAt });
+    }
+    if (stageTimes?.backgroundRemovedAt) {
+      await recordJobEvent(job, 'background_removed', { occurredAt: stageTimes.backgroundRemovedAt });
+    }
+    await recordJobEvent(job, 'queued', { occurredAt: new Date(job.created_at) });
+
+    await createModelVersion(model, job.id, providerName, preset, views, generationParams);
+    await updateModelWithJob(model.id, job.id, preset, generationParams);
+    return await markJobPending(job);
+  } catch (error) {
+    await abandonJob(job, error);
+    throw new JobEnqueueError(job.id, error);
+  }
+}
+
+/**
+ * Finds the job a user created with an idempotency key, if any
+ */
+export async function findJobByIdempotencyKey(userId: string, idempotencyKey: string) {
+  const { data, error } = await supabaseServer
+    .from('jobs')
+    .select('id, api_status, error_message')
+    .eq('user_id', userId)
+    .eq('idempotency_key', idempotencyKey)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up idempotency key: ${error.message}`);
+  }
+  return data;
+}
+
+/**
+ * Finds the unfinished (preparing, pending, running or retrying) job of a model, if any
+ */
+export async function findActiveJobForModel(modelId: string) {
+  const { data, error } = await supabaseServer
+    .from('jobs')
+    .select('id, api_status')
+    .eq('model_id', modelId)
+    .in('api_status', [PREPARING_JOB_STATUS, PENDING_JOB_STATUS, ...ACTIVE_JOB_STATUSES])
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up active jobs: ${error.message}`);
+  }
+  return data;
+}
+
+// ==================== HELPER FUNCTIONS ====================
+
+/**
+ * Creates a job in the preparing state, which the queue does not release yet
+ * Unique violations mean a concurrent request got there first
+ */
+async function createJobRecord(
+  model: { id: string; user_id: string },
+  providerName: GenerationProviderName,
+  preset: QualityPreset,
+  idempotencyKey: string | null,
+  freeModel: boolean,
+  planCredits: number
+) {
+  const userId = model.user_id;
+  console.log('📝 Creating job for user:', userId);
+
+  const job = await jobService.createJob({
+    external_job_id: null,
+    user_id: userId,
+    model_id: model.id,
+    idempotency_key: idempotencyKey,
+    provider: providerName,
+    credits_charged: preset.credits,
+    free_model: freeModel,
+    plan_credits_charged: planCredits,
+    api_status: PREPARING_JOB_STATUS,
+    api_stage: PREPARING_JOB_STATUS,
+    progress: 0,
+    quality_preset: preset.id,
+    priority: await getJobPriority(userId),
+    attempt_count: 1
+  }).catch((error) => {
+    if (error?.code === '23505') {
+      const details = `${error.message} ${error.details ?? ''}`;
+      if (details.includes(IDEMPOTENCY_KEY_INDEX)) throw new DuplicateGenerationError('idempotency_key');
+      if (details.includes(ACTIVE_MODEL_JOB_INDEX)) throw new DuplicateGenerationError('active_job');
+    }
+    throw error;
+  });
+
+  console.log('✅ Job created successfully:', { id: job.id, priority: job.priority });
+  return job;
+}
+
+/**
+ * Hands a fully recorded job to the queue, which submits it once a slot is free
+ * A job canceled while it was being prepared stays canceled
+ */
+async function markJobPending<T extends { id: string; api_status: string }>(job: T): Promise<T> {
+  const { data, error } = await supabaseServer
+    .from('jobs')
+    .update({
+      api_status: PENDING_JOB_STATUS,
+      api_stage: PENDING_JOB_STATUS,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', job.id)
+    .eq('api_status', PREPARING_JOB_STATUS)
+    .select('api_status');
+
+  if (error) {
+    throw new Error(`Failed to queue job: ${error.message}`);
+  }
+
+  return { ...job, api_status: data?.[0]?.api_status ?? job.api_status };
+}
+
+/**
+ * Fails a job whose preparation did not finish, refunding its charge through the job
+ * A job that cannot be failed now stays preparing and is failed by the sweep
+ */
+async function abandonJob(job: FinalizableJob, cause: unknown) {
+  console.error(`❌ Failed to queue job ${job.id}:`, cause);
+
+  try {
+    await failJob(job, 'Generation could not be queued');
+  } catch (error) {
+    console.error(`Failed to fail job ${job.id} after queueing failed:`, error);
+  }
+}
+
+/**
+ * Records the generation as a new version of the model
+ * Earlier versions keep their GLB; the new one becomes current once its job succeeds
+ */
+async function createModelVersion(
+  model: { id: string; user_id: string },
+  jobId: string,
+  providerName: GenerationProviderName,
+  preset: QualityPreset,
+  views: GenerationViews,
+  generationParams: Record<string, unknown>
+) {
+  const version = await modelVersionService.createVersion({
+    model_id: model.id,
+    user_id: model.user_id,
+    job_id: jobId,
+    provider: providerName,
+    quality_preset: preset.id,
+    generation_params: generationParams,
+    views: { ...views }
+  });
+
+  console.log('✅ Created model version:', { id: version.id, version_number: version.version_number });
+  return version;
+}
+
+/**
+ * Updates model record with job ID, status and the preset used
+ * The resolved parameters are stored alongside the preset ID so the result
+ * can be reproduced even if the preset definition changes later
+ */
+async function updateModelWithJob(
+  modelId: string,
+  jobId: string,
+  preset: QualityPreset,
+  generationParams: Record<string, unknown>
+) {
+  await modelService.updateModel(modelId, {
+    job_id: jobId,
+    model_status: 'generating_3d_model',
+    quality_preset: preset.id,
+    generation_params: generationParams
+  });
+}
+
+/**
+ * Provider parameters resolved from the preset, plus the Gaussian PLY opt-in
+ */
+function getGenerationParams(preset: QualityPreset, saveGaussianPly: boolean): Record<string, unknown> {
+  return {
+    texture_size: preset.texture_size,
+    mesh_simplify: preset.mesh_simplify,
+    ss_sampling_steps: preset.ss_sampling_steps,
+    ...(saveGaussianPly && { save_gaussian_ply: true })
+  };
+}
@@ -0,0 +1,489 @@
+import { supabaseServer } from '@/lib/supabase-server';
+import { r2Service } from '@/lib/r2';
+import { creditService } from '@/lib/billing/credits';
+import { referralService } from '@/lib/billing/referrals';
+import { modelVersionService } from '@/lib/supabase/model-version.service';
+import { mapReplicateStatus } from '@/lib/utils/mapReplicateStatus';
+import { classifyFailure, getNextAttemptAt, hasRetryBudget } from './retry';
+import { recordJobEvent } from './job-events';
+import type { GenerationResult } from './types';
+
+/**
+ * Job finalization
+ * Single place that applies a provider result to a job: progress updates while it runs,
+ * and the one-time terminal transition (R2 copy, model update and referral award, or
+ * refund on failure).
+ * Each stage the job reaches is also recorded on its timeline (see job-events).
+ * Used by the webhook and by job reconciliation (refresh, /api/status and the scheduled sweep).
+ */
+
+// Job statuses after which nothing may change the job again
+export const TERMINAL_JOB_STATUSES = ['succeeded', 'completed', 'failed', 'canceled'];
+
+// Non-terminal status of a job waiting to be resubmitted after a retryable failure
+export const RETRYING_JOB_STATUS = 'retrying';
+
+// Non-terminal statuses in the order a job moves through them; a running job never moves back
+const RUNNING_JOB_STATUS_ORDER = ['pending', 'queued', 'starting', 'processing'];
+
+// Running statuses of a job that has a prediction at its provider
+const SUBMITTED_JOB_STATUSES = RUNNING_JOB_STATUS_ORDER.slice(1);
+
+// How long a submitted attempt may run before the job is considered expired
+export const JOB_ATTEMPT_TTL_MS = 60 * 60 * 1000;
+
+// How long a finalizer holds a completed job while copying its files
+const COMPLETION_LEASE_MS = 5 * 60 * 1000;
+
+// Fields of a jobs row needed to finalize it
+export interface FinalizableJob {
+  id: string;
+  user_id: string;
+  api_status: string;
+  credits_charged?: number | null;
+  free_model?: boolean | null;
+  attempt_count?: number | null;
+  max_attempts?: number | null;
+}
+
+export interface JobFinalizationResult {
+  status: string;      // Internal job status after applying the result
+  finalized: boolean;  // True only for the call that performed the terminal transition
+  refund?: JobRefund;  // What a failed or canceled job gave back, when this call finalized it
+}
+
+export interface JobRefund {
+  applied: boolean;            // False if the refund failed; the sweep retries it (see refundMissedJobs)
+  credits: number;             // Credits returned to the balance
+  freeModelReturned: boolean;  // A free model went back to this month's free tier instead
+}
+
+/**
+ * Applies a provider result to a job
+ * Safe to call repeatedly and concurrently: every write is conditioned on the job not
+ * being terminal yet, so only one caller performs the terminal transition and its side effects
+ * @param job - Job row the result belongs to
+ * @param result - Normalized provider status
+ */
+export async function applyJobResult(
+  job: FinalizableJob,
+  result: GenerationResult
+): Promise<JobFinalizationResult> {
+  if (TERMINAL_JOB_STATUSES.includes(job.api_status)) {
+    return { status: job.api_status, finalized: false };
+  }
+
+  // The prediction behind a retrying job already failed; late results for it are stale
+  if (job.api_status === RETRYING_JOB_STATUS) {
+    return { status: RETRYING_JOB_STATUS, finalized: false };
+  }
+
+  const internalStatus = mapReplicateStatus(result.status);
+
+  if (!TERMINAL_JOB_STATUSES.includes(internalStatus)) {
+    await updateRunningJob(job, internalStatus, result.progress);
+    return { status: internalStatus, finalized: false };
+  }
+
+  if (internalStatus === 'completed') {
+    if (!result.output?.model_file) {
+      return failJob(job, 'Provider returned no model file');
+    }
+    return completeJob(job, result.output.model_file, result.output.gaussian_ply);
+  }
+
+  const errorMessage = result.error || (internalStatus === 'canceled' ? 'Canceled by provider' : 'Model generation failed');
+
+  // Transient failures are resubmitted later on the same charge while the budget lasts
+  if (internalStatus === 'failed' && classifyFailure(errorMessage) === 'retryable' && hasRetryBudget(job)) {
+    return scheduleRetry(job, errorMessage);
+  }
+
+  return failJob(job, errorMessage, internalStatus as 'failed' | 'canceled');
+}
+
+/**
+ * Parks a job until its next attempt after a retryable failure
+ * The job stays non-terminal (no refund, model keeps generating); the reconciler resubmits it
+ * once next_attempt_at has passed
+ * @param job - Job whose current attempt failed
+ * @param errorMessage - Failure reason stored on the job
+ * @param failedAttempt - Number of the attempt that failed (default: the job's attempt count)
+ */
+export async function scheduleRetry(
+  job: FinalizableJob,
+  errorMessage: string,
+  failedAttempt = job.attempt_count ?? 1
+): Promise<JobFinalizationResult> {
+  const nextAttemptAt = getNextAttemptAt(failedAttempt);
+
+  const { error } = await supabaseServer
+    .from('jobs')
+    .update({
+      api_status: RETRYING_JOB_STATUS,
+      api_stage: RETRYING_JOB_STATUS,
+      error_message: errorMessage,
+      attempt_count: failedAttempt,
+      next_attempt_at: nextAttemptAt.toISOString(),
+      // Waiting for the retry does not count against the attempt's lifetime
+      expires_at: new Date(nextAttemptAt.getTime() + JOB_ATTEMPT_TTL_MS).toISOString(),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', job.id)
+    .not('api_status', 'in', `(${TERMINAL_JOB_STATUSES.join(',')})`);
+
+  if (error) {
+    throw new Error(`Failed to schedule retry for job ${job.id}: ${error.message}`);
+  }
+
+  await recordJobEvent(job, 'retry_scheduled', { attempt: failedAttempt, detail: errorMessage });
+
+  console.log(`🔁 Job ${job.id} attempt ${failedAttempt} failed (${errorMessage}), retrying at ${nextAttemptAt.toISOString()}`);
+  return { status: RETRYING_JOB_STATUS, finalized: false };
+}
+
+/**
+ * Marks a job as failed (e.g. expired) and runs the failure side effects once
+ * @param job - Job row to fail
+ * @param errorMessage - Reason stored on the job
+ * @param status - Terminal status to record (default failed)
+ */
+export async function failJob(
+  job: FinalizableJob,
+  errorMessage: string,
+  status: 'failed' | 'canceled' = 'failed'
+): Promise<JobFinalizationResult> {
+  const claimed = await claimTerminalTransition(job.id, {
+    api_status: status,
+    api_stage: status,
+    error_message: errorMessage
+  });
+
+  if (!claimed) {
+    return { status, finalized: false };
+  }
+
+  await markModelFailed(job.id, status);
+
+  // The job will never produce a model, so return what was charged; a refund that
+  // fails here is retried by the sweep (see refundMissedJobs)
+  const refund: JobRefund = { applied: false, credits: 0, freeModelReturned: false };
+  try {
+    const { applied } = await creditService.refundJob(job, getRefundDescription(status, errorMessage));
+    refund.applied = applied;
+    if (applied && job.free_model) {
+      refund.freeModelReturned = true;
+    } else if (applied) {
+      refund.credits = job.credits_charged ?? 1;
+    }
+  } catch (error) {
+    console.error(`Failed to refund credits for job ${job.id}:`, error);
+  }
+
+  await recordJobEvent(job, status, { attempt: job.attempt_count, detail: errorMessage });
+
+  console.log(`❌ Job ${job.id} finalized as ${status}: ${errorMessage}`);
+  return { status, finalized: true, refund };
+}
+
+/**
+ * Refunds failed or canceled jobs whose refund did not go through when they were finalized
+ * Safe to repeat: the ledger refunds each job at most once
+ * @param limit - Maximum number of jobs to refund in this run
+ * @returns IDs of the jobs refunded now
+ */
+export async function refundMissedJobs(limit = 100): Promise<string[]> {
+  const { data: jobs, error } = await supabaseServer
+    .from('jobs')
+    .select('id, user_id, api_status, credits_charged, free_model, error_message')
+    .in('api_status', ['failed', 'canceled'])
+    .is('refunded_at', null)
+    .gt('credits_charged', 0)
+    .order('updated_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to load unrefunded jobs: ${error.message}`);
+  }
+
+  const refunded: string[] = [];
+  for (const job of jobs ?? []) {
+    try {
+      const { applied } = await creditService.refundJob(
+        job,
+        getRefundDescription(job.api_status, job.error_message)
+      );
+      if (applied) refunded.push(job.id);
+    } catch (refundError) {
+      console.error(`Failed to refund credits for job ${job.id}:`, refundError);
+    }
+  }
+
+  if (refunded.length > 0) {
+    console.log(`💸 Refunded ${refunded.length} job(s) missed at finalization`);
+  }
+  return refunded;
+}
+
+// ==================== HELPER FUNCTIONS ====================
+
+/**
+ * Transaction history text for a job refund
+ */
+function getRefundDescription(status: string, errorMessage?: string | null) {
+  if (status === 'canceled') return 'Refund: canceled 3D model generation';
+  if (errorMessage === 'Job expired') return 'Refund: expired 3D model generation';
+  return 'Refund: failed 3D model generation';
+}
+
+/**
+ * Updates the model of a job that ended without a GLB
+ * Only the job's version failed: a model that still has a current version (which always
+ * has a GLB) goes back to completed, so a failed regeneration keeps the earlier result
+ */
+async function markModelFailed(jobId: string, status: 'failed' | 'canceled') {
+  const { error: modelError } = await supabaseServer
+    .from('models')
+    .update({ model_status: status })
+    .eq('job_id', jobId)
+    .is('current_version_id', null);
+
+  const { error: versionedModelError } = await supabaseServer
+    .from('models')
+    .update({ model_status: 'completed' })
+    .eq('job_id', jobId)
+    .not('current_version_id', 'is', null);
+
+  if (modelError || versionedModelError) {
+    console.error(`Failed to update model for job ${jobId} after it ${status}:`, modelError ?? versionedModelError);
+  }
+}
+
+/**
+ * Copies the GLB (and the Gaussian PLY, if requested) to R2 and marks the job and its model as completed
+ * The job is leased first, so duplicate and concurrent finalizers neither copy the files
+ * again nor record the result twice; a failure before the transition releases the lease
+ */
+async function completeJob(
+  job: FinalizableJob,
+  outputUrl: string,
+  gaussianPlyUrl?: string
+): Promise<JobFinalizationResult> {
+  const lease = await leaseCompletion(job.id);
+  if (!lease) {
+    return { status: 'completed', finalized: false };
+  }
+
+  const succeededAt = new Date();
+  let storedModel: { url: string; key: string | null };
+  let storedAt: Date;
+  let storedPlyUrl: string | null;
+  try {
+    storedModel = await storeModelFile(job.id, outputUrl);
+    storedAt = new Date();
+
+    storedPlyUrl = gaussianPlyUrl
+      ? await storeGaussianPly(job.id, gaussianPlyUrl, storedModel.key)
+      : null;
+
+    const claimed = await claimTerminalTransition(job.id, {
+      api_status: 'completed',
+      api_stage: 'completed',
+      progress: 100,
+      model_url: storedModel.url,
+      next_attempt_at: null
+    });
+
+    if (!claimed) {
+      return { status: 'completed', finalized: false };
+    }
+  } catch (error) {
+    await releaseCompletion(job.id, lease);
+    throw error;
+  }
+
+  // Only the caller that completed the job records it on the timeline
+  await recordJobEvent(job, 'succeeded', { attempt: job.attempt_count, progress: 100, occurredAt: succeededAt });
+  if (storedModel.key) {
+    await recordJobEvent(job, 'stored', { attempt: job.attempt_count, occurredAt: storedAt });
+  }
+
+  const { error: modelError } = await supabaseServer
+    .from('models')
+    .update({
+      model_status: 'completed',
+      model_url: storedModel.url,
+      gaussian_ply_url: storedPlyUrl
+    })
+    .eq('job_id', job.id);
+
+  if (modelError) {
+    console.error(`Failed to mark model for job ${job.id} as completed:`, modelError);
+  }
+
+  await modelVersionService.recordJobOutput(job.id, storedModel.url, storedPlyUrl);
+
+  // A referred user's first model earns both accounts the referral bonus; a failed
+  // award stays pending and is retried when their next model completes
+  try {
+    await referralService.awardReferral(job.user_id);
+  } catch (error) {
+    console.error(`Failed to award referral for job ${job.id}:`, error);
+  }
+
+  console.log(`✅ Job ${job.id} finalized as completed`);
+  return { status: 'completed', finalized: true };
+}
+
+/**
+ * Downloads the provider's GLB and stores it in R2
+ * The key is derived from the job, so a finalizer that retries after a released lease
+ * overwrites the same object instead of leaving an orphaned copy
+ * Falls back to the provider URL (with no key) if the copy fails, so the model is still viewable
+ */
+async function storeModelFile(jobId: string, outputUrl: string): Promise<{ url: string; key: string | null }> {
+  try {
+    const response = await fetch(outputUrl);
+    if (!response.ok) {
+      throw new Error(`Download failed: ${response.status} ${response.statusText}`);
+    }
+    const buffer = await response.arrayBuffer();
+
+    const fileName = outputUrl.split('/').pop()?.split('?')[0] || 'model.glb';
+    const extension = fileName.includes('.') ? fileName.split('.').pop() : 'glb';
+    return await r2Service.uploadFile('models-glb', `${jobId}.${extension}`, Buffer.from(buffer), 'model/gltf-binary');
+  } catch (error) {
+    console.error(`Failed to store model file for job ${jobId}:`, error);
+    return { url: outputUrl, key: null };
+  }
+}
+
+/**
+ * Downloads the provider's Gaussian splat PLY and stores it in R2 next to the GLB
+ * Provider URLs expire, so a failed copy stores nothing rather than a dead link
+ * @param modelKey - R2 key of the stored GLB; the PLY reuses it with a .ply extension
+ */
+async function storeGaussianPly(jobId: string, plyUrl: string, modelKey: string | null): Promise<string | null> {
+  try {
+    const response = await fetch(plyUrl);
+    if (!response.ok) {
+      throw new Error(`Download failed: ${response.status} ${response.statusText}`);
+    }
+    const buffer = await response.arrayBuffer();
+
+    const key = modelKey ? modelKey.replace(/\.[^./]+$/, '') + '.ply' : `${jobId}.ply`;
+    const result = await r2Service.uploadFile('models-glb', key, Buffer.from(buffer), 'application/octet-stream');
+    return result.url;
+  } catch (error) {
+    console.error(`Failed to store Gaussian PLY for job ${jobId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Leases a submitted job for its completion, reusing next_attempt_at like the submit lease
+ * (a submitted job has no next attempt); an expired lease can be taken over
+ * @returns The lease expiry, or null if another caller holds the job or it is no longer running
+ */
+async function leaseCompletion(jobId: string): Promise<string | null> {
+  const now = new Date();
+  const leaseUntil = new Date(now.getTime() + COMPLETION_LEASE_MS).toISOString();
+
+  const { data, error } = await supabaseServer
+    .from('jobs')
+    .update({ next_attempt_at: leaseUntil })
+    .eq('id', jobId)
+    .in('api_status', SUBMITTED_JOB_STATUSES)
+    .or(`next_attempt_at.is.null,next_attempt_at.lte.${now.toISOString()}`)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to lease job ${jobId} for completion: ${error.message}`);
+  }
+
+  return data && data.length > 0 ? leaseUntil : null;
+}
+
+/**
+ * Gives up a completion lease, so the next finalizer can try again
+ */
+async function releaseCompletion(jobId: string, lease: string) {
+  const { error } = await supabaseServer
+    .from('jobs')
+    .update({ next_attempt_at: null })
+    .eq('id', jobId)
+    .eq('next_attempt_at', lease);
+
+  if (error) {
+    console.error(`Failed to release completion lease of job ${jobId}:`, error);
+  }
+}
+
+/**
+ * Moves a job into a terminal state if no one else has
+ * @returns True if this call performed the transition
+ */
+async function claimTerminalTransition(jobId: string, update: Record<string, unknown>) {
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabaseServer
+    .from('jobs')
+    .update({
+      ...update,
+      completed_at: now,
+      updated_at: now
+    })
+    .eq('id', jobId)
+    .not('api_status', 'in', `(${TERMINAL_JOB_STATUSES.join(',')})`)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to finalize job ${jobId}: ${error.message}`);
+  }
+
+  return !!data && data.length > 0;
+}
+
+/**
+ * Records progress of a job that is still running, and when it started processing
+ * Only moves the job forward: a late event for an earlier status (e.g. queued after
+ * processing) leaves the stored status alone
+ */
+async function updateRunningJob(job: FinalizableJob, status: string, progress?: number) {
+  const rank = RUNNING_JOB_STATUS_ORDER.indexOf(status);
+  if (rank === -1) {
+    console.warn(`Ignoring unknown status ${status} for job ${job.id}`);
+    return;
+  }
+  const isStarting = status === 'processing' && job.api_status !== 'processing';
+
+  // Starting is claimed once, so started_at and the timeline event are written once
+  const allowedPrevious = RUNNING_JOB_STATUS_ORDER.slice(0, isStarting ? rank : rank + 1);
+
+  const { data, error } = await supabaseServer
+    .from('jobs')
+    .update({
+      api_status: status,
+      api_stage: status,
+      ...(progress !== undefined && { progress }),
+      ...(isStarting && { started_at: new Date().toISOString() }),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', job.id)
+    .in('api_status', allowedPrevious)
+    .select('api_status');
+
+  if (error) {
+    console.error(`Failed to update job ${job.id}:`, error);
+    return;
+  }
+
+  if (isStarting) {
+    if (data && data.length > 0) {
+      await recordJobEvent(job, 'started', { attempt: job.attempt_count, progress });
+    } else {
+      // Another update started the job first; only the progress is left to record
+      await updateRunningJob({ ...job, api_status: 'processing' }, status, progress);
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import { supabaseServer } from '@/lib/supabase-server';
+import type { JobEvent, JobEventStage } from '@/lib/supabase/types';
+
+/**
+ * Job timeline
+ * Records when a job reaches each stage of the pipeline so the preview can show where the
+ * time went. A stage is stored at most once per attempt, so repeated webhooks and polls of
+ * the same status do not add rows. Recording never fails the caller: the timeline is
+ * informational and must not break generation.
+ */
+
+export interface JobEventOptions {
+  attempt?: number | null;
+  progress?: number;
+  detail?: string;
+  occurredAt?: Date;
+}
+
+export type JobTimelineEntry = JobEvent & {
+  duration_ms: number | null;  // Time until the next stage; null for the latest one
+};
+
+/**
+ * Records that a job reached a stage
+ * @param job - Job the event belongs to
+ * @param stage - Stage reached
+ * @param options - Attempt number (default 1), progress, detail and time (default now)
+ */
+export async function recordJobEvent(
+  job: { id: string; user_id: string },
+  stage: JobEventStage,
+  options: JobEventOptions = {}
+): Promise<void> {
+  const { error } = await supabaseServer
+    .from('job_events')
+    .upsert({
+      job_id: job.id,
+      user_id: job.user_id,
+      stage,
+      attempt: options.attempt ?? 1,
+      progress: options.progress ?? null,
+      detail: options.detail ?? null,
+      occurred_at: (options.occurredAt ?? new Date()).toISOString()
+    }, { onConflict: 'job_id,stage,attempt', ignoreDuplicates: true });
+
+  if (error) {
+    console.error(`Failed to record ${stage} event for job ${job.id}:`, error);
+  }
+}
+
+/**
+ * Returns a job's events in order, each with the time spent until the next one
+ * @param jobId - Job to load
+ */
+export async function getJobTimeline(jobId: string): Promise<JobTimelineEntry[]> {
+  const { data, error } = await supabaseServer
+    .from('job_events')
+    .select('*')
+    .eq('job_id', jobId)
+    .order('occurred_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load events for job ${jobId}: ${error.message}`);
+  }
+
+  const events = (data ?? []) as JobEvent[];
+  return events.map((event, index) => {
+    const next = events[index + 1];
+    return {
+      ...event,
+      duration_ms: next
+        ? new Date(next.occurred_at).getTime() - new Date(event.occurred_at).getTime()
+        : null
+    };
+  });
+}
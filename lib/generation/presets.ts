@@ -0,0 +1,74 @@
+/**
+ * Quality presets for 3D generation
+ * Each preset fixes the generation parameters and its credit price, so a model
+ * can be regenerated with exactly the same settings later
+ */
+
+export type QualityPresetId = 'draft' | 'standard' | 'high_detail';
+
+export interface QualityPreset {
+  id: QualityPresetId;
+  label: string;
+  description: string;
+  credits: number;            // Credits charged per generation
+  texture_size: number;       // Texture size in pixels
+  mesh_simplify: number;      // Mesh simplification ratio (0-1, higher keeps fewer faces)
+  ss_sampling_steps: number;  // Sparse structure sampling steps
+}
+
+export const QUALITY_PRESETS: Record<QualityPresetId, QualityPreset> = {
+  draft: {
+    id: 'draft',
+    label: 'Draft',
+    description: 'Quick preview with lighter textures',
+    credits: 1,
+    texture_size: 1024,
+    mesh_simplify: 0.95,
+    ss_sampling_steps: 12
+  },
+  standard: {
+    id: 'standard',
+    label: 'Standard',
+    description: 'Balanced quality for most products',
+    credits: 1,
+    texture_size: 2048,
+    mesh_simplify: 0.9,
+    ss_sampling_steps: 38
+  },
+  high_detail: {
+    id: 'high_detail',
+    label: 'High Detail',
+    description: 'Dense mesh and more sampling steps',
+    credits: 2,
+    texture_size: 2048,
+    mesh_simplify: 0.8,
+    ss_sampling_steps: 50
+  }
+};
+
+export const DEFAULT_QUALITY_PRESET: QualityPresetId = 'standard';
+
+/**
+ * Checks whether a string names a known preset
+ */
+export function isQualityPresetId(id: string): id is QualityPresetId {
+  return Object.prototype.hasOwnProperty.call(QUALITY_PRESETS, id);
+}
+
+/**
+ * Checks whether a provider can run a preset: providers that ignore the preset
+ * parameters only run the default one, so no one pays for settings that are not applied
+ */
+export function isPresetSupported(preset: QualityPreset, provider: { supportsQualityPresets: boolean }): boolean {
+  return provider.supportsQualityPresets || preset.id === DEFAULT_QUALITY_PRESET;
+}
+
+/**
+ * Returns the preset for an ID, falling back to the default for unknown or missing values
+ * (models generated before presets existed have no stored preset)
+ */
+export function getQualityPreset(id?: string | null): QualityPreset {
+  return id && isQualityPresetId(id)
+    ? QUALITY_PRESETS[id]
+    : QUALITY_PRESETS[DEFAULT_QUALITY_PRESET];
+}
@@ -0,0 +1,76 @@
+import { FirtozTrellisService } from '../firtoz-trellis/service';
+import { Hunyuan3DService } from '../hunyuan3d/service';
+import { MockTrellisService } from '../mock-trellis/service';
+import type { GenerationProvider, GenerationProviderName } from './types';
+
+/**
+ * Registry of available 3D generation providers
+ * Each factory is only invoked when its provider is requested
+ */
+const PROVIDER_FACTORIES: Record<GenerationProviderName, () => GenerationProvider> = {
+  'firtoz-trellis': () => new FirtozTrellisService(),
+  'hunyuan3d': () => new Hunyuan3DService(),
+  'mock': () => {
+    // The offline provider is for local development and CI only
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('Mock generation provider is not available in production');
+    }
+    return new MockTrellisService();
+  }
+};
+
+/**
+ * Checks whether a string names a registered provider
+ */
+export function isGenerationProviderName(name: string): name is GenerationProviderName {
+  return Object.prototype.hasOwnProperty.call(PROVIDER_FACTORIES, name);
+}
+
+/**
+ * Provider used when a request does not pick one (GENERATION_PROVIDER, default Firtoz-Trellis)
+ */
+export function getDefaultProviderName(): GenerationProviderName {
+  const configured = process.env.GENERATION_PROVIDER;
+
+  if (configured && isGenerationProviderName(configured)) {
+    return configured;
+  }
+
+  if (configured) {
+    console.warn(`⚠️ Unknown GENERATION_PROVIDER "${configured}", falling back to firtoz-trellis`);
+  }
+
+  return 'firtoz-trellis';
+}
+
+/**
+ * Checks whether a request may pick this provider instead of the default
+ * Only the default provider and those listed in GENERATION_REQUEST_PROVIDERS
+ * (comma-separated) can be chosen per request; the rest are server configuration only
+ */
+export function isRequestableProvider(name: GenerationProviderName): boolean {
+  if (name === getDefaultProviderName()) return true;
+
+  const allowed = (process.env.GENERATION_REQUEST_PROVIDERS ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+  return allowed.includes(name);
+}
+
+/**
+ * Returns the provider instance for the given name
+ * Jobs created before providers were recorded have no name and use Firtoz-Trellis
+ * @param name Provider name stored on the job or sent with the request
+ */
+export function getGenerationProvider(name?: string | null): GenerationProvider {
+  if (!name) {
+    return PROVIDER_FACTORIES['firtoz-trellis']();
+  }
+
+  if (!isGenerationProviderName(name)) {
+    throw new Error(`Unknown generation provider: ${name}`);
+  }
+
+  return PROVIDER_FACTORIES[name]();
+}
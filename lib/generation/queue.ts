@@ -0,0 +1,285 @@
+import { supabaseServer } from '@/lib/supabase-server';
+import { getGenerationProvider } from './providers';
+import { failJob, JOB_ATTEMPT_TTL_MS, scheduleRetry } from './finalize';
+import { classifyFailure, getFailureDetails, hasRetryBudget } from './retry';
+import { recordJobEvent } from './job-events';
+import type { GenerationInput } from './types';
+
+/**
+ * Generation queue
+ * New jobs wait in 'pending' (once fully recorded, see enqueue) until a slot is free
+ * under the per-user and global concurrency limits, then are submitted to their
+ * provider in priority order.
+ * Releases run after a job is created or finishes, and on every scheduled sweep.
+ */
+
+// Status of a job whose model version and model link are still being written; not releasable
+export const PREPARING_JOB_STATUS = 'preparing';
+
+// Status of a job that has not been submitted to its provider yet
+export const PENDING_JOB_STATUS = 'pending';
+
+// Statuses that occupy a concurrency slot
+export const ACTIVE_JOB_STATUSES = ['queued', 'starting', 'processing', 'retrying'];
+
+// Queue priority per credit type; higher is released first
+export const QUEUE_PRIORITY = {
+  free: 0,  // Only ever used the signup credits
+  paid: 10  // Has purchased credits
+} as const;
+
+// How long a releaser holds a job while submitting it
+const SUBMIT_LEASE_MS = 5 * 60 * 1000;
+
+export interface QueueLimits {
+  perUser: number;
+  global: number;
+}
+
+export interface QueuePosition {
+  position: number;          // 1-based place among pending jobs
+  eta_seconds: number;       // Estimated time until the job finishes
+}
+
+export type JobSubmitOutcome =
+  | 'submitted'        // Provider accepted the job
+  | 'retry_scheduled'  // Transient provider error; job is retrying
+  | 'failed'           // Permanent provider error; job failed and was refunded
+  | 'skipped';         // Another caller is submitting it, or it was canceled
+
+/**
+ * Concurrency limits (GENERATION_MAX_ACTIVE_JOBS_PER_USER, GENERATION_MAX_ACTIVE_JOBS)
+ */
+export function getQueueLimits(): QueueLimits {
+  return {
+    perUser: readPositiveInt(process.env.GENERATION_MAX_ACTIVE_JOBS_PER_USER, 2),
+    global: readPositiveInt(process.env.GENERATION_MAX_ACTIVE_JOBS, 10)
+  };
+}
+
+/**
+ * Queue priority for a user's new jobs: users who bought credits go first
+ */
+export async function getJobPriority(userId: string): Promise<number> {
+  const { count, error } = await supabaseServer
+    .from('user_transactions')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('type', 'purchase');
+
+  if (error) {
+    console.error(`Failed to look up credit type for user ${userId}:`, error);
+    return QUEUE_PRIORITY.free;
+  }
+
+  return (count ?? 0) > 0 ? QUEUE_PRIORITY.paid : QUEUE_PRIORITY.free;
+}
+
+/**
+ * Submits pending jobs while concurrency slots are free
+ * Concurrent releasers never submit the same job twice, but may briefly exceed a limit by one
+ * @returns IDs of the jobs that were submitted
+ */
+export async function releasePendingJobs(): Promise<string[]> {
+  const limits = getQueueLimits();
+
+  const { data: activeJobs, error: activeError } = await supabaseServer
+    .from('jobs')
+    .select('user_id')
+    .in('api_status', ACTIVE_JOB_STATUSES);
+
+  if (activeError) {
+    throw new Error(`Failed to count active jobs: ${activeError.message}`);
+  }
+
+  let globalActive = activeJobs?.length ?? 0;
+  if (globalActive >= limits.global) return [];
+
+  const activePerUser = new Map<string, number>();
+  for (const { user_id } of activeJobs ?? []) {
+    activePerUser.set(user_id, (activePerUser.get(user_id) ?? 0) + 1);
+  }
+
+  const { data: pendingJobs, error: pendingError } = await supabaseServer
+    .from('jobs')
+    .select('*')
+    .eq('api_status', PENDING_JOB_STATUS)
+    .order('priority', { ascending: false })
+    .order('created_at', { ascending: true })
+    .limit(100);
+
+  if (pendingError) {
+    throw new Error(`Failed to load pending jobs: ${pendingError.message}`);
+  }
+
+  const released: string[] = [];
+  for (const job of pendingJobs ?? []) {
+    if (globalActive >= limits.global) break;
+
+    const userActive = activePerUser.get(job.user_id) ?? 0;
+    if (userActive >= limits.perUser) continue;
+
+    const outcome = await submitJob(job, PENDING_JOB_STATUS, 1);
+    if (outcome === 'submitted' || outcome === 'retry_scheduled') {
+      globalActive++;
+      activePerUser.set(job.user_id, userActive + 1);
+    }
+    if (outcome === 'submitted') {
+      released.push(job.id);
+    }
+  }
+
+  if (released.length > 0) {
+    console.log(`🚦 Released ${released.length} pending job(s)`);
+  }
+  return released;
+}
+
+/**
+ * Submits a pending or retrying job to its provider, using the inputs recorded on its model version
+ * No credits are charged; the job keeps the charge made when it was created
+ * @param job - jobs row
+ * @param fromStatus - Status the job must still have (guards against cancel and double submission)
+ * @param attempt - Number of the attempt being made (1-based)
+ * @param now - Reference time
+ */
+export async function submitJob(
+  job: any,
+  fromStatus: string,
+  attempt: number,
+  now = new Date()
+): Promise<JobSubmitOutcome> {
+  // Lease the job so concurrent callers do not submit it twice
+  const { data: leased, error: leaseError } = await supabaseServer
+    .from('jobs')
+    .update({ next_attempt_at: new Date(now.getTime() + SUBMIT_LEASE_MS).toISOString() })
+    .eq('id', job.id)
+    .eq('api_status', fromStatus)
+    .or(`next_attempt_at.is.null,next_attempt_at.lte.${now.toISOString()}`)
+    .select('id');
+
+  if (leaseError) throw leaseError;
+  if (!leased || leased.length === 0) return 'skipped';
+
+  const provider = getGenerationProvider(job.provider);
+
+  let externalJobId: string;
+  try {
+    externalJobId = await provider.createJob(await getJobInput(job.id));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Submission failed';
+
+    if (classifyFailure(getFailureDetails(error)) === 'retryable' && hasRetryBudget({ ...job, attempt_count: attempt })) {
+      await scheduleRetry(job, message, attempt);
+      return 'retry_scheduled';
+    }
+
+    const { finalized } = await failJob(job, message);
+    return finalized ? 'failed' : 'skipped';
+  }
+
+  const { data: updated, error: updateError } = await supabaseServer
+    .from('jobs')
+    .update({
+      external_job_id: externalJobId,
+      api_status: 'queued',
+      api_stage: 'queued',
+      progress: 0,
+      error_message: null,
+      attempt_count: attempt,
+      next_attempt_at: null,
+      submitted_at: now.toISOString(),
+      started_at: null,
+      expires_at: new Date(now.getTime() + JOB_ATTEMPT_TTL_MS).toISOString(),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', job.id)
+    .eq('api_status', fromStatus)
+    .select('id');
+
+  if (updateError) throw updateError;
+
+  // Canceled while we were submitting: stop the new prediction again
+  if (!updated || updated.length === 0) {
+    try {
+      await provider.cancelJob(externalJobId);
+    } catch (error) {
+      console.error(`Failed to cancel orphaned prediction ${externalJobId}:`, error);
+    }
+    return 'skipped';
+  }
+
+  await recordJobEvent(job, 'submitted', { attempt, occurredAt: now, detail: `${provider.name}: ${externalJobId}` });
+
+  console.log(`🚀 Submitted job ${job.id} to ${provider.name} as ${externalJobId} (attempt ${attempt})`);
+  return 'submitted';
+}
+
+/**
+ * Place of a pending job in the queue and a rough time until it finishes
+ * @param job - Pending jobs row
+ * @param runSeconds - Typical run time of the job's provider and preset (see durations)
+ */
+export async function getQueuePosition(
+  job: {
+    id: string;
+    priority?: number | null;
+    created_at: string;
+  },
+  runSeconds: number
+): Promise<QueuePosition> {
+  const priority = job.priority ?? QUEUE_PRIORITY.free;
+
+  // Ahead: higher priority, or same priority and created earlier
+  const { count, error } = await supabaseServer
+    .from('jobs')
+    .select('id', { count: 'exact', head: true })
+    .eq('api_status', PENDING_JOB_STATUS)
+    .neq('id', job.id)
+    .or(`priority.gt.${priority},and(priority.eq.${priority},created_at.lt.${job.created_at})`);
+
+  if (error) {
+    throw new Error(`Failed to compute queue position: ${error.message}`);
+  }
+
+  const position = (count ?? 0) + 1;
+  const { global } = getQueueLimits();
+
+  // Jobs leave the queue in waves of `global` slots, each taking about one run
+  return {
+    position,
+    eta_seconds: Math.ceil(position / global) * runSeconds + runSeconds
+  };
+}
+
+// ==================== HELPER FUNCTIONS ====================
+
+/**
+ * Rebuilds the provider input of a job from its model version
+ */
+async function getJobInput(jobId: string): Promise<GenerationInput> {
+  const { data: version, error } = await supabaseServer
+    .from('model_versions')
+    .select('views, generation_params')
+    .eq('job_id', jobId)
+    .single();
+
+  if (error || !version) {
+    throw new Error(`No model version recorded for job ${jobId}`);
+  }
+
+  return {
+    views: version.views,
+    ...(version.generation_params || {}),
+    // Opt-in per generation; versions without the flag never asked for a PLY
+    save_gaussian_ply: version.generation_params?.save_gaussian_ply === true
+  };
+}
+
+/**
+ * Parses a positive integer setting, falling back to a default
+ */
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
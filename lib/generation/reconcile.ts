@@ -0,0 +1,205 @@
+import { supabaseServer } from '@/lib/supabase-server';
+import { getGenerationProvider } from './providers';
+import { applyJobResult, failJob, refundMissedJobs, RETRYING_JOB_STATUS, TERMINAL_JOB_STATUSES } from './finalize';
+import { PENDING_JOB_STATUS, PREPARING_JOB_STATUS, releasePendingJobs, submitJob } from './queue';
+
+/**
+ * Job reconciliation
+ * Brings non-terminal jobs in line with their provider: running jobs get the provider's
+ * latest status, retrying jobs are resubmitted once their backoff has passed, and
+ * expired jobs are failed and refunded, as are jobs whose preparation never finished
+ * (see enqueue). Pending jobs are left to the queue. The sweep
+ * also issues refunds that did not go through when a job was failed or canceled.
+ * Used per user by /api/jobs/refresh, per job by /api/status and for all users by the scheduled sweep.
+ */
+
+// Jobs reconciled per sweep run; the next run picks up the rest
+export const SWEEP_BATCH_SIZE = 100;
+
+// A job still preparing after this long was abandoned by a request that crashed mid-way
+const PREPARING_TIMEOUT_MS = 10 * 60 * 1000;
+
+export type JobReconcileAction =
+  | 'updated'      // Still running (or waiting to retry); status refreshed
+  | 'finalized'    // Reached a terminal state in this run
+  | 'resubmitted'  // Retry submitted to the provider
+  | 'expired'      // Past expires_at or abandoned while preparing; failed and refunded
+  | 'unchanged'    // Nothing to do yet, or another caller got there first
+  | 'error';       // Provider or database call threw
+
+export interface JobReconcileResult {
+  job_id: string;
+  user_id: string;
+  external_job_id: string | null;
+  previous_status: string;
+  status: string;
+  action: JobReconcileAction;
+  error?: string;
+}
+
+export interface JobSweepReport {
+  scanned: number;
+  counts: Record<JobReconcileAction, number>;
+  changed: JobReconcileResult[];
+  errors: JobReconcileResult[];
+  released: string[];  // Pending jobs submitted after reconciling freed their slots
+  refunded: string[];  // Failed or canceled jobs whose missed refund was issued
+}
+
+/**
+ * Reconciles one non-terminal job with its provider
+ * Never throws; failures are reported with the 'error' action
+ * @param job - jobs row
+ * @param now - Reference time for the expiry check
+ */
+export async function reconcileJob(job: any, now = new Date()): Promise<JobReconcileResult> {
+  const base = {
+    job_id: job.id,
+    user_id: job.user_id,
+    external_job_id: job.external_job_id ?? null,
+    previous_status: job.api_status
+  };
+
+  try {
+    if (TERMINAL_JOB_STATUSES.includes(job.api_status) || job.api_status === PENDING_JOB_STATUS) {
+      return { ...base, status: job.api_status, action: 'unchanged' };
+    }
+
+    if (job.api_status === PREPARING_JOB_STATUS) {
+      if (now.getTime() - new Date(job.created_at).getTime() < PREPARING_TIMEOUT_MS) {
+        return { ...base, status: job.api_status, action: 'unchanged' };
+      }
+      const { status, finalized } = await failJob(job, 'Generation could not be queued');
+      return { ...base, status, action: finalized ? 'expired' : 'unchanged' };
+    }
+
+    if (job.api_status === RETRYING_JOB_STATUS) {
+      if (job.next_attempt_at && new Date(job.next_attempt_at) > now) {
+        return { ...base, status: job.api_status, action: 'unchanged' };
+      }
+      return { ...base, ...(await resubmitJob(job, now)) };
+    }
+
+    // Fail (and refund) expired jobs, after stopping the prediction so it stops billing
+    if (job.expires_at && new Date(job.expires_at) < now) {
+      await cancelExpiredPrediction(job);
+      const { status, finalized } = await failJob(job, 'Job expired');
+      return { ...base, status, action: finalized ? 'expired' : 'unchanged' };
+    }
+
+    const provider = getGenerationProvider(job.provider);
+    const currentStatus = await provider.getJobStatus(job.external_job_id);
+    const { status, finalized } = await applyJobResult(job, currentStatus);
+
+    if (finalized) {
+      return { ...base, status, action: 'finalized' };
+    }
+    if (TERMINAL_JOB_STATUSES.includes(status)) {
+      return { ...base, status, action: 'unchanged' };
+    }
+    return { ...base, status, action: status === job.api_status ? 'unchanged' : 'updated' };
+  } catch (error) {
+    console.error(`Error reconciling job ${job.id}:`, error);
+    return {
+      ...base,
+      status: job.api_status,
+      action: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * Reconciles every submitted, non-terminal job across all users (retrying jobs once their
+ * next attempt is due), oldest first, then fills freed slots from the queue
+ * @param limit - Maximum number of jobs to process in this run
+ */
+export async function sweepActiveJobs(limit = SWEEP_BATCH_SIZE): Promise<JobSweepReport> {
+  const now = new Date();
+
+  // Pending jobs have nothing to reconcile; releasePendingJobs handles them below.
+  // Retrying jobs are only loaded once due, so a backlog of them cannot fill every page
+  const { data: jobs, error } = await supabaseServer
+    .from('jobs')
+    .select('*')
+    .not('api_status', 'in', `(${[...TERMINAL_JOB_STATUSES, PENDING_JOB_STATUS].join(',')})`)
+    .or(`api_status.neq.${RETRYING_JOB_STATUS},next_attempt_at.is.null,next_attempt_at.lte.${now.toISOString()}`)
+    .order('created_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to load active jobs: ${error.message}`);
+  }
+
+  const report: JobSweepReport = {
+    scanned: jobs?.length ?? 0,
+    counts: { updated: 0, finalized: 0, resubmitted: 0, expired: 0, unchanged: 0, error: 0 },
+    changed: [],
+    errors: [],
+    released: [],
+    refunded: []
+  };
+
+  // Sequential on purpose: keeps provider API calls and R2 uploads within rate limits
+  for (const job of jobs ?? []) {
+    const result = await reconcileJob(job, now);
+    report.counts[result.action]++;
+
+    if (result.action === 'error') {
+      report.errors.push(result);
+    } else if (result.action !== 'unchanged') {
+      report.changed.push(result);
+    }
+  }
+
+  try {
+    report.released = await releasePendingJobs();
+  } catch (error) {
+    console.error('Failed to release pending jobs:', error);
+  }
+
+  try {
+    report.refunded = await refundMissedJobs(limit);
+  } catch (error) {
+    console.error('Failed to refund missed jobs:', error);
+  }
+
+  return report;
+}
+
+// ==================== HELPER FUNCTIONS ====================
+
+/**
+ * Asks the provider to stop the prediction of an expired job
+ * Best effort: the job is failed and refunded whether or not the provider accepts it
+ */
+async function cancelExpiredPrediction(job: any) {
+  if (!job.external_job_id) return;
+
+  try {
+    await getGenerationProvider(job.provider).cancelJob(job.external_job_id);
+  } catch (error) {
+    console.error(`Failed to cancel prediction ${job.external_job_id} of expired job ${job.id}:`, error);
+  }
+}
+
+/**
+ * Submits a retrying job to its provider again
+ */
+async function resubmitJob(
+  job: any,
+  now: Date
+): Promise<{ status: string; action: JobReconcileAction }> {
+  const outcome = await submitJob(job, RETRYING_JOB_STATUS, (job.attempt_count ?? 1) + 1, now);
+
+  switch (outcome) {
+    case 'submitted':
+      return { status: 'queued', action: 'resubmitted' };
+    case 'retry_scheduled':
+      return { status: RETRYING_JOB_STATUS, action: 'updated' };
+    case 'failed':
+      return { status: 'failed', action: 'finalized' };
+    default:
+      return { status: job.api_status, action: 'unchanged' };
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Retry policy for generation jobs
+ * Classifies failures as transient or permanent and computes the backoff before a
+ * retryable job is resubmitted. Submission errors are classified on their HTTP status
+ * or network error code; failed predictions only carry the provider's message, which
+ * is matched against known transient causes. Resubmissions reuse the original charge.
+ */
+
+// Submissions per job, including the first one
+export const MAX_JOB_ATTEMPTS = 3;
+
+// Delay before the first retry; doubles with every further attempt
+export const RETRY_BASE_DELAY_SECONDS = 30;
+
+// Upper bound for a single backoff delay
+export const RETRY_MAX_DELAY_SECONDS = 10 * 60;
+
+export type FailureClass = 'retryable' | 'permanent';
+
+// What is known about a failure: the provider's HTTP status and the network error code
+// are present for failed API calls, only the message for failed predictions
+export interface FailureDetails {
+  message?: string | null;
+  httpStatus?: number;
+  code?: string;
+}
+
+// Responses that mean "not now" rather than "never"
+const RETRYABLE_HTTP_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+// Node and undici errors for connections that failed or dropped
+const RETRYABLE_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'EPIPE',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT'
+]);
+
+// Infrastructure problems reported in a prediction's error message
+const RETRYABLE_MESSAGE_PATTERNS: RegExp[] = [
+  /time(d)?[ -]?out/i,
+  /socket hang up|fetch failed|network error/i,
+  /rate limit|too many requests/i,
+  /bad gateway|service unavailable|gateway timeout|internal server error/i,
+  /out of memory|\bOOM\b/i,
+  /preempted|worker (was )?(lost|terminated|restarted)|interrupted/i,
+  /temporarily|try again/i
+];
+
+/**
+ * Classifies a failure
+ * An HTTP status decides on its own; otherwise a known network error code, and finally
+ * the message. Anything not recognized as transient is treated as permanent
+ * (e.g. invalid input images)
+ * @param failure - Error message of a failed prediction, or the details of a failed call
+ */
+export function classifyFailure(failure?: string | FailureDetails | null): FailureClass {
+  const { message, httpStatus, code } = typeof failure === 'string' || !failure
+    ? { message: failure } as FailureDetails
+    : failure;
+
+  if (httpStatus !== undefined) {
+    return RETRYABLE_HTTP_STATUSES.has(httpStatus) ? 'retryable' : 'permanent';
+  }
+  if (code && RETRYABLE_ERROR_CODES.has(code)) {
+    return 'retryable';
+  }
+  if (!message) return 'permanent';
+  return RETRYABLE_MESSAGE_PATTERNS.some(pattern => pattern.test(message))
+    ? 'retryable'
+    : 'permanent';
+}
+
+/**
+ * Extracts the failure details of a thrown error
+ * Reads the HTTP status of provider API errors (Replicate's `response.status`, or a
+ * `status` set by our clients) and the error code, including the one fetch nests in `cause`
+ */
+export function getFailureDetails(error: unknown): FailureDetails {
+  const err = error as {
+    message?: unknown;
+    status?: unknown;
+    response?: { status?: unknown };
+    code?: unknown;
+    cause?: { code?: unknown };
+  } | null;
+
+  const httpStatus = err?.response?.status ?? err?.status;
+  const code = err?.code ?? err?.cause?.code;
+
+  return {
+    message: error instanceof Error ? error.message : typeof err?.message === 'string' ? err.message : null,
+    ...(typeof httpStatus === 'number' && { httpStatus }),
+    ...(typeof code === 'string' && { code })
+  };
+}
+
+/**
+ * Checks whether a job may be submitted again
+ * @param job - Job with its attempt counters (missing values mean a single, first attempt)
+ */
+export function hasRetryBudget(job: { attempt_count?: number | null; max_attempts?: number | null }): boolean {
+  return (job.attempt_count ?? 1) < (job.max_attempts ?? MAX_JOB_ATTEMPTS);
+}
+
+/**
+ * Time to wait before the next attempt
+ * @param failedAttempt - Number of the attempt that just failed (1-based)
+ * @param now - Reference time
+ */
+export function getNextAttemptAt(failedAttempt: number, now = new Date()): Date {
+  const delaySeconds = Math.min(
+    RETRY_BASE_DELAY_SECONDS * 2 ** Math.max(failedAttempt - 1, 0),
+    RETRY_MAX_DELAY_SECONDS
+  );
+  return new Date(now.getTime() + delaySeconds * 1000);
+}
@@ -0,0 +1,74 @@
+/**
+ * 3D Generation Provider Types
+ * Common contract implemented by every backend that can turn photos into a 3D model
+ */
+
+// Status values shared by all providers (Replicate naming is used as the canonical set)
+export type PredictionStatus = "starting" | "processing" | "succeeded" | "failed" | "canceled";
+
+// Identifiers of the providers that can run a generation job
+export type GenerationProviderName = 'firtoz-trellis' | 'hunyuan3d' | 'mock';
+
+// Image URLs for each view of the subject
+export interface GenerationViews {
+  front: string;   // Front view image URL (required)
+  back?: string;   // Back view image URL (optional)
+  left?: string;   // Left view image URL (optional)
+  right?: string;  // Right view image URL (optional)
+}
+
+// Provider-agnostic generation request
+export interface GenerationInput {
+  views: GenerationViews;
+  texture_size?: number;      // Texture size in pixels
+  mesh_simplify?: number;     // Mesh simplification ratio (0-1)
+  ss_sampling_steps?: number; // Sparse structure sampling steps
+  save_gaussian_ply?: boolean; // Whether to also produce a Gaussian PLY
+}
+
+// Normalized status/result of a generation job
+export interface GenerationResult {
+  id: string;               // External job ID assigned by the provider
+  status: PredictionStatus;
+  progress?: number;        // Progress percentage (0-100), when the provider reports it
+  output?: {
+    model_file: string;     // URL to generated GLB
+    gaussian_ply?: string;  // URL to the Gaussian splat PLY, when requested
+  };
+  error?: string;
+}
+
+/**
+ * Contract for a 3D generation backend
+ */
+export interface GenerationProvider {
+  readonly name: GenerationProviderName;
+
+  // Whether save_gaussian_ply is honored (a PLY is returned next to the GLB)
+  readonly supportsGaussianPly: boolean;
+
+  // Whether the quality preset parameters (texture size, simplification, sampling steps)
+  // are honored; providers without them only run the default preset
+  readonly supportsQualityPresets: boolean;
+
+  /**
+   * Start a generation job
+   * @returns External job ID to store on the jobs row
+   */
+  createJob(input: GenerationInput): Promise<string>;
+
+  /**
+   * Fetch the current status of a job from the provider
+   */
+  getJobStatus(externalJobId: string): Promise<GenerationResult>;
+
+  /**
+   * Ask the provider to stop a running job
+   */
+  cancelJob(externalJobId: string): Promise<void>;
+
+  /**
+   * Convert a raw provider payload (API or webhook body) into a GenerationResult
+   */
+  normalizeOutput(payload: any): GenerationResult;
+}
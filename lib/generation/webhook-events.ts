@@ -0,0 +1,153 @@
+import { supabaseServer } from '@/lib/supabase-server';
+import { getGenerationProvider } from './providers';
+import { applyJobResult, TERMINAL_JOB_STATUSES } from './finalize';
+
+/**
+ * Webhook delivery log
+ * Every provider webhook is stored before it is applied, keyed by delivery ID,
+ * so repeated deliveries are applied once and stored events can be replayed.
+ */
+
+// Maximum age (and clock skew) accepted for a delivery timestamp
+export const WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS = 5 * 60;
+
+export type WebhookEventOutcome =
+  | 'pending'      // Stored, not processed yet
+  | 'applied'      // Result applied to the job
+  | 'ignored'      // Job already terminal; late or out-of-order delivery
+  | 'unknown_job'  // No job for the prediction
+  | 'rejected'     // Timestamp outside the tolerance window
+  | 'error';       // Processing threw
+
+export interface WebhookEvent {
+  id: string;
+  delivery_id: string;
+  prediction_id: string;
+  status: string;
+  payload: any;
+  delivered_at: string | null;
+  received_at: string;
+  processed_at: string | null;
+  outcome: WebhookEventOutcome;
+  error_message: string | null;
+  replay_count: number;
+}
+
+/**
+ * Stores a delivery unless one with the same delivery ID already exists
+ * @returns The stored event and whether it had been received before
+ */
+export async function recordWebhookDelivery(delivery: {
+  deliveryId: string;
+  predictionId: string;
+  status: string;
+  payload: any;
+  deliveredAt: Date | null;
+}): Promise<{ event: WebhookEvent; isDuplicate: boolean }> {
+  const { data, error } = await supabaseServer
+    .from('webhook_events')
+    .upsert({
+      delivery_id: delivery.deliveryId,
+      prediction_id: delivery.predictionId,
+      status: delivery.status,
+      payload: delivery.payload,
+      delivered_at: delivery.deliveredAt?.toISOString() ?? null,
+      outcome: 'pending'
+    }, { onConflict: 'delivery_id', ignoreDuplicates: true })
+    .select();
+
+  if (error) {
+    throw new Error(`Failed to store webhook event: ${error.message}`);
+  }
+
+  if (data && data.length > 0) {
+    return { event: data[0] as WebhookEvent, isDuplicate: false };
+  }
+
+  const { data: existing, error: existingError } = await supabaseServer
+    .from('webhook_events')
+    .select('*')
+    .eq('delivery_id', delivery.deliveryId)
+    .single();
+
+  if (existingError) {
+    throw new Error(`Failed to load webhook event: ${existingError.message}`);
+  }
+
+  return { event: existing as WebhookEvent, isDuplicate: true };
+}
+
+/**
+ * Checks that a delivery timestamp is within the tolerance window of now
+ */
+export function isTimestampWithinTolerance(deliveredAt: Date, now = new Date()): boolean {
+  const skewSeconds = Math.abs(now.getTime() - deliveredAt.getTime()) / 1000;
+  return skewSeconds <= WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS;
+}
+
+/**
+ * Applies a stored event to its job and records the outcome
+ * Terminal jobs are never changed, so duplicates, regressions (e.g. failed after succeeded)
+ * and replays of already applied events are harmless
+ */
+export async function processWebhookEvent(event: WebhookEvent): Promise<WebhookEventOutcome> {
+  try {
+    // Replicate webhooks are only sent for Firtoz-Trellis predictions
+    const result = getGenerationProvider('firtoz-trellis').normalizeOutput(event.payload);
+
+    const { data: job, error: jobError } = await supabaseServer
+      .from('jobs')
+      .select('id, user_id, api_status, credits_charged, free_model, attempt_count, max_attempts')
+      .eq('external_job_id', event.prediction_id)
+      .maybeSingle();
+
+    if (jobError) throw jobError;
+
+    if (!job) {
+      console.warn(`Webhook for unknown prediction ${event.prediction_id}, ignoring`);
+      await markWebhookEvent(event.id, 'unknown_job');
+      return 'unknown_job';
+    }
+
+    if (TERMINAL_JOB_STATUSES.includes(job.api_status)) {
+      console.log(`Ignoring ${result.status} webhook for terminal job ${job.id} (${job.api_status})`);
+      await markWebhookEvent(event.id, 'ignored');
+      return 'ignored';
+    }
+
+    const { finalized, status } = await applyJobResult(job, result);
+
+    // Lost a race with another finalizer: the job was terminal by the time we wrote
+    const outcome: WebhookEventOutcome =
+      TERMINAL_JOB_STATUSES.includes(status) && !finalized ? 'ignored' : 'applied';
+    await markWebhookEvent(event.id, outcome);
+    return outcome;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Failed to process webhook event ${event.id}:`, error);
+    await markWebhookEvent(event.id, 'error', message);
+    return 'error';
+  }
+}
+
+/**
+ * Records how an event was handled
+ */
+export async function markWebhookEvent(
+  eventId: string,
+  outcome: WebhookEventOutcome,
+  errorMessage: string | null = null
+) {
+  const { error } = await supabaseServer
+    .from('webhook_events')
+    .update({
+      outcome,
+      error_message: errorMessage,
+      processed_at: new Date().toISOString()
+    })
+    .eq('id', eventId);
+
+  if (error) {
+    console.error(`Failed to record outcome for webhook event ${eventId}:`, error);
+  }
+}
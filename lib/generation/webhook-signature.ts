@@ -0,0 +1,60 @@
+import crypto from 'crypto';
+
+/**
+ * Standard Webhooks signatures, as sent by Replicate
+ * The signed content is `${webhook-id}.${webhook-timestamp}.${body}`; the webhook-signature
+ * header holds one or more space-separated `v1,<base64 HMAC-SHA256>` entries (several
+ * while the secret is being rotated). The secret is `whsec_` followed by the base64 key.
+ */
+
+const SECRET_PREFIX = 'whsec_';
+const SIGNATURE_VERSION = 'v1';
+
+// Headers of one delivery needed to check its signature
+export interface WebhookSignatureHeaders {
+  id: string;
+  timestamp: string;
+  signature: string | null;
+}
+
+/**
+ * Builds the webhook-signature header value for a delivery
+ */
+export function signWebhook(id: string, timestamp: string, body: string, secret: string): string {
+  return `${SIGNATURE_VERSION},${computeSignature(id, timestamp, body, secret)}`;
+}
+
+/**
+ * Checks that any v1 signature of the header matches the delivery
+ * Comparison is constant-time; entries of other versions are skipped
+ */
+export function verifyWebhookSignature(headers: WebhookSignatureHeaders, body: string, secret: string): boolean {
+  if (!headers.signature) return false;
+
+  const expected = Buffer.from(computeSignature(headers.id, headers.timestamp, body, secret), 'base64');
+
+  return headers.signature.split(' ').some(entry => {
+    const [version, signature] = entry.split(',');
+    if (version !== SIGNATURE_VERSION || !signature) return false;
+
+    const received = Buffer.from(signature, 'base64');
+    return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+  });
+}
+
+// ==================== HELPER FUNCTIONS ====================
+
+function computeSignature(id: string, timestamp: string, body: string, secret: string): string {
+  return crypto
+    .createHmac('sha256', decodeSecret(secret))
+    .update(`${id}.${timestamp}.${body}`)
+    .digest('base64');
+}
+
+/**
+ * The signing key is the base64 part of the secret
+ */
+function decodeSecret(secret: string): Buffer {
+  const encoded = secret.startsWith(SECRET_PREFIX) ? secret.slice(SECRET_PREFIX.length) : secret;
+  return Buffer.from(encoded, 'base64');
+}
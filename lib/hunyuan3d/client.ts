@@ -96,8 +96,9 @@ export class Hunyuan3DClient {
       });
 
       if (!response.ok) {
-        const errorData: any = await response.json();
-        throw new Error(errorData.detail || errorData.message || 'Job creation failed');
+        // Gateways answer with HTML, so the body may not be JSON
+        const errorData: any = await response.json().catch(() => ({}));
+        throw new Hunyuan3DApiError(errorData.detail || errorData.message || 'Job creation failed', response.status);
       }
 
       return await response.json() as CreateJobResponse;
@@ -141,3 +142,15 @@ export class Hunyuan3DClient {
     }
   }
 }
+
+// ==================== CUSTOM ERROR CLASSES ====================
+
+/**
+ * Error response of the Hunyuan3D API, with its HTTP status for retry decisions
+ */
+export class Hunyuan3DApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'Hunyuan3DApiError';
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Hunyuan3D Generation Provider
+ * Adapts the Hunyuan3D API client to the common GenerationProvider contract
+ */
+
+import { fetchRemoteImage } from '../batch/remote-image';
+import { Hunyuan3DClient } from './client';
+import { DEFAULT_GENERATION_OPTIONS, JobStatus, JobStatusResponse } from './types';
+import type {
+  GenerationInput,
+  GenerationProvider,
+  GenerationResult,
+  PredictionStatus
+} from '../generation/types';
+
+// Map Hunyuan3D job statuses to the shared prediction statuses
+const STATUS_MAP: Record<JobStatus, PredictionStatus> = {
+  queued: 'starting',
+  processing: 'processing',
+  completed: 'succeeded',
+  failed: 'failed'
+};
+
+export class Hunyuan3DService implements GenerationProvider {
+  readonly name = 'hunyuan3d' as const;
+  readonly supportsGaussianPly = false;
+  // The API only takes PBR/remesh/texture switches, so every job runs the same settings
+  readonly supportsQualityPresets = false;
+  private client: Hunyuan3DClient;
+
+  constructor() {
+    this.client = new Hunyuan3DClient();
+  }
+
+  async createJob(input: GenerationInput): Promise<string> {
+    const { views } = input;
+
+    // Hunyuan3D expects multipart file uploads, so fetch each view first
+    const [frontView, backView, sideView, topView] = await Promise.all([
+      this.fetchImage(views.front, 'front'),
+      views.back ? this.fetchImage(views.back, 'back') : undefined,
+      views.left ? this.fetchImage(views.left, 'left') : undefined,
+      views.right ? this.fetchImage(views.right, 'right') : undefined
+    ]);
+
+    console.log('🚀 Starting Hunyuan3D job');
+    const response = await this.client.createJob({
+      frontView: frontView!,
+      backView,
+      sideView,
+      topView,
+      options: DEFAULT_GENERATION_OPTIONS
+    });
+
+    return response.job_id;
+  }
+
+  async getJobStatus(externalJobId: string): Promise<GenerationResult> {
+    const response = await this.client.getJobStatus(externalJobId);
+    return this.normalizeOutput({ ...response, job_id: externalJobId });
+  }
+
+  async cancelJob(externalJobId: string): Promise<void> {
+    // The Hunyuan3D API has no cancel endpoint; the job is abandoned on our side
+    console.warn(`Hunyuan3D does not support cancellation, abandoning job ${externalJobId}`);
+  }
+
+  normalizeOutput(payload: JobStatusResponse & { job_id: string }): GenerationResult {
+    return {
+      id: payload.job_id,
+      status: STATUS_MAP[payload.status] || 'processing',
+      progress: payload.progress,
+      ...(payload.model_urls?.glb && { output: { model_file: payload.model_urls.glb } }),
+      ...(payload.detail && { error: payload.detail })
+    };
+  }
+
+  /**
+   * Download an image URL into a File for multipart upload
+   * View URLs come from the request, so only public hosts are fetched, with the same
+   * redirect, size and image-type checks as manifest imports
+   */
+  private async fetchImage(url: string, view: string): Promise<File> {
+    try {
+      const { bytes, contentType, extension } = await fetchRemoteImage(url);
+      return new File([bytes], `${view}.${extension}`, { type: contentType });
+    } catch (error) {
+      throw new Error(`Failed to fetch ${view} image: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  }
+}
@@ -0,0 +1,199 @@
+import crypto from "crypto";
+import type { FirtozTrellisInput, FirtozTrellisOutput } from "../firtoz-trellis/service";
+import type {
+  GenerationInput,
+  GenerationProvider,
+  GenerationResult,
+  PredictionStatus
+} from "../generation/types";
+import { signWebhook } from "../generation/webhook-signature";
+
+/**
+ * Offline stand-in for FirtozTrellisService
+ *
+ * Predictions live in memory and move through starting → processing → succeeded
+ * on a timeline set by MOCK_GENERATION_STARTING_MS / MOCK_GENERATION_PROCESSING_MS.
+ * The output is the bundled sample GLB, and on completion a signed Replicate-style
+ * webhook is sent to /api/webhooks/replicate, so the whole flow runs without network.
+ */
+
+type MockPrediction = {
+  id: string;
+  input: FirtozTrellisInput;
+  createdAt: number;
+  canceled: boolean;
+  webhookTimer?: ReturnType<typeof setTimeout>;
+};
+
+// Sample model served from /public
+const SAMPLE_MODEL_PATH = "/samples/mock-model.glb";
+
+// Keep predictions on globalThis so every route bundle in the dev server shares them
+const globalStore = globalThis as typeof globalThis & {
+  __mockTrellisPredictions?: Map<string, MockPrediction>;
+};
+const predictions = globalStore.__mockTrellisPredictions ??= new Map<string, MockPrediction>();
+
+export class MockTrellisService implements GenerationProvider {
+  readonly name = 'mock' as const;
+  readonly supportsGaussianPly = false;
+  readonly supportsQualityPresets = true;
+  private startingMs: number;
+  private processingMs: number;
+  private baseUrl: string;
+
+  constructor() {
+    this.startingMs = Number(process.env.MOCK_GENERATION_STARTING_MS ?? 2000);
+    this.processingMs = Number(process.env.MOCK_GENERATION_PROCESSING_MS ?? 8000);
+    this.baseUrl = (process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000').replace(/\/+$/, '');
+  }
+
+  async createPrediction(input: FirtozTrellisInput): Promise<string> {
+    if (!input.images?.length) {
+      throw new Error("At least one image is required");
+    }
+
+    const id = `mock-${crypto.randomBytes(10).toString('hex')}`;
+    const prediction: MockPrediction = { id, input, createdAt: Date.now(), canceled: false };
+
+    // Mirror the real service: no webhook in test runs
+    if (process.env.NODE_ENV !== 'test') {
+      prediction.webhookTimer = setTimeout(
+        () => this.sendWebhook(id),
+        this.startingMs + this.processingMs
+      );
+    }
+
+    predictions.set(id, prediction);
+    console.log(`🧪 Mock prediction created: ${id} (${input.images.length} image(s))`);
+
+    return id;
+  }
+
+  async getPredictionStatus(id: string): Promise<FirtozTrellisOutput> {
+    const prediction = predictions.get(id);
+
+    if (!prediction) {
+      return {
+        id,
+        status: 'failed',
+        error: 'Prediction expired or not found on mock provider'
+      };
+    }
+
+    const now = Date.now();
+    const status = this.statusAt(prediction, now);
+    return {
+      id,
+      status,
+      ...(status === 'processing' && { progress: this.progressAt(prediction, now) }),
+      ...(status === 'succeeded' && { output: { model_file: this.sampleModelUrl() } })
+    };
+  }
+
+  async cancelPrediction(id: string): Promise<void> {
+    const prediction = predictions.get(id);
+    if (!prediction) return;
+
+    prediction.canceled = true;
+    if (prediction.webhookTimer) {
+      clearTimeout(prediction.webhookTimer);
+    }
+  }
+
+  // ==================== GenerationProvider ====================
+
+  async createJob(input: GenerationInput): Promise<string> {
+    const { views, ...params } = input;
+    const images = [views.front, views.back, views.left, views.right]
+      .filter((url): url is string => Boolean(url));
+
+    return this.createPrediction({ images, ...params, generate_model: true });
+  }
+
+  async getJobStatus(externalJobId: string): Promise<GenerationResult> {
+    return this.getPredictionStatus(externalJobId);
+  }
+
+  async cancelJob(externalJobId: string): Promise<void> {
+    return this.cancelPrediction(externalJobId);
+  }
+
+  normalizeOutput(payload: any): GenerationResult {
+    return {
+      id: payload.id,
+      status: payload.status as PredictionStatus,
+      ...(payload.output?.model_file && { output: { model_file: payload.output.model_file } }),
+      ...(payload.error && { error: String(payload.error) })
+    };
+  }
+
+  // ==================== Internals ====================
+
+  /**
+   * Derives the status of a prediction from the time elapsed since creation
+   */
+  private statusAt(prediction: MockPrediction, now: number): PredictionStatus {
+    if (prediction.canceled) return 'canceled';
+
+    const elapsed = now - prediction.createdAt;
+    if (elapsed < this.startingMs) return 'starting';
+    if (elapsed < this.startingMs + this.processingMs) return 'processing';
+    return 'succeeded';
+  }
+
+  /**
+   * Share of the simulated processing time that has elapsed, as a percentage
+   */
+  private progressAt(prediction: MockPrediction, now: number): number {
+    const elapsed = now - prediction.createdAt - this.startingMs;
+    return Math.max(0, Math.min(99, Math.round((elapsed / this.processingMs) * 100)));
+  }
+
+  private sampleModelUrl(): string {
+    return `${this.baseUrl}${SAMPLE_MODEL_PATH}`;
+  }
+
+  /**
+   * Posts a completed-prediction payload to our webhook, signed like Replicate's
+   */
+  private async sendWebhook(id: string): Promise<void> {
+    const secret = process.env.REPLICATE_WEBHOOK_SECRET;
+    if (!secret) {
+      console.warn("REPLICATE_WEBHOOK_SECRET not set. Skipping mock webhook.");
+      return;
+    }
+
+    const prediction = predictions.get(id);
+    if (!prediction || prediction.canceled) return;
+
+    const body = JSON.stringify({
+      id,
+      status: 'succeeded',
+      input: prediction.input,
+      output: { model_file: this.sampleModelUrl() },
+      error: null,
+      created_at: new Date(prediction.createdAt).toISOString(),
+      completed_at: new Date().toISOString()
+    });
+    const deliveryId = `msg_${crypto.randomBytes(12).toString('hex')}`;
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const signature = signWebhook(deliveryId, timestamp, body, secret);
+
+    try {
+      const response = await fetch(`${this.baseUrl}/api/webhooks/replicate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'webhook-id': deliveryId,
+          'webhook-timestamp': timestamp,
+          'webhook-signature': signature
+        },
+        body
+      });
+      console.log(`🧪 Mock webhook for ${id} delivered: ${response.status}`);
+    } catch (error) {
+      console.error(`Mock webhook for ${id} failed:`, error);
+    }
+  }
+}
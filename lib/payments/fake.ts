@@ -0,0 +1,97 @@
+import crypto from 'crypto';
+import { signPayload, verifySignature } from './signature';
+import { normalizeStripeEvent } from './stripe';
+import type { CheckoutRequest, CheckoutSession, PaymentEvent, PaymentProvider } from './types';
+
+/**
+ * Offline stand-in for StripePaymentProvider
+ *
+ * Checkout opens our own /billing/fake-checkout page instead of a hosted one. Paying or
+ * canceling there sends a Stripe-shaped event, signed with FAKE_PAYMENTS_WEBHOOK_SECRET,
+ * to /api/webhooks/payments, so the whole purchase flow runs without network.
+ */
+
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake' as const;
+  private baseUrl: string;
+
+  constructor() {
+    this.baseUrl = (process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000').replace(/\/+$/, '');
+  }
+
+  async createCheckoutSession(request: CheckoutRequest): Promise<CheckoutSession> {
+    const providerSessionId = `cs_fake_${crypto.randomBytes(12).toString('hex')}`;
+    const url = `${this.baseUrl}/billing/fake-checkout?session_id=${encodeURIComponent(request.paymentSessionId)}`;
+
+    console.log(`🧪 Fake checkout created: ${providerSessionId}`);
+    return { providerSessionId, url };
+  }
+
+  parseWebhook(rawBody: string, headers: Headers): PaymentEvent {
+    verifySignature(rawBody, headers.get('stripe-signature'), getFakeWebhookSecret());
+    return normalizeStripeEvent(JSON.parse(rawBody));
+  }
+
+  /**
+   * Finishes a fake checkout by delivering the event a real provider would send
+   * @param session - Recurring sessions start a fake subscription when paid
+   * @param outcome - 'paid' completes the payment, 'canceled' expires the session
+   * @returns HTTP status of the webhook delivery
+   */
+  async completeCheckout(
+    session: {
+      providerSessionId: string;
+      paymentSessionId: string;
+      amountCents: number;
+      currency: string;
+      recurring?: boolean;
+    },
+    outcome: 'paid' | 'canceled'
+  ): Promise<number> {
+    const subscription = session.recurring && outcome === 'paid'
+      ? `sub_fake_${crypto.randomBytes(12).toString('hex')}`
+      : null;
+
+    const body = JSON.stringify({
+      id: `evt_fake_${crypto.randomBytes(12).toString('hex')}`,
+      type: outcome === 'paid' ? 'checkout.session.completed' : 'checkout.session.expired',
+      created: Math.floor(Date.now() / 1000),
+      data: {
+        object: {
+          id: session.providerSessionId,
+          client_reference_id: session.paymentSessionId,
+          subscription,
+          metadata: { payment_session_id: session.paymentSessionId },
+          amount_total: session.amountCents,
+          currency: session.currency,
+          payment_status: outcome === 'paid' ? 'paid' : 'unpaid'
+        }
+      }
+    });
+
+    const response = await fetch(`${this.baseUrl}/api/webhooks/payments`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Stripe-Signature': signPayload(body, getFakeWebhookSecret())
+      },
+      body
+    });
+
+    console.log(`🧪 Fake payment webhook for ${session.providerSessionId} delivered: ${response.status}`);
+    return response.status;
+  }
+
+  async cancelSubscription(subscriptionId: string): Promise<void> {
+    // Fake subscriptions never bill again, so there is nothing to stop
+    console.log(`🧪 Fake subscription ${subscriptionId} canceled`);
+  }
+}
+
+function getFakeWebhookSecret(): string {
+  const secret = process.env.FAKE_PAYMENTS_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new Error('FAKE_PAYMENTS_WEBHOOK_SECRET not configured');
+  }
+  return secret;
+}
@@ -0,0 +1,23 @@
+import type { CreditPackage } from './types';
+
+/**
+ * Credit packages
+ * Prices and credits are defined here only, so the amount charged at checkout and the
+ * credits granted by the webhook cannot drift from what the billing page shows
+ */
+
+export const PAYMENT_CURRENCY = 'usd';
+
+export const CREDIT_PACKAGES: CreditPackage[] = [
+  { id: 'credits-10', price: 10, credits: 10 },
+  { id: 'credits-20', price: 20, credits: 22, popular: true },
+  { id: 'credits-30', price: 30, credits: 35 },
+  { id: 'credits-40', price: 40, credits: 50 }
+];
+
+/**
+ * Looks up a package by ID
+ */
+export function getCreditPackage(id: string | null | undefined): CreditPackage | undefined {
+  return CREDIT_PACKAGES.find(pkg => pkg.id === id);
+}
@@ -0,0 +1,50 @@
+import { FakePaymentProvider } from './fake';
+import { StripePaymentProvider } from './stripe';
+import type { PaymentProvider, PaymentProviderName } from './types';
+
+/**
+ * Registry of available payment providers
+ * Each factory is only invoked when its provider is requested
+ */
+const PROVIDER_FACTORIES: Record<PaymentProviderName, () => PaymentProvider> = {
+  'stripe': () => new StripePaymentProvider(),
+  'fake': () => {
+    // The offline provider is for local development and CI only
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('Fake payment provider is not available in production');
+    }
+    return new FakePaymentProvider();
+  }
+};
+
+/**
+ * Checks whether a string names a registered provider
+ */
+export function isPaymentProviderName(name: string): name is PaymentProviderName {
+  return Object.prototype.hasOwnProperty.call(PROVIDER_FACTORIES, name);
+}
+
+/**
+ * Provider that takes payments (PAYMENT_PROVIDER; defaults to Stripe when
+ * STRIPE_SECRET_KEY is set and to the fake provider otherwise)
+ */
+export function getPaymentProviderName(): PaymentProviderName {
+  const configured = process.env.PAYMENT_PROVIDER;
+
+  if (configured && isPaymentProviderName(configured)) {
+    return configured;
+  }
+
+  if (configured) {
+    console.warn(`⚠️ Unknown PAYMENT_PROVIDER "${configured}", falling back to the default`);
+  }
+
+  return process.env.STRIPE_SECRET_KEY ? 'stripe' : 'fake';
+}
+
+/**
+ * Returns the provider instance for the given name (default: the configured provider)
+ */
+export function getPaymentProvider(name: PaymentProviderName = getPaymentProviderName()): PaymentProvider {
+  return PROVIDER_FACTORIES[name]();
+}
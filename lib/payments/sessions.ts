@@ -0,0 +1,315 @@
+import { supabaseServer } from '@/lib/supabase-server';
+import type { PaymentSession, Plan } from '@/lib/supabase/types';
+import { PAYMENT_CURRENCY } from './packages';
+import { getPaymentProvider } from './providers';
+import type { CreditPackage, PaymentEvent, PaymentProvider } from './types';
+
+/**
+ * Credit and plan purchases
+ * Every checkout gets a payment_sessions row before the provider is called; the signed
+ * webhook completes it through complete_payment_session(), which grants the credits as
+ * a 'purchase' transaction at most once per session. A plan checkout also starts the
+ * plan (see lib/billing/plans.ts) and replaces the subscription of the previous plan;
+ * the subscription's later invoices are recorded as plan_invoices, which pay for renewals.
+ */
+
+export interface StartedCheckout {
+  sessionId: string;
+  url: string;
+}
+
+export type PaymentEventOutcome = 'completed' | 'duplicate' | 'expired' | 'canceled' | 'invoice_recorded' | 'ignored';
+
+type Buyer = { id: string; email?: string | null };
+
+export const paymentService = {
+  /**
+   * Opens a checkout for one credit package
+   * @param user - Buyer; the email prefills the checkout page
+   * @param pkg - Package being bought
+   * @param returnUrl - Billing page URL the provider sends the user back to
+   */
+  async startCheckout(user: Buyer, pkg: CreditPackage, returnUrl: string): Promise<StartedCheckout> {
+    return openCheckout(
+      user,
+      { kind: 'credits', package_id: pkg.id, credits: pkg.credits, amount_cents: Math.round(pkg.price * 100) },
+      `${pkg.credits} credits`,
+      returnUrl
+    );
+  },
+
+  /**
+   * Opens a monthly subscription checkout for a plan
+   * Paying starts the plan with its first month's credits, replacing any current plan
+   * @param user - Buyer; the email prefills the checkout page
+   * @param plan - Plan being subscribed to
+   * @param returnUrl - Billing page URL the provider sends the user back to
+   */
+  async startPlanCheckout(user: Buyer, plan: Plan, returnUrl: string): Promise<StartedCheckout> {
+    return openCheckout(
+      user,
+      { kind: 'plan', plan_id: plan.id, credits: plan.monthly_credits, amount_cents: plan.monthly_price_cents },
+      `${plan.name} plan (${plan.monthly_credits} credits per month)`,
+      returnUrl
+    );
+  },
+
+  /**
+   * Reads one of the user's payment sessions
+   */
+  async getSession(sessionId: string, userId: string): Promise<PaymentSession | null> {
+    const { data, error } = await supabaseServer
+      .from('payment_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch payment session: ${error.message}`);
+    }
+
+    return data;
+  },
+
+  /**
+   * Applies a verified webhook event from the given provider
+   * @returns 'duplicate' when the session was already completed by an earlier delivery
+   * @throws PaymentMismatchError if the payment does not match its session
+   */
+  async handleEvent(event: PaymentEvent, provider: PaymentProvider): Promise<PaymentEventOutcome> {
+    const providerName = provider.name;
+
+    if (event.type === 'ignored') {
+      return 'ignored';
+    }
+
+    if (event.type === 'subscription.canceled') {
+      return cancelPlanSubscription(event.providerSubscriptionId);
+    }
+
+    if (event.type === 'invoice.paid') {
+      return recordPlanInvoice(event, providerName);
+    }
+
+    if (!event.paymentSessionId) {
+      console.warn(`⚠️ Payment event ${event.eventId} has no payment session, ignoring`);
+      return 'ignored';
+    }
+
+    const { data: session, error } = await supabaseServer
+      .from('payment_sessions')
+      .select('id, provider')
+      .eq('id', event.paymentSessionId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch payment session: ${error.message}`);
+    }
+    if (!session || session.provider !== providerName) {
+      throw new PaymentMismatchError(`Unknown payment session ${event.paymentSessionId} for ${providerName}`);
+    }
+
+    if (event.type === 'checkout.expired') {
+      // Only an open session expires; a completed one keeps its credits
+      const { error: expireError } = await supabaseServer
+        .from('payment_sessions')
+        .update({ status: 'expired', updated_at: new Date().toISOString() })
+        .eq('id', session.id)
+        .eq('status', 'pending');
+
+      if (expireError) {
+        throw new Error(`Failed to expire payment session: ${expireError.message}`);
+      }
+      console.log(`⌛ Payment session ${session.id} expired`);
+      return 'expired';
+    }
+
+    const { data: result, error: completeError } = await supabaseServer
+      .rpc('complete_payment_session', {
+        p_session_id: session.id,
+        p_provider_session_id: event.providerSessionId ?? null,
+        p_amount_cents: event.amountCents ?? 0,
+        p_currency: event.currency ?? '',
+        p_subscription_id: event.providerSubscriptionId ?? null
+      })
+      .single<{ transaction_id: string; balance: number | null; applied: boolean; previous_subscription_id: string | null }>();
+
+    if (completeError) {
+      if (completeError.message?.startsWith('payment_mismatch')) {
+        throw new PaymentMismatchError(completeError.message);
+      }
+      throw new Error(`Failed to complete payment session: ${completeError.message}`);
+    }
+
+    if (!result.applied) {
+      console.log(`ℹ️ Payment session ${session.id} was already completed`);
+      return 'duplicate';
+    }
+
+    console.log(`✅ Payment session ${session.id} completed, balance: ${result.balance}`);
+
+    // The new plan replaced the old one; stop billing for the old subscription
+    if (result.previous_subscription_id) {
+      await provider.cancelSubscription(result.previous_subscription_id).catch(cancelError => {
+        console.error(`Failed to cancel replaced subscription ${result.previous_subscription_id}:`, cancelError);
+      });
+    }
+    return 'completed';
+  }
+};
+
+// ==================== HELPER FUNCTIONS ====================
+
+/**
+ * Records a payment session and opens the provider checkout for it
+ * A session whose checkout cannot be opened is marked failed
+ */
+async function openCheckout(
+  user: Buyer,
+  item: Pick<PaymentSession, 'kind' | 'credits' | 'amount_cents'> & Partial<Pick<PaymentSession, 'package_id' | 'plan_id'>>,
+  description: string,
+  returnUrl: string
+): Promise<StartedCheckout> {
+  const provider = getPaymentProvider();
+
+  const { data: session, error } = await supabaseServer
+    .from('payment_sessions')
+    .insert({
+      ...item,
+      user_id: user.id,
+      provider: provider.name,
+      currency: PAYMENT_CURRENCY
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create payment session: ${error.message}`);
+  }
+
+  try {
+    const checkout = await provider.createCheckoutSession({
+      paymentSessionId: session.id,
+      userId: user.id,
+      email: user.email,
+      description,
+      amountCents: item.amount_cents,
+      currency: PAYMENT_CURRENCY,
+      successUrl: `${returnUrl}?checkout=success&session_id=${session.id}`,
+      cancelUrl: `${returnUrl}?checkout=canceled&session_id=${session.id}`,
+      recurring: item.kind === 'plan'
+    });
+
+    await updateSession(session.id, { provider_session_id: checkout.providerSessionId });
+
+    console.log(`🛒 Checkout ${session.id} opened with ${provider.name}: ${description}`);
+    return { sessionId: session.id, url: checkout.url };
+  } catch (checkoutError) {
+    await updateSession(session.id, { status: 'failed' }).catch(updateError => {
+      console.error('Failed to mark payment session failed:', updateError);
+    });
+    throw checkoutError;
+  }
+}
+
+/**
+ * Marks the plan paid by a canceled subscription to end at its next renewal
+ * Subscriptions already replaced by another plan match nothing
+ */
+async function cancelPlanSubscription(subscriptionId: string | undefined): Promise<PaymentEventOutcome> {
+  if (!subscriptionId) {
+    return 'ignored';
+  }
+
+  const { data, error } = await supabaseServer
+    .from('user_billing')
+    .update({ plan_canceled_at: new Date().toISOString() })
+    .eq('plan_subscription_id', subscriptionId)
+    .is('plan_canceled_at', null)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to cancel plan: ${error.message}`);
+  }
+
+  if (!data?.length) {
+    return 'ignored';
+  }
+  console.log(`🛑 Plan of subscription ${subscriptionId} ends at its next renewal`);
+  return 'canceled';
+}
+
+/**
+ * Records a paid renewal invoice of the subscription that pays for a current plan
+ * The next renew_due_plans() run turns it into the month's credits; redeliveries and
+ * invoices of replaced subscriptions change nothing
+ */
+async function recordPlanInvoice(event: PaymentEvent, providerName: string): Promise<PaymentEventOutcome> {
+  if (!event.providerInvoiceId || !event.providerSubscriptionId) {
+    return 'ignored';
+  }
+
+  const { data: billing, error } = await supabaseServer
+    .from('user_billing')
+    .select('id, plan_id')
+    .eq('plan_subscription_id', event.providerSubscriptionId)
+    .not('plan_id', 'is', null)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up plan subscription: ${error.message}`);
+  }
+  if (!billing) {
+    console.warn(`⚠️ Invoice ${event.providerInvoiceId} is for unknown subscription ${event.providerSubscriptionId}, ignoring`);
+    return 'ignored';
+  }
+
+  const { data: inserted, error: insertError } = await supabaseServer
+    .from('plan_invoices')
+    .upsert({
+      provider: providerName,
+      provider_invoice_id: event.providerInvoiceId,
+      user_id: billing.id,
+      plan_id: billing.plan_id,
+      subscription_id: event.providerSubscriptionId,
+      amount_cents: event.amountCents ?? 0,
+      currency: event.currency ?? '',
+      period_end: event.periodEnd ?? null
+    }, { onConflict: 'provider_invoice_id', ignoreDuplicates: true })
+    .select('id');
+
+  if (insertError) {
+    throw new Error(`Failed to record plan invoice: ${insertError.message}`);
+  }
+
+  if (!inserted?.length) {
+    console.log(`ℹ️ Invoice ${event.providerInvoiceId} was already recorded`);
+    return 'duplicate';
+  }
+  console.log(`🧾 Invoice ${event.providerInvoiceId} paid for the ${billing.plan_id} plan of user:`, billing.id);
+  return 'invoice_recorded';
+}
+
+async function updateSession(sessionId: string, updates: Partial<PaymentSession>) {
+  const { error } = await supabaseServer
+    .from('payment_sessions')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', sessionId);
+
+  if (error) {
+    throw new Error(`Failed to update payment session: ${error.message}`);
+  }
+}
+
+// ==================== CUSTOM ERROR CLASSES ====================
+
+/**
+ * Error for a verified event whose session, provider or amount does not match our records
+ */
+export class PaymentMismatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaymentMismatchError';
+  }
+}
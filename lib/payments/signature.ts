@@ -0,0 +1,61 @@
+import crypto from 'crypto';
+import { PaymentSignatureError } from './types';
+
+/**
+ * Stripe-style webhook signatures
+ * Header format: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`. Shared by the
+ * Stripe adapter and the fake provider, so both go through the same verification.
+ */
+
+// Deliveries signed longer ago than this are rejected as replays
+export const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/**
+ * Builds the signature header for a payload
+ */
+export function signPayload(body: string, secret: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  const signature = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Checks a signature header against the payload
+ * @throws PaymentSignatureError if no v1 signature matches or the timestamp is outside the tolerance
+ */
+export function verifySignature(
+  body: string,
+  header: string | null,
+  secret: string,
+  now = Math.floor(Date.now() / 1000)
+): void {
+  if (!header) {
+    throw new PaymentSignatureError('Missing signature header');
+  }
+
+  const parts = header.split(',').map(part => part.trim().split('='));
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value ?? '');
+
+  if (!Number.isFinite(timestamp) || signatures.length === 0) {
+    throw new PaymentSignatureError('Malformed signature header');
+  }
+
+  if (Math.abs(now - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    throw new PaymentSignatureError('Signature timestamp outside the tolerance window');
+  }
+
+  const expected = Buffer.from(
+    crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+  );
+  const matches = signatures.some(signature => {
+    const received = Buffer.from(signature);
+    return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+  });
+
+  if (!matches) {
+    throw new PaymentSignatureError('Invalid signature');
+  }
+}
@@ -0,0 +1,172 @@
+import { verifySignature } from './signature';
+import type { CheckoutRequest, CheckoutSession, PaymentEvent, PaymentProvider } from './types';
+
+/**
+ * Stripe Checkout adapter
+ *
+ * Talks to the Stripe REST API directly (form-encoded, no SDK), so any Stripe-compatible
+ * endpoint works: STRIPE_API_BASE can point at stripe-mock for local runs.
+ * Requires STRIPE_SECRET_KEY and STRIPE_WEBHOOK_SECRET.
+ */
+
+const DEFAULT_API_BASE = 'https://api.stripe.com';
+
+// Raw Stripe event, only the fields we read
+interface StripeEvent {
+  id: string;
+  type: string;
+  data?: {
+    object?: {
+      id?: string;
+      client_reference_id?: string | null;
+      subscription?: string | null;
+      metadata?: Record<string, string> | null;
+      amount_total?: number | null;
+      currency?: string | null;
+      payment_status?: string | null;
+      amount_paid?: number | null;
+      billing_reason?: string | null;
+      lines?: { data?: Array<{ period?: { end?: number } }> } | null;
+    };
+  };
+}
+
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = 'stripe' as const;
+  private apiBase: string;
+
+  constructor() {
+    this.apiBase = (process.env.STRIPE_API_BASE || DEFAULT_API_BASE).replace(/\/+$/, '');
+  }
+
+  async createCheckoutSession(request: CheckoutRequest): Promise<CheckoutSession> {
+    const secretKey = process.env.STRIPE_SECRET_KEY;
+    if (!secretKey) {
+      throw new Error('STRIPE_SECRET_KEY not configured');
+    }
+
+    const params = new URLSearchParams({
+      'mode': request.recurring ? 'subscription' : 'payment',
+      'success_url': request.successUrl,
+      'cancel_url': request.cancelUrl,
+      'client_reference_id': request.paymentSessionId,
+      'line_items[0][quantity]': '1',
+      'line_items[0][price_data][currency]': request.currency,
+      'line_items[0][price_data][unit_amount]': String(request.amountCents),
+      'line_items[0][price_data][product_data][name]': request.description,
+      'metadata[payment_session_id]': request.paymentSessionId,
+      'metadata[user_id]': request.userId
+    });
+    if (request.email) {
+      params.set('customer_email', request.email);
+    }
+    if (request.recurring) {
+      params.set('line_items[0][price_data][recurring][interval]', 'month');
+      // Lets the cancellation event find its way back to the plan
+      params.set('subscription_data[metadata][payment_session_id]', request.paymentSessionId);
+    }
+
+    const response = await fetch(`${this.apiBase}/v1/checkout/sessions`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${secretKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+        // Retrying the same payment session never opens a second checkout
+        'Idempotency-Key': `checkout-${request.paymentSessionId}`
+      },
+      body: params
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(`Stripe checkout failed: ${data?.error?.message || response.statusText}`);
+    }
+
+    return { providerSessionId: data.id, url: data.url };
+  }
+
+  parseWebhook(rawBody: string, headers: Headers): PaymentEvent {
+    const secret = process.env.STRIPE_WEBHOOK_SECRET;
+    if (!secret) {
+      throw new Error('STRIPE_WEBHOOK_SECRET not configured');
+    }
+
+    verifySignature(rawBody, headers.get('stripe-signature'), secret);
+    return normalizeStripeEvent(JSON.parse(rawBody));
+  }
+
+  async cancelSubscription(subscriptionId: string): Promise<void> {
+    const secretKey = process.env.STRIPE_SECRET_KEY;
+    if (!secretKey) {
+      throw new Error('STRIPE_SECRET_KEY not configured');
+    }
+
+    const response = await fetch(`${this.apiBase}/v1/subscriptions/${encodeURIComponent(subscriptionId)}`, {
+      method: 'DELETE',
+      headers: { 'Authorization': `Bearer ${secretKey}` }
+    });
+
+    // Already canceled subscriptions are gone, which is what we want
+    if (!response.ok && response.status !== 404) {
+      const data = await response.json().catch(() => null);
+      throw new Error(`Stripe subscription cancel failed: ${data?.error?.message || response.statusText}`);
+    }
+  }
+}
+
+/**
+ * Maps the Checkout, subscription and invoice events we act on; every other event type is ignored
+ * Delayed payment methods complete with async_payment_succeeded instead of completed
+ */
+export function normalizeStripeEvent(event: StripeEvent): PaymentEvent {
+  const session = event.data?.object ?? {};
+
+  // The object of a subscription event is the subscription itself
+  if (event.type === 'customer.subscription.deleted') {
+    return {
+      type: 'subscription.canceled',
+      eventId: event.id,
+      paymentSessionId: session.metadata?.payment_session_id,
+      providerSubscriptionId: session.id
+    };
+  }
+
+  // Renewal invoices pay for the following months; the first one is paid by the checkout
+  if (event.type === 'invoice.paid') {
+    const periodEnd = session.lines?.data?.[0]?.period?.end;
+    return session.billing_reason === 'subscription_create' || !session.subscription
+      ? { type: 'ignored', eventId: event.id }
+      : {
+          type: 'invoice.paid',
+          eventId: event.id,
+          providerInvoiceId: session.id,
+          providerSubscriptionId: session.subscription,
+          amountCents: session.amount_paid ?? undefined,
+          currency: session.currency ?? undefined,
+          periodEnd: periodEnd ? new Date(periodEnd * 1000).toISOString() : undefined
+        };
+  }
+
+  const base = {
+    eventId: event.id,
+    providerSessionId: session.id,
+    paymentSessionId: session.metadata?.payment_session_id ?? session.client_reference_id ?? undefined,
+    amountCents: session.amount_total ?? undefined,
+    currency: session.currency ?? undefined,
+    providerSubscriptionId: session.subscription ?? undefined
+  };
+
+  switch (event.type) {
+    case 'checkout.session.completed':
+      return session.payment_status === 'paid'
+        ? { ...base, type: 'checkout.completed' }
+        : { ...base, type: 'ignored' };
+    case 'checkout.session.async_payment_succeeded':
+      return { ...base, type: 'checkout.completed' };
+    case 'checkout.session.expired':
+    case 'checkout.session.async_payment_failed':
+      return { ...base, type: 'checkout.expired' };
+    default:
+      return { ...base, type: 'ignored' };
+  }
+}
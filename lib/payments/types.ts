@@ -0,0 +1,80 @@
+/**
+ * Payment Provider Types
+ * Common contract implemented by every backend that can sell credit packages
+ */
+
+// Identifiers of the providers that can take a payment
+export type PaymentProviderName = 'stripe' | 'fake';
+
+// Credit package offered on the billing page
+export interface CreditPackage {
+  id: string;
+  price: number;       // Price in whole currency units (USD)
+  credits: number;     // Credits granted when the payment succeeds
+  popular?: boolean;   // Highlighted on the billing page
+}
+
+// Everything a provider needs to open a hosted checkout page
+export interface CheckoutRequest {
+  paymentSessionId: string;  // Our payment_sessions row, echoed back in the webhook
+  userId: string;
+  email?: string | null;
+  description: string;       // Line item shown on the checkout page
+  amountCents: number;
+  currency: string;
+  successUrl: string;
+  cancelUrl: string;
+  recurring?: boolean;       // Subscription billed monthly until canceled (plans)
+}
+
+// Hosted checkout page created by the provider
+export interface CheckoutSession {
+  providerSessionId: string;
+  url: string;               // Where to send the user to pay
+}
+
+// Normalized webhook event; anything else the provider sends is 'ignored'
+export interface PaymentEvent {
+  type: 'checkout.completed' | 'checkout.expired' | 'subscription.canceled' | 'invoice.paid' | 'ignored';
+  eventId: string;
+  providerSessionId?: string;
+  paymentSessionId?: string;  // From the metadata we attached at checkout
+  amountCents?: number;       // Amount actually paid
+  currency?: string;
+  providerSubscriptionId?: string;  // Subscription started by a recurring checkout, canceled or billed
+  providerInvoiceId?: string;       // Renewal invoice of a subscription (invoice.paid)
+  periodEnd?: string;               // ISO end of the billing period the invoice pays for
+}
+
+/**
+ * Contract for a payment backend
+ */
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+
+  /**
+   * Open a hosted checkout page for one credit package
+   */
+  createCheckoutSession(request: CheckoutRequest): Promise<CheckoutSession>;
+
+  /**
+   * Verify a webhook delivery's signature and normalize its event
+   * @throws PaymentSignatureError if the signature is missing, wrong or too old
+   */
+  parseWebhook(rawBody: string, headers: Headers): PaymentEvent;
+
+  /**
+   * Stop a subscription's monthly billing (e.g. after switching plans)
+   */
+  cancelSubscription(subscriptionId: string): Promise<void>;
+}
+
+/**
+ * Error for a webhook whose signature cannot be verified (401 Unauthorized)
+ */
+export class PaymentSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaymentSignatureError';
+  }
+}
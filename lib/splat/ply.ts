@@ -0,0 +1,169 @@
+/**
+ * Gaussian splat PLY parsing
+ * Reads the binary PLY written by Gaussian splatting pipelines (TRELLIS included) into
+ * flat arrays of positions, colors and sizes that the splat preview can draw as points.
+ * Only what the preview needs is decoded; rotations and higher-order SH are ignored.
+ */
+
+// Zeroth-order spherical harmonic coefficient, turns f_dc_* into a base color
+const SH_C0 = 0.28209479177387814;
+
+// Larger files are subsampled so the preview stays responsive
+export const MAX_PREVIEW_SPLATS = 300_000;
+
+export interface SplatCloud {
+  count: number;
+  positions: Float32Array;  // xyz per splat
+  colors: Float32Array;     // rgba per splat, 0..1
+  sizes: Float32Array;      // world-space radius per splat
+  center: [number, number, number];
+  radius: number;           // bounding sphere radius around center
+}
+
+interface PlyProperty {
+  name: string;
+  type: string;
+  offset: number;
+}
+
+const PLY_TYPE_SIZES: Record<string, number> = {
+  char: 1, int8: 1, uchar: 1, uint8: 1,
+  short: 2, int16: 2, ushort: 2, uint16: 2,
+  int: 4, int32: 4, uint: 4, uint32: 4,
+  float: 4, float32: 4, double: 8, float64: 8
+};
+
+/**
+ * Parses a binary little-endian Gaussian splat PLY
+ * @param buffer - Whole PLY file
+ * @param maxSplats - Splats kept at most; the rest are skipped evenly
+ * @throws If the file is not a binary little-endian PLY with vertex positions
+ */
+export function parseSplatPly(buffer: ArrayBuffer, maxSplats = MAX_PREVIEW_SPLATS): SplatCloud {
+  const { vertexCount, properties, stride, dataOffset } = parseHeader(buffer);
+
+  const view = new DataView(buffer, dataOffset);
+  if (view.byteLength < vertexCount * stride) {
+    throw new Error('PLY file is truncated');
+  }
+
+  const find = (name: string) => properties.find(property => property.name === name);
+  const x = find('x'), y = find('y'), z = find('z');
+  if (!x || !y || !z) {
+    throw new Error('PLY file has no vertex positions');
+  }
+
+  const dc = [find('f_dc_0'), find('f_dc_1'), find('f_dc_2')];
+  const rgb = [find('red'), find('green'), find('blue')];
+  const opacity = find('opacity');
+  const scales = [find('scale_0'), find('scale_1'), find('scale_2')];
+
+  const step = Math.max(1, Math.ceil(vertexCount / maxSplats));
+  const count = Math.ceil(vertexCount / step);
+  const positions = new Float32Array(count * 3);
+  const colors = new Float32Array(count * 4);
+  const sizes = new Float32Array(count);
+
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+
+  for (let i = 0, out = 0; i < vertexCount; i += step, out++) {
+    const base = i * stride;
+    const read = (property: PlyProperty) => readValue(view, base + property.offset, property.type);
+
+    const position = [read(x), read(y), read(z)];
+    positions.set(position, out * 3);
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], position[axis]);
+      max[axis] = Math.max(max[axis], position[axis]);
+    }
+
+    for (let channel = 0; channel < 3; channel++) {
+      const coefficient = dc[channel];
+      const byteColor = rgb[channel];
+      colors[out * 4 + channel] = coefficient
+        ? clamp01(0.5 + SH_C0 * read(coefficient))
+        : byteColor ? read(byteColor) / 255 : 0.8;
+    }
+    // Opacity is stored as a logit
+    colors[out * 4 + 3] = opacity ? 1 / (1 + Math.exp(-read(opacity))) : 1;
+
+    // Scales are stored as logs; the largest axis bounds the splat
+    sizes[out] = scales.every(Boolean)
+      ? Math.exp(Math.max(...scales.map(scale => read(scale!))))
+      : 0;
+  }
+
+  const center: [number, number, number] = [
+    (min[0] + max[0]) / 2,
+    (min[1] + max[1]) / 2,
+    (min[2] + max[2]) / 2
+  ];
+  const radius = Math.max(1e-6, Math.hypot(max[0] - min[0], max[1] - min[1], max[2] - min[2]) / 2);
+
+  return { count, positions, colors, sizes, center, radius };
+}
+
+// ==================== HELPER FUNCTIONS ====================
+
+function parseHeader(buffer: ArrayBuffer) {
+  // The header is ASCII and short; decode a prefix to find its end
+  const prefix = new TextDecoder('ascii').decode(buffer.slice(0, Math.min(buffer.byteLength, 64 * 1024)));
+  const endMarker = 'end_header\n';
+  const headerEnd = prefix.indexOf(endMarker);
+
+  if (!prefix.startsWith('ply') || headerEnd === -1) {
+    throw new Error('Not a PLY file');
+  }
+
+  const lines = prefix.slice(0, headerEnd).split(/\r?\n/).map(line => line.trim());
+  if (!lines.includes('format binary_little_endian 1.0')) {
+    throw new Error('Only binary little-endian PLY files can be previewed');
+  }
+
+  let vertexCount = 0;
+  let inVertex = false;
+  let stride = 0;
+  const properties: PlyProperty[] = [];
+
+  for (const line of lines) {
+    const parts = line.split(/\s+/);
+    if (parts[0] === 'element') {
+      inVertex = parts[1] === 'vertex';
+      if (inVertex) vertexCount = parseInt(parts[2], 10);
+    } else if (parts[0] === 'property' && inVertex) {
+      if (parts[1] === 'list') {
+        throw new Error('PLY vertex list properties are not supported');
+      }
+      const size = PLY_TYPE_SIZES[parts[1]];
+      if (!size) {
+        throw new Error(`Unknown PLY property type: ${parts[1]}`);
+      }
+      properties.push({ name: parts[2], type: parts[1], offset: stride });
+      stride += size;
+    }
+  }
+
+  if (!vertexCount || !stride) {
+    throw new Error('PLY file has no vertices');
+  }
+
+  return { vertexCount, properties, stride, dataOffset: headerEnd + endMarker.length };
+}
+
+function readValue(view: DataView, offset: number, type: string): number {
+  switch (type) {
+    case 'char': case 'int8': return view.getInt8(offset);
+    case 'uchar': case 'uint8': return view.getUint8(offset);
+    case 'short': case 'int16': return view.getInt16(offset, true);
+    case 'ushort': case 'uint16': return view.getUint16(offset, true);
+    case 'int': case 'int32': return view.getInt32(offset, true);
+    case 'uint': case 'uint32': return view.getUint32(offset, true);
+    case 'double': case 'float64': return view.getFloat64(offset, true);
+    default: return view.getFloat32(offset, true);
+  }
+}
+
+function clamp01(value: number) {
+  return Math.min(1, Math.max(0, value));
+}
@@ -1,5 +1,4 @@
 import { createClient } from '@supabase/supabase-js';
-import type { TransactionType } from '@/types/models';
 
 // Client-side configuration
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
@@ -14,51 +13,3 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
     detectSessionInUrl: true,
   }
 });
-
-// Function to create a transaction
-export const createTransaction = async (
-  userId: string,
-  transactionData: {
-    type: TransactionType;
-    amount: number;
-    credits: number;
-    description?: string;
-  }
-) => {
-  try {
-    const { data, error } = await supabase
-      .from('user_transactions')
-      .insert([{ 
-        ...transactionData,
-        user_id: userId
-      }]);
-
-    if (error) {
-      throw error;
-    }
-
-    return data;
-  } catch (error) {
-    console.error('Error creating transaction:', error);
-    return null;
-  }
-};
-
-// Function to update user credits
-export const updateUserCredits = async (userId: string, credits: number) => {
-  try {
-    const { data, error } = await supabase
-      .from('user_billing')
-      .update({ credits })
-      .eq('id', userId);
-
-    if (error) {
-      throw error;
-    }
-
-    return data;
-  } catch (error) {
-    console.error('Error updating user credits:', error);
-    return null;
-  }
-};
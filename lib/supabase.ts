@@ -10,7 +10,11 @@ export type AuthUser = {
   created_at: string;
   // From user_billing
   free_models_used: number;
+  free_models_period_start: string; // month free_models_used counts (YYYY-MM-01)
   credits: number;
+  plan_id?: string | null; // subscription plan, if any
+  plan_renews_at?: string | null; // next monthly allowance (or the end of a canceled plan)
+  plan_canceled_at?: string | null; // set when the subscription was canceled; the plan ends at renewal
   billing_created_at: string;
   billing_updated_at: string;
 };
@@ -19,7 +23,11 @@ export type AuthUser = {
 export type UserBilling = {
   id: string;
   free_models_used: number;
+  free_models_period_start: string; // month free_models_used counts (YYYY-MM-01)
   credits: number;
+  plan_id?: string | null; // subscription plan, if any
+  plan_renews_at?: string | null; // next monthly allowance (or the end of a canceled plan)
+  plan_canceled_at?: string | null; // set when the subscription was canceled; the plan ends at renewal
   created_at: string;
   updated_at: string;
 };
@@ -32,15 +40,28 @@ export type User = AuthUser;
 
 export type Job = {
   id: string;
-  external_job_id: string; // job_id from Hunyuan3D API
+  external_job_id: string | null; // job ID assigned by the generation provider (null until first submitted)
   user_id: string;
-  api_status: 'queued' | 'processing' | 'completed' | 'failed';
+  provider?: string | null; // generation provider that runs the job
+  credits_charged?: number | null; // credits deducted when the job was started
+  free_model?: boolean; // covered by the monthly free tier instead of credits
+  plan_credits_charged?: number; // part of credits_charged taken from the plan allowance
+  api_status: 'preparing' | 'pending' | 'queued' | 'processing' | 'retrying' | 'completed' | 'failed';
   api_stage?: string | null;
   progress: number;
-  started_at?: string | null;
+  model_id?: string | null; // model the job generates; at most one unfinished job per model
+  idempotency_key?: string | null; // client key of the request that created the job, unique per user
+  started_at?: string | null; // when the provider began running the current attempt
+  quality_preset?: string | null; // preset the job runs with, for duration statistics
   completed_at?: string | null;
+  refunded_at?: string | null; // when the charge of a failed or canceled job was refunded
   model_url?: string | null;
   error_message?: string | null;
+  attempt_count?: number; // provider submissions so far, including the first
+  max_attempts?: number; // retry budget for transient failures
+  next_attempt_at?: string | null; // when a retrying job is resubmitted
+  priority?: number; // queue priority; higher is submitted first
+  submitted_at?: string | null; // when the job left the queue for the provider
   created_at: string;
   updated_at: string;
 };
@@ -58,7 +79,14 @@ export type Model = {
   right_nobgr_image_url: string | null;
   back_nobgr_image_url: string | null;
   model_url: string | null;
+  gaussian_ply_url?: string | null; // Gaussian splat PLY stored next to the GLB, if requested
   job_id: string | null;
+  quality_preset: string | null; // quality preset used for the last generation
+  generation_params: Record<string, unknown> | null; // parameters resolved from the preset
+  current_version_id: string | null; // version whose GLB is shown as model_url
+  batch_id?: string | null; // batch the model was created in, if any
+  name?: string | null; // display name, e.g. the photo set it was created from
+  tags?: string[]; // free-form labels, e.g. from an import manifest
   created_at: string;
   updated_at: string;
   expires_at: string | null;
@@ -98,6 +126,10 @@ export const userService = {
       avatar_url: authUser.user_metadata?.avatar_url || null,
       created_at: authUser.created_at,
       free_models_used: billingData.free_models_used,
+      free_models_period_start: billingData.free_models_period_start,
+      plan_id: billingData.plan_id,
+      plan_renews_at: billingData.plan_renews_at,
+      plan_canceled_at: billingData.plan_canceled_at,
       credits: billingData.credits,
       billing_created_at: billingData.created_at,
       billing_updated_at: billingData.updated_at
@@ -131,6 +163,10 @@ export const userService = {
       avatar_url: session.user.user_metadata?.avatar_url || null,
       created_at: session.user.created_at,
       free_models_used: billingData.free_models_used,
+      free_models_period_start: billingData.free_models_period_start,
+      plan_id: billingData.plan_id,
+      plan_renews_at: billingData.plan_renews_at,
+      plan_canceled_at: billingData.plan_canceled_at,
       credits: billingData.credits,
       billing_created_at: billingData.created_at,
       billing_updated_at: billingData.updated_at
@@ -165,70 +201,24 @@ export const userService = {
       avatar_url: session.user.user_metadata?.avatar_url || null,
       created_at: session.user.created_at,
       free_models_used: billingData.free_models_used,
+      free_models_period_start: billingData.free_models_period_start,
+      plan_id: billingData.plan_id,
+      plan_renews_at: billingData.plan_renews_at,
+      plan_canceled_at: billingData.plan_canceled_at,
       credits: billingData.credits,
       billing_created_at: billingData.created_at,
       billing_updated_at: billingData.updated_at
     };
   },
 
-  // Create user billing record (auth user should already exist)
-  async createUserBilling(userId: string, billingData?: Partial<UserBilling>): Promise<UserBilling> {
-    const { data, error } = await supabase
-      .from('user_billing')
-      .insert({
-        id: userId,
-        free_models_used: billingData?.free_models_used || 0,
-        credits: billingData?.credits || 0.0
-      })
-      .select()
-      .single();
-    
-    if (error) throw error;
-    return data as UserBilling;
-  },
-
-  // Legacy method for backwards compatibility
-  async createUserProfile(userId: string, profileData?: Partial<UserProfile>): Promise<UserProfile> {
-    return this.createUserBilling(userId, profileData);
-  },
-
-  // Update user billing record
-  async updateUserBilling(id: string, updates: Partial<Omit<UserBilling, 'id' | 'created_at' | 'updated_at'>>): Promise<UserBilling> {
-    const { data, error } = await supabase
-      .from('user_billing')
-      .update(updates)
-      .eq('id', id)
-      .select()
-      .single();
-    
-    if (error) throw error;
-    return data as UserBilling;
-  },
-
-  // Legacy method for backwards compatibility
-  async updateUserProfile(id: string, updates: Partial<Omit<UserProfile, 'id' | 'created_at' | 'updated_at'>>): Promise<UserProfile> {
-    return this.updateUserBilling(id, updates);
-  },
+  // Billing records and balances are written server-side only, through the
+  // credit ledger (lib/billing/credits.ts); clients have read access
 
   // Legacy method for backwards compatibility
   async createUser(userData: Omit<AuthUser, 'id' | 'created_at' | 'updated_at' | 'profile_created_at' | 'profile_updated_at'>): Promise<AuthUser> {
     // This shouldn't be used anymore since auth users are created via Supabase Auth
     // But keeping for backwards compatibility
     throw new Error('Use Supabase Auth signup instead of createUser');
-  },
-
-  // Legacy method for backwards compatibility
-  async updateUser(id: string, updates: Partial<Omit<AuthUser, 'id' | 'created_at' | 'updated_at'>>): Promise<AuthUser> {
-    // Update billing data only (auth data is managed by Supabase Auth)
-    const billingUpdates: Partial<UserBilling> = {};
-    if (updates.free_models_used !== undefined) billingUpdates.free_models_used = updates.free_models_used;
-    if (updates.credits !== undefined) billingUpdates.credits = updates.credits;
-
-    if (Object.keys(billingUpdates).length > 0) {
-      await this.updateUserBilling(id, billingUpdates);
-    }
-
-    return this.getUserById(id);
   }
 };
 
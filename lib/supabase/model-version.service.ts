@@ -0,0 +1,131 @@
+import { supabaseServer } from '@/lib/supabase-server';
+import type { ModelVersion } from './types';
+
+/**
+ * Server-side model version operations
+ * Each generation of a model is stored as a version; models.model_url mirrors the current one
+ */
+export const modelVersionService = {
+  /**
+   * Records a new version for a generation that was just started
+   * @returns The created version (without a GLB until the job completes)
+   */
+  async createVersion(versionData: Omit<ModelVersion, 'id' | 'version_number' | 'model_url' | 'created_at'>) {
+    const { data: latest, error: latestError } = await supabaseServer
+      .from('model_versions')
+      .select('version_number')
+      .eq('model_id', versionData.model_id)
+      .order('version_number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latestError) {
+      throw new Error(`Failed to fetch latest model version: ${latestError.message}`);
+    }
+
+    const { data, error } = await supabaseServer
+      .from('model_versions')
+      .insert({
+        ...versionData,
+        version_number: (latest?.version_number ?? 0) + 1
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create model version: ${error.message}`);
+    }
+
+    return data as ModelVersion;
+  },
+
+  /**
+   * Lists every version of a model, newest first
+   */
+  async getVersionsByModelId(modelId: string) {
+    const { data, error } = await supabaseServer
+      .from('model_versions')
+      .select('*, job:jobs(api_status, error_message)')
+      .eq('model_id', modelId)
+      .order('version_number', { ascending: false });
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Stores the GLB produced by a job on its version and makes that version current
+   * Jobs started before versions existed have no version and are skipped
+   */
+  async recordJobOutput(jobId: string, modelUrl: string, gaussianPlyUrl: string | null = null) {
+    const { data: version, error } = await supabaseServer
+      .from('model_versions')
+      .update({ model_url: modelUrl, gaussian_ply_url: gaussianPlyUrl })
+      .eq('job_id', jobId)
+      .select('id, model_id')
+      .maybeSingle();
+
+    if (error) {
+      console.error(`Failed to store output on version for job ${jobId}:`, error);
+      return;
+    }
+
+    if (!version) return;
+
+    const { error: modelError } = await supabaseServer
+      .from('models')
+      .update({ current_version_id: version.id })
+      .eq('id', version.model_id);
+
+    if (modelError) {
+      console.error(`Failed to mark version ${version.id} as current:`, modelError);
+    }
+  },
+
+  /**
+   * Marks a finished version as the model's current one
+   * A model that is generating a new version keeps its status; the job still decides it
+   * @throws If the version does not belong to the model or has no GLB yet
+   */
+  async setCurrentVersion(modelId: string, versionId: string) {
+    const { data: version, error } = await supabaseServer
+      .from('model_versions')
+      .select('id, model_url, gaussian_ply_url')
+      .eq('id', versionId)
+      .eq('model_id', modelId)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!version) {
+      throw new Error('Version not found');
+    }
+
+    if (!version.model_url) {
+      throw new Error('Version has no generated model yet');
+    }
+
+    const { error: updateError } = await supabaseServer
+      .from('models')
+      .update({
+        current_version_id: version.id,
+        model_url: version.model_url,
+        gaussian_ply_url: version.gaussian_ply_url ?? null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', modelId);
+
+    if (updateError) throw updateError;
+
+    // A model whose last generation failed is viewable again with this version
+    const { error: statusError } = await supabaseServer
+      .from('models')
+      .update({ model_status: 'completed' })
+      .eq('id', modelId)
+      .neq('model_status', 'generating_3d_model');
+
+    if (statusError) throw statusError;
+
+    return version;
+  }
+};
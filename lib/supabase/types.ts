@@ -5,19 +5,35 @@ export type ModelStatus =
   | 'removed_background'
   | 'generating_3d_model'
   | 'completed'
-  | 'failed';
+  | 'failed'
+  | 'canceled';
 
 export type PredictionStatus = "starting" | "processing" | "succeeded" | "failed" | "canceled";
 
 export type Job = {
   id: string;
   user_id: string;
-  external_job_id: string;
-  api_status: PredictionStatus;
+  external_job_id: string | null; // null until the job has been submitted to the provider
+  model_id?: string | null;
+  idempotency_key?: string | null;
+  provider?: string;
+  credits_charged?: number;
+  free_model?: boolean;
+  plan_credits_charged?: number;
+  api_status: PredictionStatus | 'preparing' | 'pending' | 'retrying';
   api_stage?: string;
   progress?: number;
   model_url?: string;
   error_message?: string;
+  attempt_count?: number;
+  max_attempts?: number;
+  next_attempt_at?: string | null;
+  priority?: number;
+  submitted_at?: string | null;
+  started_at?: string | null;
+  quality_preset?: string;
+  completed_at?: string;
+  refunded_at?: string | null;
   created_at: string;
   updated_at: string;
   expires_at: string; // new field
@@ -36,7 +52,159 @@ export type Model = {
   right_nobgr_image_url?: string;
   back_nobgr_image_url?: string;
   model_url?: string;
+  gaussian_ply_url?: string;
   job_id?: string;
+  quality_preset?: string;
+  generation_params?: Record<string, unknown>;
+  current_version_id?: string;
+  batch_id?: string;
+  name?: string;
+  tags?: string[];
   created_at: string;
   updated_at: string;
 };
+
+export type GenerationBatch = {
+  id: string;
+  user_id: string;
+  name?: string;
+  quality_preset?: string;
+  provider?: string;
+  total_sets: number;
+  credits_charged: number;
+  created_at: string;
+  updated_at: string;
+};
+
+export type ModelVersion = {
+  id: string;
+  model_id: string;
+  user_id: string;
+  version_number: number;
+  job_id?: string;
+  provider?: string;
+  quality_preset?: string;
+  generation_params?: Record<string, unknown>;
+  views?: Record<string, string>;
+  model_url?: string;
+  gaussian_ply_url?: string;
+  created_at: string;
+};
+
+export type GenerationDurationStats = {
+  provider: string;
+  quality_preset: string;
+  sample_size: number;
+  queue_wait_p50_seconds: number;
+  queue_wait_p90_seconds: number;
+  run_p50_seconds: number;
+  run_p90_seconds: number;
+  updated_at: string;
+};
+
+export type JobEventStage =
+  | 'uploaded'
+  | 'background_removed'
+  | 'queued'
+  | 'submitted'
+  | 'started'
+  | 'succeeded'
+  | 'stored'
+  | 'retry_scheduled'
+  | 'failed'
+  | 'canceled';
+
+export type JobEvent = {
+  id: string;
+  job_id: string;
+  user_id: string;
+  stage: JobEventStage;
+  attempt: number;
+  progress?: number;
+  detail?: string;
+  occurred_at: string;
+  created_at: string;
+};
+
+export type PaymentSessionStatus = 'pending' | 'completed' | 'expired' | 'failed';
+
+export type PaymentSessionKind = 'credits' | 'plan';
+
+export type PaymentSession = {
+  id: string;
+  user_id: string;
+  provider: string;
+  provider_session_id?: string | null;
+  kind: PaymentSessionKind;
+  package_id?: string | null;
+  plan_id?: string | null;
+  credits: number;
+  amount_cents: number;
+  currency: string;
+  status: PaymentSessionStatus;
+  transaction_id?: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at?: string | null;
+};
+
+export type Plan = {
+  id: string;
+  name: string;
+  monthly_price_cents: number;
+  monthly_credits: number;
+  credits_expire: boolean;
+  sort_order: number;
+  active: boolean;
+  created_at: string;
+};
+
+export type PlanInvoice = {
+  id: string;
+  provider: string;
+  provider_invoice_id: string;
+  user_id: string;
+  plan_id: string;
+  subscription_id: string;
+  amount_cents: number;
+  currency: string;
+  period_end?: string | null;
+  paid_at: string;
+  applied_at?: string | null;
+};
+
+export type PromoCode = {
+  id: string;
+  code: string;
+  credits: number;
+  description?: string | null;
+  expires_at?: string | null;
+  max_redemptions?: number | null;
+  single_use_per_user: boolean;
+  redemption_count: number;
+  active: boolean;
+  created_by?: string | null;
+  created_at: string;
+};
+
+export type PromoCodeStats = PromoCode & {
+  unique_users: number;
+  credits_awarded: number;
+  last_redeemed_at?: string | null;
+};
+
+export type ReferralStatus = 'pending' | 'awarded' | 'rejected';
+
+export type Referral = {
+  id: string;
+  referrer_id: string;
+  referred_user_id: string;
+  referral_code: string;
+  email_domain: string;
+  status: ReferralStatus;
+  rejected_reason?: string | null;
+  referrer_transaction_id?: string | null;
+  referred_transaction_id?: string | null;
+  created_at: string;
+  awarded_at?: string | null;
+};
@@ -1,12 +1,12 @@
 /**
  * Maps Replicate API statuses to our internal status system
  * @param status Replicate API status
- * @returns Internal status ('queued', 'processing', 'completed', or 'failed')
+ * @returns Internal status ('queued', 'processing', 'completed', 'failed', or 'canceled')
  */
 export function mapReplicateStatus(status: string): string {
   const statusMap: Record<string, string> = {
     'succeeded': 'completed',
-    'canceled': 'failed',
+    'canceled': 'canceled',
     'failed': 'failed',
     'queued': 'queued',
     'processing': 'processing',
@@ -0,0 +1,12 @@
+-- Migration script to record which generation provider runs each job
+-- Existing jobs were all created through Firtoz-Trellis (Replicate)
+
+ALTER TABLE public.jobs
+ADD COLUMN IF NOT EXISTS provider TEXT NOT NULL DEFAULT 'firtoz-trellis';
+
+CREATE INDEX IF NOT EXISTS idx_jobs_provider ON public.jobs(provider);
+
+-- Verify the change
+SELECT column_name, data_type, column_default
+FROM information_schema.columns
+WHERE table_name = 'jobs' AND column_name = 'provider';
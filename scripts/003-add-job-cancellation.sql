@@ -0,0 +1,13 @@
+-- Migration script to support canceling generation jobs
+-- Adds the canceled states and a refund transaction type for returned credits
+
+ALTER TYPE public.model_status ADD VALUE IF NOT EXISTS 'canceled';
+ALTER TYPE public.transaction_type ADD VALUE IF NOT EXISTS 'refund';
+
+ALTER TABLE public.jobs DROP CONSTRAINT IF EXISTS jobs_api_status_check;
+ALTER TABLE public.jobs
+ADD CONSTRAINT jobs_api_status_check
+CHECK (api_status IN ('queued', 'processing', 'completed', 'failed', 'canceled'));
+
+-- Verify the change
+SELECT enum_range(NULL::public.model_status), enum_range(NULL::public.transaction_type);
@@ -0,0 +1,17 @@
+-- Migration script for generation quality presets
+-- Models remember the preset (and resolved parameters) used for their last generation,
+-- jobs remember how many credits were charged so refunds return the right amount
+
+ALTER TABLE public.models
+ADD COLUMN IF NOT EXISTS quality_preset TEXT,
+ADD COLUMN IF NOT EXISTS generation_params JSONB;
+
+-- Every job created before presets existed was charged a single credit
+ALTER TABLE public.jobs
+ADD COLUMN IF NOT EXISTS credits_charged INTEGER NOT NULL DEFAULT 1;
+
+-- Verify the change
+SELECT table_name, column_name, data_type, column_default
+FROM information_schema.columns
+WHERE (table_name = 'models' AND column_name IN ('quality_preset', 'generation_params'))
+   OR (table_name = 'jobs' AND column_name = 'credits_charged');
@@ -0,0 +1,49 @@
+-- Migration script for model versions
+-- Every generation of a model is kept as a version with its own job, GLB and parameters.
+-- models.model_url mirrors the version marked as current.
+
+CREATE TABLE IF NOT EXISTS public.model_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  model_id UUID NOT NULL REFERENCES public.models(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  job_id UUID UNIQUE REFERENCES public.jobs(id) ON DELETE SET NULL,
+  provider TEXT,
+  quality_preset TEXT,
+  generation_params JSONB,
+  views JSONB,
+  model_url TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (model_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_model_versions_model_id ON public.model_versions(model_id);
+CREATE INDEX IF NOT EXISTS idx_model_versions_user_id ON public.model_versions(user_id);
+
+ALTER TABLE public.model_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own model versions" ON public.model_versions;
+CREATE POLICY "Users can view own model versions" ON public.model_versions
+  FOR SELECT USING (auth.uid() = user_id);
+
+ALTER TABLE public.models
+ADD COLUMN IF NOT EXISTS current_version_id UUID REFERENCES public.model_versions(id) ON DELETE SET NULL;
+
+-- Backfill: existing generated models become version 1
+INSERT INTO public.model_versions (model_id, user_id, version_number, quality_preset, generation_params, model_url, created_at)
+SELECT m.id, m.user_id, 1, m.quality_preset, m.generation_params, m.model_url, COALESCE(m.updated_at, now())
+FROM public.models m
+WHERE m.model_url IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM public.model_versions v WHERE v.model_id = m.id);
+
+UPDATE public.models m
+SET current_version_id = v.id
+FROM public.model_versions v
+WHERE v.model_id = m.id AND v.version_number = 1 AND m.current_version_id IS NULL;
+
+-- Verify the change
+SELECT m.id AS model_id, m.current_version_id, COUNT(v.id) AS versions
+FROM public.models m
+LEFT JOIN public.model_versions v ON v.model_id = m.id
+GROUP BY m.id, m.current_version_id
+LIMIT 20;
@@ -0,0 +1,16 @@
+-- Migration script for job finalization
+-- Records when a job reached its terminal state (completed, failed or canceled)
+
+ALTER TABLE public.jobs
+ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ;
+
+-- Backfill finished jobs with their last update time
+UPDATE public.jobs
+SET completed_at = updated_at
+WHERE completed_at IS NULL
+  AND api_status IN ('completed', 'failed', 'canceled');
+
+-- Verify the change
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'jobs' AND column_name = 'completed_at';
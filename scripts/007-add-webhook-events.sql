@@ -0,0 +1,32 @@
+-- Migration script for the webhook delivery log
+-- Every provider webhook is stored by delivery ID before it is applied, so duplicate
+-- deliveries are processed once and stored events can be replayed by an admin.
+-- Only the service role accesses this table (RLS enabled without policies).
+
+CREATE TABLE IF NOT EXISTS public.webhook_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  delivery_id TEXT NOT NULL UNIQUE,
+  prediction_id TEXT NOT NULL,
+  status TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  delivered_at TIMESTAMPTZ,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  processed_at TIMESTAMPTZ,
+  outcome TEXT NOT NULL DEFAULT 'pending'
+    CONSTRAINT webhook_events_outcome_check
+    CHECK (outcome IN ('pending','applied','ignored','unknown_job','rejected','error')),
+  error_message TEXT,
+  replay_count INTEGER NOT NULL DEFAULT 0,
+  last_replayed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_prediction_id ON public.webhook_events(prediction_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_received_at ON public.webhook_events(received_at);
+
+ALTER TABLE public.webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- Verify the change
+SELECT column_name, data_type, column_default
+FROM information_schema.columns
+WHERE table_name = 'webhook_events'
+ORDER BY ordinal_position;
@@ -0,0 +1,26 @@
+-- Migration script for automatic job retries
+-- Tracks the retry budget of each job and lets a job wait in 'retrying' until its next attempt
+
+ALTER TABLE public.jobs
+ADD COLUMN IF NOT EXISTS attempt_count INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS max_attempts INTEGER NOT NULL DEFAULT 3,
+ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ;
+
+-- A job whose first submission hit a transient error has no provider ID yet
+ALTER TABLE public.jobs
+ALTER COLUMN external_job_id DROP NOT NULL;
+
+ALTER TABLE public.jobs
+DROP CONSTRAINT IF EXISTS jobs_api_status_check;
+
+ALTER TABLE public.jobs
+ADD CONSTRAINT jobs_api_status_check
+CHECK (api_status IN ('pending', 'queued', 'processing', 'retrying', 'completed', 'failed', 'canceled'));
+
+CREATE INDEX IF NOT EXISTS idx_jobs_next_attempt_at ON public.jobs(next_attempt_at);
+
+-- Verify the change
+SELECT column_name, data_type, is_nullable, column_default
+FROM information_schema.columns
+WHERE table_name = 'jobs'
+  AND column_name IN ('external_job_id', 'attempt_count', 'max_attempts', 'next_attempt_at');
@@ -0,0 +1,25 @@
+-- Migration script for the generation queue
+-- New jobs wait in 'pending' until a concurrency slot frees up, ordered by priority then age
+
+ALTER TABLE public.jobs
+ADD COLUMN IF NOT EXISTS priority INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMPTZ;
+
+-- Existing jobs were submitted when they were created
+UPDATE public.jobs
+SET submitted_at = created_at
+WHERE submitted_at IS NULL;
+
+ALTER TABLE public.jobs
+DROP CONSTRAINT IF EXISTS jobs_api_status_check;
+
+ALTER TABLE public.jobs
+ADD CONSTRAINT jobs_api_status_check
+CHECK (api_status IN ('pending', 'queued', 'processing', 'retrying', 'completed', 'failed', 'canceled'));
+
+CREATE INDEX IF NOT EXISTS idx_jobs_queue_order ON public.jobs(api_status, priority DESC, created_at);
+
+-- Verify the change
+SELECT column_name, data_type, column_default
+FROM information_schema.columns
+WHERE table_name = 'jobs' AND column_name IN ('priority', 'submitted_at');
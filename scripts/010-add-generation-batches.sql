@@ -0,0 +1,39 @@
+-- Migration script for batch generation
+-- A batch groups the draft models created from many photo sets in one request
+
+CREATE TABLE IF NOT EXISTS public.generation_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT,
+  quality_preset TEXT,
+  provider TEXT,
+  total_sets INTEGER NOT NULL,
+  credits_charged INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_generation_batches_user_id ON public.generation_batches(user_id);
+
+DROP TRIGGER IF EXISTS update_generation_batches_updated_at ON public.generation_batches;
+CREATE TRIGGER update_generation_batches_updated_at
+  BEFORE UPDATE ON public.generation_batches
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.generation_batches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own batches" ON public.generation_batches;
+CREATE POLICY "Users can view own batches" ON public.generation_batches
+  FOR SELECT USING (auth.uid() = user_id);
+
+ALTER TABLE public.models
+ADD COLUMN IF NOT EXISTS batch_id UUID REFERENCES public.generation_batches(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS name TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_models_batch_id ON public.models(batch_id);
+
+-- Verify the change
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE (table_name = 'generation_batches')
+   OR (table_name = 'models' AND column_name IN ('batch_id', 'name'));
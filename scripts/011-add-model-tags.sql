@@ -0,0 +1,12 @@
+-- Migration script for model tags
+-- Tags come from import manifests and label models for filtering
+
+ALTER TABLE public.models
+ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_models_tags ON public.models USING GIN (tags);
+
+-- Verify the change
+SELECT column_name, data_type, column_default
+FROM information_schema.columns
+WHERE table_name = 'models' AND column_name = 'tags';
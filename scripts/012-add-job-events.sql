@@ -0,0 +1,32 @@
+-- Migration script for the job timeline
+-- One row per stage a job reaches (uploaded, background removed, queued, submitted to the
+-- provider, started, succeeded, copied to R2, ...). A stage is recorded once per attempt.
+
+CREATE TABLE IF NOT EXISTS public.job_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  stage TEXT NOT NULL
+    CONSTRAINT job_events_stage_check
+    CHECK (stage IN ('uploaded','background_removed','queued','submitted','started','succeeded','stored','retry_scheduled','failed','canceled')),
+  attempt INTEGER NOT NULL DEFAULT 1,
+  progress INTEGER,
+  detail TEXT,
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT job_events_job_stage_attempt_key UNIQUE (job_id, stage, attempt)
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_events_job_id ON public.job_events(job_id, occurred_at);
+
+ALTER TABLE public.job_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own job events" ON public.job_events;
+CREATE POLICY "Users can view own job events" ON public.job_events
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Verify the change
+SELECT column_name, data_type, column_default
+FROM information_schema.columns
+WHERE table_name = 'job_events'
+ORDER BY ordinal_position;
@@ -0,0 +1,36 @@
+-- Migration script for generation ETAs
+-- Jobs record when the provider started running them and which preset they use;
+-- rolling p50/p90 queue-wait and run times per provider and preset are kept in
+-- generation_duration_stats (service role only, RLS enabled without policies).
+
+ALTER TABLE public.jobs
+ADD COLUMN IF NOT EXISTS started_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS quality_preset TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_completed_at ON public.jobs(completed_at);
+
+-- Backfill the preset of existing jobs from their model version
+UPDATE public.jobs j
+SET quality_preset = mv.quality_preset
+FROM public.model_versions mv
+WHERE mv.job_id = j.id AND j.quality_preset IS NULL;
+
+CREATE TABLE IF NOT EXISTS public.generation_duration_stats (
+  provider TEXT NOT NULL,
+  quality_preset TEXT NOT NULL,
+  sample_size INTEGER NOT NULL DEFAULT 0,
+  queue_wait_p50_seconds INTEGER NOT NULL,
+  queue_wait_p90_seconds INTEGER NOT NULL,
+  run_p50_seconds INTEGER NOT NULL,
+  run_p90_seconds INTEGER NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT generation_duration_stats_pkey PRIMARY KEY (provider, quality_preset)
+);
+
+ALTER TABLE public.generation_duration_stats ENABLE ROW LEVEL SECURITY;
+
+-- Verify the change
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE (table_name = 'jobs' AND column_name IN ('started_at', 'quality_preset'))
+   OR table_name = 'generation_duration_stats';
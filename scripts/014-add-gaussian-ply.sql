@@ -0,0 +1,13 @@
+-- Migration script for Gaussian splat output
+-- Generations can opt in to a Gaussian splat PLY, stored in R2 next to the GLB
+
+ALTER TABLE public.models
+ADD COLUMN IF NOT EXISTS gaussian_ply_url TEXT;
+
+ALTER TABLE public.model_versions
+ADD COLUMN IF NOT EXISTS gaussian_ply_url TEXT;
+
+-- Verify the change
+SELECT table_name, column_name, data_type
+FROM information_schema.columns
+WHERE table_name IN ('models', 'model_versions') AND column_name = 'gaussian_ply_url';
@@ -0,0 +1,33 @@
+-- Migration script for generation idempotency
+-- Jobs remember their model and the client's idempotency key, so a repeated
+-- /api/generate request returns the original job instead of charging again,
+-- and a model cannot have two unfinished jobs at once
+
+ALTER TABLE public.jobs
+ADD COLUMN IF NOT EXISTS model_id UUID REFERENCES public.models(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+
+-- Link existing jobs through their model versions, then through models.job_id
+UPDATE public.jobs j
+SET model_id = mv.model_id
+FROM public.model_versions mv
+WHERE mv.job_id = j.id AND j.model_id IS NULL;
+
+UPDATE public.jobs j
+SET model_id = m.id
+FROM public.models m
+WHERE m.job_id = j.id AND j.model_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_user_idempotency_key
+ON public.jobs(user_id, idempotency_key)
+WHERE idempotency_key IS NOT NULL;
+
+-- Fails if a model already has several unfinished jobs; cancel the extras first
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_active_model
+ON public.jobs(model_id)
+WHERE api_status IN ('pending', 'queued', 'processing', 'retrying');
+
+-- Verify the change
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'jobs' AND column_name IN ('model_id', 'idempotency_key');
@@ -0,0 +1,127 @@
+-- Migration script for the credit ledger
+-- Every balance change goes through apply_credit_change(), which locks the billing row,
+-- updates user_billing.credits and writes the matching user_transactions row in one
+-- transaction. Clients can read their balance and history but no longer change them.
+
+-- ==================== Ledger function ====================
+
+CREATE OR REPLACE FUNCTION public.apply_credit_change(
+  p_user_id UUID,
+  p_credits INTEGER,
+  p_type public.transaction_type,
+  p_description TEXT,
+  p_amount NUMERIC DEFAULT 0
+)
+RETURNS TABLE (transaction_id UUID, balance NUMERIC)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance NUMERIC;
+  v_transaction_id UUID;
+BEGIN
+  IF p_credits = 0 THEN
+    RAISE EXCEPTION 'Credit change must not be zero';
+  END IF;
+
+  -- Accounts without a billing row start empty; the ledger grants anything above that
+  INSERT INTO public.user_billing (id, credits)
+  VALUES (p_user_id, 0)
+  ON CONFLICT (id) DO NOTHING;
+
+  SELECT credits INTO v_balance
+  FROM public.user_billing
+  WHERE id = p_user_id
+  FOR UPDATE;
+
+  IF COALESCE(v_balance, 0) + p_credits < 0 THEN
+    RAISE EXCEPTION 'insufficient_credits: % required, % available', -p_credits, COALESCE(v_balance, 0)
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE public.user_billing
+  SET credits = COALESCE(credits, 0) + p_credits
+  WHERE id = p_user_id
+  RETURNING credits INTO v_balance;
+
+  INSERT INTO public.user_transactions (user_id, type, amount, credits, description)
+  VALUES (p_user_id, p_type, COALESCE(p_amount, 0), p_credits, p_description)
+  RETURNING id INTO v_transaction_id;
+
+  RETURN QUERY SELECT v_transaction_id, v_balance;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.apply_credit_change(UUID, INTEGER, public.transaction_type, TEXT, NUMERIC)
+FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_credit_change(UUID, INTEGER, public.transaction_type, TEXT, NUMERIC)
+TO service_role;
+
+-- ==================== Opening balances ====================
+
+-- Billing rows created with starting credits (e.g. the column default) get a matching award
+CREATE OR REPLACE FUNCTION public.log_initial_credits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(NEW.credits, 0) <> 0 THEN
+    INSERT INTO public.user_transactions (user_id, type, amount, credits, description)
+    VALUES (NEW.id, 'award', 0, NEW.credits::INTEGER, 'Welcome credits');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_user_billing_initial_credits ON public.user_billing;
+CREATE TRIGGER log_user_billing_initial_credits
+AFTER INSERT ON public.user_billing
+FOR EACH ROW EXECUTE FUNCTION public.log_initial_credits();
+
+-- Existing balances were changed without a matching history; record the gap once
+-- so every account starts reconciled
+INSERT INTO public.user_transactions (user_id, type, amount, credits, description)
+SELECT
+  b.id,
+  CASE WHEN b.credits > COALESCE(t.total, 0) THEN 'award'::public.transaction_type ELSE 'usage'::public.transaction_type END,
+  0,
+  (b.credits - COALESCE(t.total, 0))::INTEGER,
+  'Opening balance adjustment'
+FROM public.user_billing b
+LEFT JOIN (
+  SELECT user_id, SUM(credits) AS total
+  FROM public.user_transactions
+  GROUP BY user_id
+) t ON t.user_id = b.id
+WHERE COALESCE(b.credits, 0) <> COALESCE(t.total, 0);
+
+-- ==================== Reconciliation ====================
+
+-- Accounts whose balance differs from the sum of their transactions; should stay empty
+CREATE OR REPLACE VIEW public.credit_ledger_discrepancies AS
+SELECT
+  b.id AS user_id,
+  COALESCE(b.credits, 0) AS balance,
+  COALESCE(t.total, 0) AS ledger_total,
+  COALESCE(b.credits, 0) - COALESCE(t.total, 0) AS difference
+FROM public.user_billing b
+LEFT JOIN (
+  SELECT user_id, SUM(credits) AS total
+  FROM public.user_transactions
+  GROUP BY user_id
+) t ON t.user_id = b.id
+WHERE COALESCE(b.credits, 0) <> COALESCE(t.total, 0);
+
+REVOKE ALL ON public.credit_ledger_discrepancies FROM anon, authenticated;
+
+-- ==================== Server-only writes ====================
+
+-- Users keep reading their own rows; only the service role (via the ledger) writes balances
+REVOKE INSERT, UPDATE, DELETE ON public.user_billing FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.user_transactions FROM anon, authenticated;
+
+-- Verify the change
+SELECT COUNT(*) AS discrepancies FROM public.credit_ledger_discrepancies;
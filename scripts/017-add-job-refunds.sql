@@ -0,0 +1,108 @@
+-- Migration script for job refunds
+-- Credits of a job that fails, is canceled or expires after submission are refunded
+-- exactly once: refund transactions reference their job (and its model), a unique
+-- index allows one refund per job, and jobs.refunded_at lets the sweep catch up on
+-- refunds that did not go through when the job was finalized.
+
+ALTER TABLE public.user_transactions
+ADD COLUMN IF NOT EXISTS job_id UUID REFERENCES public.jobs(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS model_id UUID REFERENCES public.models(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_transactions_job_refund
+ON public.user_transactions(job_id)
+WHERE type = 'refund' AND job_id IS NOT NULL;
+
+ALTER TABLE public.jobs
+ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMPTZ;
+
+-- Failed and canceled jobs from before this change were refunded when they were finalized
+UPDATE public.jobs
+SET refunded_at = COALESCE(completed_at, updated_at, now())
+WHERE api_status IN ('failed', 'canceled') AND refunded_at IS NULL;
+
+-- ==================== Ledger function ====================
+
+-- The signature changes, so the old function is replaced rather than overloaded
+DROP FUNCTION IF EXISTS public.apply_credit_change(UUID, INTEGER, public.transaction_type, TEXT, NUMERIC);
+
+CREATE OR REPLACE FUNCTION public.apply_credit_change(
+  p_user_id UUID,
+  p_credits INTEGER,
+  p_type public.transaction_type,
+  p_description TEXT,
+  p_amount NUMERIC DEFAULT 0,
+  p_job_id UUID DEFAULT NULL,
+  p_model_id UUID DEFAULT NULL
+)
+RETURNS TABLE (transaction_id UUID, balance NUMERIC, applied BOOLEAN)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance NUMERIC;
+  v_transaction_id UUID;
+  v_model_id UUID := p_model_id;
+BEGIN
+  IF p_credits = 0 THEN
+    RAISE EXCEPTION 'Credit change must not be zero';
+  END IF;
+
+  -- Accounts without a billing row start empty; the ledger grants anything above that
+  INSERT INTO public.user_billing (id, credits)
+  VALUES (p_user_id, 0)
+  ON CONFLICT (id) DO NOTHING;
+
+  SELECT credits INTO v_balance
+  FROM public.user_billing
+  WHERE id = p_user_id
+  FOR UPDATE;
+
+  -- Checked under the billing row lock, so concurrent refunds of one job see each other
+  IF p_type = 'refund' AND p_job_id IS NOT NULL THEN
+    SELECT t.id INTO v_transaction_id
+    FROM public.user_transactions t
+    WHERE t.job_id = p_job_id AND t.type = 'refund';
+
+    IF FOUND THEN
+      RETURN QUERY SELECT v_transaction_id, v_balance, FALSE;
+      RETURN;
+    END IF;
+  END IF;
+
+  IF COALESCE(v_balance, 0) + p_credits < 0 THEN
+    RAISE EXCEPTION 'insufficient_credits: % required, % available', -p_credits, COALESCE(v_balance, 0)
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_job_id IS NOT NULL AND v_model_id IS NULL THEN
+    SELECT model_id INTO v_model_id FROM public.jobs WHERE id = p_job_id;
+  END IF;
+
+  UPDATE public.user_billing
+  SET credits = COALESCE(credits, 0) + p_credits
+  WHERE id = p_user_id
+  RETURNING credits INTO v_balance;
+
+  INSERT INTO public.user_transactions (user_id, type, amount, credits, description, job_id, model_id)
+  VALUES (p_user_id, p_type, COALESCE(p_amount, 0), p_credits, p_description, p_job_id, v_model_id)
+  RETURNING id INTO v_transaction_id;
+
+  IF p_type = 'refund' AND p_job_id IS NOT NULL THEN
+    UPDATE public.jobs SET refunded_at = now() WHERE id = p_job_id;
+  END IF;
+
+  RETURN QUERY SELECT v_transaction_id, v_balance, TRUE;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.apply_credit_change(UUID, INTEGER, public.transaction_type, TEXT, NUMERIC, UUID, UUID)
+FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_credit_change(UUID, INTEGER, public.transaction_type, TEXT, NUMERIC, UUID, UUID)
+TO service_role;
+
+-- Verify the change
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE (table_name = 'user_transactions' AND column_name IN ('job_id', 'model_id'))
+   OR (table_name = 'jobs' AND column_name = 'refunded_at');
@@ -0,0 +1,98 @@
+-- Migration script for credit purchases
+-- A payment session is created for every checkout and completed by the signed payment
+-- webhook. complete_payment_session() grants the credits through the ledger as a
+-- 'purchase' transaction and marks the session completed in the same transaction, so a
+-- redelivered webhook never grants a package twice.
+-- Only the service role accesses this table (RLS enabled without policies).
+
+CREATE TABLE IF NOT EXISTS public.payment_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  provider_session_id TEXT UNIQUE,
+  package_id TEXT NOT NULL,
+  credits INTEGER NOT NULL CHECK (credits > 0),
+  amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+  currency TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CONSTRAINT payment_sessions_status_check
+    CHECK (status IN ('pending','completed','expired','failed')),
+  transaction_id UUID REFERENCES public.user_transactions(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_sessions_user_id ON public.payment_sessions(user_id);
+
+ALTER TABLE public.payment_sessions ENABLE ROW LEVEL SECURITY;
+
+-- ==================== Completion ====================
+
+CREATE OR REPLACE FUNCTION public.complete_payment_session(
+  p_session_id UUID,
+  p_provider_session_id TEXT,
+  p_amount_cents INTEGER,
+  p_currency TEXT
+)
+RETURNS TABLE (transaction_id UUID, balance NUMERIC, applied BOOLEAN)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.payment_sessions%ROWTYPE;
+  v_transaction_id UUID;
+  v_balance NUMERIC;
+BEGIN
+  SELECT * INTO v_session
+  FROM public.payment_sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'unknown_payment_session: %', p_session_id;
+  END IF;
+
+  -- Redelivered webhook; the credits were granted the first time
+  IF v_session.status = 'completed' THEN
+    RETURN QUERY SELECT v_session.transaction_id, NULL::NUMERIC, FALSE;
+    RETURN;
+  END IF;
+
+  IF v_session.provider_session_id IS DISTINCT FROM p_provider_session_id
+     OR v_session.amount_cents <> p_amount_cents
+     OR lower(v_session.currency) <> lower(p_currency) THEN
+    RAISE EXCEPTION 'payment_mismatch: session % does not match the payment', p_session_id;
+  END IF;
+
+  SELECT t.transaction_id, t.balance INTO v_transaction_id, v_balance
+  FROM public.apply_credit_change(
+    v_session.user_id,
+    v_session.credits,
+    'purchase',
+    format('Purchased %s credits', v_session.credits),
+    v_session.amount_cents / 100.0
+  ) t;
+
+  UPDATE public.payment_sessions
+  SET status = 'completed',
+      transaction_id = v_transaction_id,
+      completed_at = now(),
+      updated_at = now()
+  WHERE id = p_session_id;
+
+  RETURN QUERY SELECT v_transaction_id, v_balance, TRUE;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.complete_payment_session(UUID, TEXT, INTEGER, TEXT)
+FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_payment_session(UUID, TEXT, INTEGER, TEXT)
+TO service_role;
+
+-- Verify the change
+SELECT column_name, data_type, column_default
+FROM information_schema.columns
+WHERE table_name = 'payment_sessions'
+ORDER BY ordinal_position;
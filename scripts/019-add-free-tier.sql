@@ -0,0 +1,141 @@
+-- Migration script for the monthly free tier
+-- Every account gets a number of free generations per calendar month (UTC), used before
+-- paid credits. A free generation is recorded as an award and a usage of the same size,
+-- so the ledger shows it and the balance is unchanged. The counter starts over in a new
+-- month (lazily on use, and for everyone by the scheduled sweep). Free models of jobs
+-- that fail or are canceled are given back instead of refunded as credits.
+-- New accounts no longer get welcome credits; the free tier replaces them.
+
+ALTER TABLE public.user_billing
+ADD COLUMN IF NOT EXISTS free_models_used INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS free_models_period_start DATE NOT NULL DEFAULT date_trunc('month', now())::DATE;
+
+ALTER TABLE public.user_billing
+ALTER COLUMN credits SET DEFAULT 0;
+
+ALTER TABLE public.jobs
+ADD COLUMN IF NOT EXISTS free_model BOOLEAN NOT NULL DEFAULT false;
+
+-- ==================== Using a free model ====================
+
+CREATE OR REPLACE FUNCTION public.use_free_model(
+  p_user_id UUID,
+  p_credits INTEGER,
+  p_monthly_quota INTEGER,
+  p_description TEXT
+)
+RETURNS TABLE (applied BOOLEAN, used_this_month INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_period DATE := date_trunc('month', now())::DATE;
+  v_used INTEGER;
+  v_period_start DATE;
+BEGIN
+  INSERT INTO public.user_billing (id, credits)
+  VALUES (p_user_id, 0)
+  ON CONFLICT (id) DO NOTHING;
+
+  SELECT b.free_models_used, b.free_models_period_start INTO v_used, v_period_start
+  FROM public.user_billing b
+  WHERE b.id = p_user_id
+  FOR UPDATE;
+
+  -- First use this month starts the count over
+  IF v_period_start < v_period THEN
+    v_used := 0;
+  END IF;
+
+  IF v_used >= p_monthly_quota THEN
+    RETURN QUERY SELECT FALSE, v_used;
+    RETURN;
+  END IF;
+
+  UPDATE public.user_billing b
+  SET free_models_used = v_used + 1,
+      free_models_period_start = v_period
+  WHERE b.id = p_user_id;
+
+  INSERT INTO public.user_transactions (user_id, type, amount, credits, description)
+  VALUES
+    (p_user_id, 'award', 0, p_credits, 'Free monthly model'),
+    (p_user_id, 'usage', 0, -p_credits, p_description);
+
+  RETURN QUERY SELECT TRUE, v_used + 1;
+END;
+$$;
+
+-- ==================== Giving a free model back ====================
+
+-- With a job: at most once per job (jobs.refunded_at), and only while its month lasts.
+-- Without a job: the generation could not be started, so this month's count drops by one.
+CREATE OR REPLACE FUNCTION public.return_free_model(
+  p_user_id UUID,
+  p_job_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_used_in DATE := date_trunc('month', now())::DATE;
+  v_job public.jobs%ROWTYPE;
+BEGIN
+  PERFORM 1 FROM public.user_billing WHERE id = p_user_id FOR UPDATE;
+
+  IF p_job_id IS NOT NULL THEN
+    SELECT * INTO v_job FROM public.jobs WHERE id = p_job_id AND user_id = p_user_id;
+
+    IF NOT FOUND OR NOT v_job.free_model OR v_job.refunded_at IS NOT NULL THEN
+      RETURN FALSE;
+    END IF;
+
+    v_used_in := date_trunc('month', v_job.created_at)::DATE;
+    UPDATE public.jobs SET refunded_at = now() WHERE id = p_job_id;
+  END IF;
+
+  UPDATE public.user_billing
+  SET free_models_used = GREATEST(free_models_used - 1, 0)
+  WHERE id = p_user_id AND free_models_period_start = v_used_in;
+
+  RETURN TRUE;
+END;
+$$;
+
+-- ==================== Monthly reset ====================
+
+-- Starts every stale count over; returns how many accounts were reset
+CREATE OR REPLACE FUNCTION public.reset_free_models()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reset INTEGER;
+BEGIN
+  UPDATE public.user_billing
+  SET free_models_used = 0,
+      free_models_period_start = date_trunc('month', now())::DATE
+  WHERE free_models_period_start < date_trunc('month', now())::DATE;
+
+  GET DIAGNOSTICS v_reset = ROW_COUNT;
+  RETURN v_reset;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.use_free_model(UUID, INTEGER, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.return_free_model(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.reset_free_models() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.use_free_model(UUID, INTEGER, INTEGER, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.return_free_model(UUID, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.reset_free_models() TO service_role;
+
+-- Verify the change
+SELECT column_name, data_type, column_default
+FROM information_schema.columns
+WHERE (table_name = 'user_billing' AND column_name IN ('free_models_used', 'free_models_period_start', 'credits'))
+   OR (table_name = 'jobs' AND column_name = 'free_model');
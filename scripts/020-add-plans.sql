@@ -0,0 +1,403 @@
+-- Migration script for subscription plans
+-- Plans grant a monthly credit allowance. A plan starts when its checkout completes
+-- (the first month is recorded as a 'purchase'). Each later month is paid by a provider
+-- invoice, recorded in plan_invoices from the payment webhook; the scheduled sweep calls
+-- renew_due_plans(), which turns one paid invoice into that month's allowance as an
+-- 'award' and, for plans with credits_expire, first expires what is left of the previous
+-- allowance. user_billing.plan_credits tracks that remainder: usage spends plan credits
+-- first, and each transaction records in plan_credits how much of it came from (or went
+-- back to) that remainder, so a job refund returns plan credits as plan credits and they
+-- still expire. A canceled subscription ends the plan at its next renewal, and a plan whose
+-- renewal stays unpaid past the grace period lapses.
+
+CREATE TABLE IF NOT EXISTS public.plans (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  monthly_price_cents INTEGER NOT NULL CHECK (monthly_price_cents > 0),
+  monthly_credits INTEGER NOT NULL CHECK (monthly_credits > 0),
+  credits_expire BOOLEAN NOT NULL DEFAULT false,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.plans (id, name, monthly_price_cents, monthly_credits, credits_expire, sort_order)
+VALUES
+  ('hobby', 'Hobby', 500, 6, true, 1),
+  ('pro', 'Pro', 1500, 20, true, 2),
+  ('studio', 'Studio', 4000, 60, false, 3)
+ON CONFLICT (id) DO NOTHING;
+
+-- The plan list is public; only the service role changes it
+ALTER TABLE public.plans ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Anyone can read plans" ON public.plans;
+CREATE POLICY "Anyone can read plans" ON public.plans FOR SELECT USING (true);
+
+ALTER TABLE public.user_billing
+ADD COLUMN IF NOT EXISTS plan_id TEXT REFERENCES public.plans(id),
+ADD COLUMN IF NOT EXISTS plan_renews_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS plan_credits INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS plan_subscription_id TEXT,
+ADD COLUMN IF NOT EXISTS plan_canceled_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_user_billing_plan_renews_at
+ON public.user_billing(plan_renews_at)
+WHERE plan_id IS NOT NULL;
+
+-- Paid renewal invoices; each one is applied to at most one renewal
+CREATE TABLE IF NOT EXISTS public.plan_invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider TEXT NOT NULL,
+  provider_invoice_id TEXT NOT NULL UNIQUE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  plan_id TEXT NOT NULL REFERENCES public.plans(id),
+  subscription_id TEXT NOT NULL,
+  amount_cents INTEGER NOT NULL,
+  currency TEXT NOT NULL,
+  period_end TIMESTAMPTZ,
+  paid_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  applied_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_plan_invoices_unapplied
+ON public.plan_invoices(subscription_id, paid_at)
+WHERE applied_at IS NULL;
+
+-- Only the service role records and reads invoices
+ALTER TABLE public.plan_invoices ENABLE ROW LEVEL SECURITY;
+
+-- Plan credits taken or returned by each transaction, and spent by each job
+ALTER TABLE public.user_transactions
+ADD COLUMN IF NOT EXISTS plan_credits INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.jobs
+ADD COLUMN IF NOT EXISTS plan_credits_charged INTEGER NOT NULL DEFAULT 0;
+
+-- Checkouts now sell either a credit package or a plan
+ALTER TABLE public.payment_sessions
+ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'credits',
+ADD COLUMN IF NOT EXISTS plan_id TEXT REFERENCES public.plans(id),
+ALTER COLUMN package_id DROP NOT NULL;
+
+ALTER TABLE public.payment_sessions
+DROP CONSTRAINT IF EXISTS payment_sessions_kind_check;
+ALTER TABLE public.payment_sessions
+ADD CONSTRAINT payment_sessions_kind_check CHECK (
+  (kind = 'credits' AND package_id IS NOT NULL) OR (kind = 'plan' AND plan_id IS NOT NULL)
+);
+
+-- ==================== Ledger function ====================
+
+-- Same as before, except that usage spends plan credits first and refunds return the
+-- plan share (p_plan_credits, or what the refunded job took) to plan credits. The return
+-- type changes, so the old function is replaced rather than overloaded
+DROP FUNCTION IF EXISTS public.apply_credit_change(UUID, INTEGER, public.transaction_type, TEXT, NUMERIC, UUID, UUID);
+
+CREATE OR REPLACE FUNCTION public.apply_credit_change(
+  p_user_id UUID,
+  p_credits INTEGER,
+  p_type public.transaction_type,
+  p_description TEXT,
+  p_amount NUMERIC DEFAULT 0,
+  p_job_id UUID DEFAULT NULL,
+  p_model_id UUID DEFAULT NULL,
+  p_plan_credits INTEGER DEFAULT NULL
+)
+RETURNS TABLE (transaction_id UUID, balance NUMERIC, applied BOOLEAN, plan_credits INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance NUMERIC;
+  v_plan_balance INTEGER;
+  v_plan_change INTEGER := 0;
+  v_transaction_id UUID;
+  v_model_id UUID := p_model_id;
+  v_job_plan_credits INTEGER;
+BEGIN
+  IF p_credits = 0 THEN
+    RAISE EXCEPTION 'Credit change must not be zero';
+  END IF;
+
+  -- Accounts without a billing row start empty; the ledger grants anything above that
+  INSERT INTO public.user_billing (id, credits)
+  VALUES (p_user_id, 0)
+  ON CONFLICT (id) DO NOTHING;
+
+  SELECT b.credits, b.plan_credits INTO v_balance, v_plan_balance
+  FROM public.user_billing b
+  WHERE b.id = p_user_id
+  FOR UPDATE;
+
+  -- Checked under the billing row lock, so concurrent refunds of one job see each other
+  IF p_type = 'refund' AND p_job_id IS NOT NULL THEN
+    SELECT t.id INTO v_transaction_id
+    FROM public.user_transactions t
+    WHERE t.job_id = p_job_id AND t.type = 'refund';
+
+    IF FOUND THEN
+      RETURN QUERY SELECT v_transaction_id, v_balance, FALSE, 0;
+      RETURN;
+    END IF;
+  END IF;
+
+  IF COALESCE(v_balance, 0) + p_credits < 0 THEN
+    RAISE EXCEPTION 'insufficient_credits: % required, % available', -p_credits, COALESCE(v_balance, 0)
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_job_id IS NOT NULL THEN
+    SELECT j.model_id, j.plan_credits_charged INTO v_model_id, v_job_plan_credits
+    FROM public.jobs j
+    WHERE j.id = p_job_id;
+    v_model_id := COALESCE(p_model_id, v_model_id);
+  END IF;
+
+  IF p_type = 'usage' AND p_credits < 0 THEN
+    v_plan_change := -LEAST(v_plan_balance, -p_credits);
+  ELSIF p_type = 'refund' AND p_credits > 0 THEN
+    v_plan_change := LEAST(p_credits, GREATEST(COALESCE(p_plan_credits, v_job_plan_credits, 0), 0));
+  END IF;
+
+  UPDATE public.user_billing b
+  SET credits = COALESCE(b.credits, 0) + p_credits,
+      plan_credits = b.plan_credits + v_plan_change
+  WHERE b.id = p_user_id
+  RETURNING b.credits INTO v_balance;
+
+  INSERT INTO public.user_transactions (user_id, type, amount, credits, plan_credits, description, job_id, model_id)
+  VALUES (p_user_id, p_type, COALESCE(p_amount, 0), p_credits, v_plan_change, p_description, p_job_id, v_model_id)
+  RETURNING id INTO v_transaction_id;
+
+  IF p_type = 'refund' AND p_job_id IS NOT NULL THEN
+    UPDATE public.jobs SET refunded_at = now() WHERE id = p_job_id;
+  END IF;
+
+  RETURN QUERY SELECT v_transaction_id, v_balance, TRUE, v_plan_change;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.apply_credit_change(UUID, INTEGER, public.transaction_type, TEXT, NUMERIC, UUID, UUID, INTEGER)
+FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_credit_change(UUID, INTEGER, public.transaction_type, TEXT, NUMERIC, UUID, UUID, INTEGER)
+TO service_role;
+
+-- ==================== Checkout completion ====================
+
+-- The return type changes, so the old function is replaced rather than overloaded
+DROP FUNCTION IF EXISTS public.complete_payment_session(UUID, TEXT, INTEGER, TEXT);
+
+CREATE OR REPLACE FUNCTION public.complete_payment_session(
+  p_session_id UUID,
+  p_provider_session_id TEXT,
+  p_amount_cents INTEGER,
+  p_currency TEXT,
+  p_subscription_id TEXT DEFAULT NULL
+)
+RETURNS TABLE (transaction_id UUID, balance NUMERIC, applied BOOLEAN, previous_subscription_id TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.payment_sessions%ROWTYPE;
+  v_plan public.plans%ROWTYPE;
+  v_transaction_id UUID;
+  v_balance NUMERIC;
+  v_previous_subscription TEXT;
+BEGIN
+  SELECT * INTO v_session
+  FROM public.payment_sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'unknown_payment_session: %', p_session_id;
+  END IF;
+
+  -- Redelivered webhook; the credits were granted the first time
+  IF v_session.status = 'completed' THEN
+    RETURN QUERY SELECT v_session.transaction_id, NULL::NUMERIC, FALSE, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_session.provider_session_id IS DISTINCT FROM p_provider_session_id
+     OR v_session.amount_cents <> p_amount_cents
+     OR lower(v_session.currency) <> lower(p_currency) THEN
+    RAISE EXCEPTION 'payment_mismatch: session % does not match the payment', p_session_id;
+  END IF;
+
+  IF v_session.kind = 'plan' THEN
+    SELECT * INTO v_plan FROM public.plans WHERE id = v_session.plan_id;
+
+    SELECT t.transaction_id, t.balance INTO v_transaction_id, v_balance
+    FROM public.apply_credit_change(
+      v_session.user_id,
+      v_session.credits,
+      'purchase',
+      format('%s plan (first month)', v_plan.name),
+      v_session.amount_cents / 100.0
+    ) t;
+
+    SELECT b.plan_subscription_id INTO v_previous_subscription
+    FROM public.user_billing b
+    WHERE b.id = v_session.user_id;
+
+    -- Switching plans starts a new monthly period right away; credits left from the
+    -- previous plan are kept
+    UPDATE public.user_billing
+    SET plan_id = v_session.plan_id,
+        plan_renews_at = now() + INTERVAL '1 month',
+        plan_credits = v_session.credits,
+        plan_subscription_id = p_subscription_id,
+        plan_canceled_at = NULL
+    WHERE id = v_session.user_id;
+  ELSE
+    SELECT t.transaction_id, t.balance INTO v_transaction_id, v_balance
+    FROM public.apply_credit_change(
+      v_session.user_id,
+      v_session.credits,
+      'purchase',
+      format('Purchased %s credits', v_session.credits),
+      v_session.amount_cents / 100.0
+    ) t;
+  END IF;
+
+  UPDATE public.payment_sessions
+  SET status = 'completed',
+      transaction_id = v_transaction_id,
+      completed_at = now(),
+      updated_at = now()
+  WHERE id = p_session_id;
+
+  RETURN QUERY SELECT
+    v_transaction_id,
+    v_balance,
+    TRUE,
+    CASE WHEN v_previous_subscription IS DISTINCT FROM p_subscription_id THEN v_previous_subscription END;
+END;
+$$;
+
+-- ==================== Monthly renewal ====================
+
+-- Renews due plans that have a paid invoice for the new period, ends canceled plans and
+-- lets plans lapse once their renewal has gone unpaid for p_grace. Each call applies at
+-- most one invoice per account, so a plan never advances more than one period per run.
+-- Due plans still waiting for their invoice are left alone.
+DROP FUNCTION IF EXISTS public.renew_due_plans(INTEGER);
+
+CREATE OR REPLACE FUNCTION public.renew_due_plans(
+  p_limit INTEGER DEFAULT 100,
+  p_grace INTERVAL DEFAULT INTERVAL '14 days'
+)
+RETURNS TABLE (renewed_user_id UUID, renewed_plan_id TEXT, outcome TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  r RECORD;
+  v_plan public.plans%ROWTYPE;
+  v_invoice public.plan_invoices%ROWTYPE;
+  v_expired INTEGER;
+BEGIN
+  FOR r IN
+    SELECT b.id, b.plan_id, b.credits, b.plan_credits, b.plan_renews_at, b.plan_canceled_at,
+           b.plan_subscription_id
+    FROM public.user_billing b
+    WHERE b.plan_id IS NOT NULL
+      AND b.plan_renews_at <= now()
+      AND (
+        b.plan_canceled_at IS NOT NULL
+        OR b.plan_renews_at <= now() - p_grace
+        OR EXISTS (
+          SELECT 1
+          FROM public.plan_invoices i
+          JOIN public.plans p ON p.id = b.plan_id
+          WHERE i.subscription_id = b.plan_subscription_id
+            AND i.applied_at IS NULL
+            AND i.amount_cents >= p.monthly_price_cents
+            AND (i.period_end IS NULL OR i.period_end > b.plan_renews_at)
+        )
+      )
+    ORDER BY b.plan_renews_at
+    LIMIT p_limit
+    FOR UPDATE OF b SKIP LOCKED
+  LOOP
+    SELECT * INTO v_plan FROM public.plans p WHERE p.id = r.plan_id;
+
+    v_invoice := NULL;
+    IF r.plan_canceled_at IS NULL THEN
+      SELECT * INTO v_invoice
+      FROM public.plan_invoices i
+      WHERE i.subscription_id = r.plan_subscription_id
+        AND i.applied_at IS NULL
+        AND i.amount_cents >= v_plan.monthly_price_cents
+        AND (i.period_end IS NULL OR i.period_end > r.plan_renews_at)
+      ORDER BY i.paid_at
+      LIMIT 1
+      FOR UPDATE;
+    END IF;
+
+    IF v_plan.credits_expire THEN
+      v_expired := LEAST(r.plan_credits, GREATEST(COALESCE(r.credits, 0), 0))::INTEGER;
+      IF v_expired > 0 THEN
+        PERFORM public.apply_credit_change(
+          r.id, -v_expired, 'usage', format('Unused %s plan credits expired', v_plan.name)
+        );
+      END IF;
+    END IF;
+
+    IF v_invoice.id IS NULL THEN
+      UPDATE public.user_billing b
+      SET plan_id = NULL,
+          plan_renews_at = NULL,
+          plan_credits = 0,
+          plan_subscription_id = NULL,
+          plan_canceled_at = NULL
+      WHERE b.id = r.id;
+
+      RETURN QUERY SELECT
+        r.id,
+        r.plan_id,
+        CASE WHEN r.plan_canceled_at IS NOT NULL THEN 'ended' ELSE 'lapsed' END::TEXT;
+      CONTINUE;
+    END IF;
+
+    PERFORM public.apply_credit_change(
+      r.id, v_plan.monthly_credits, 'award', format('%s plan monthly credits', v_plan.name)
+    );
+
+    UPDATE public.plan_invoices i
+    SET applied_at = now()
+    WHERE i.id = v_invoice.id;
+
+    -- The invoice's billing period decides the next renewal, so the plan follows its
+    -- subscription even when the sweep runs late
+    UPDATE public.user_billing b
+    SET plan_credits = v_plan.monthly_credits,
+        plan_renews_at = COALESCE(v_invoice.period_end, r.plan_renews_at + INTERVAL '1 month')
+    WHERE b.id = r.id;
+
+    RETURN QUERY SELECT r.id, r.plan_id, 'renewed'::TEXT;
+  END LOOP;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.complete_payment_session(UUID, TEXT, INTEGER, TEXT, TEXT)
+FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_payment_session(UUID, TEXT, INTEGER, TEXT, TEXT)
+TO service_role;
+REVOKE ALL ON FUNCTION public.renew_due_plans(INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.renew_due_plans(INTEGER, INTERVAL) TO service_role;
+
+-- Verify the change
+SELECT table_name, column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'plan_invoices'
+ORDER BY ordinal_position;
+
+SELECT id, name, monthly_price_cents, monthly_credits, credits_expire
+FROM public.plans
+ORDER BY sort_order;
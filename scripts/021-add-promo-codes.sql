@@ -0,0 +1,114 @@
+-- Migration script for promo codes
+-- Admins create codes worth a number of credits (e.g. for workshop attendees). Redeeming
+-- one goes through redeem_promo_code(), which checks expiry, the redemption limit and
+-- single use per user under a lock on the code, records the redemption and grants the
+-- credits through the ledger as an 'award' in one transaction.
+-- Only the service role accesses these tables (RLS enabled without policies).
+
+CREATE TABLE IF NOT EXISTS public.promo_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE CHECK (code = upper(code)),
+  credits INTEGER NOT NULL CHECK (credits > 0),
+  description TEXT,
+  expires_at TIMESTAMPTZ,
+  max_redemptions INTEGER CHECK (max_redemptions IS NULL OR max_redemptions > 0),
+  single_use_per_user BOOLEAN NOT NULL DEFAULT true,
+  redemption_count INTEGER NOT NULL DEFAULT 0,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.promo_code_redemptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  promo_code_id UUID NOT NULL REFERENCES public.promo_codes(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  transaction_id UUID REFERENCES public.user_transactions(id) ON DELETE SET NULL,
+  redeemed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_promo_code_redemptions_code_user
+ON public.promo_code_redemptions(promo_code_id, user_id);
+
+ALTER TABLE public.promo_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.promo_code_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- ==================== Redemption ====================
+
+CREATE OR REPLACE FUNCTION public.redeem_promo_code(p_user_id UUID, p_code TEXT)
+RETURNS TABLE (transaction_id UUID, credits INTEGER, balance NUMERIC)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_promo public.promo_codes%ROWTYPE;
+  v_transaction_id UUID;
+  v_balance NUMERIC;
+BEGIN
+  -- Concurrent redemptions of one code queue up here, so the limits hold
+  SELECT * INTO v_promo
+  FROM public.promo_codes p
+  WHERE p.code = upper(trim(p_code))
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_promo.active THEN
+    RAISE EXCEPTION 'promo_invalid: %', p_code;
+  END IF;
+
+  IF v_promo.expires_at IS NOT NULL AND v_promo.expires_at <= now() THEN
+    RAISE EXCEPTION 'promo_expired: %', v_promo.code;
+  END IF;
+
+  IF v_promo.max_redemptions IS NOT NULL AND v_promo.redemption_count >= v_promo.max_redemptions THEN
+    RAISE EXCEPTION 'promo_exhausted: %', v_promo.code;
+  END IF;
+
+  IF v_promo.single_use_per_user AND EXISTS (
+    SELECT 1 FROM public.promo_code_redemptions r
+    WHERE r.promo_code_id = v_promo.id AND r.user_id = p_user_id
+  ) THEN
+    RAISE EXCEPTION 'promo_already_redeemed: %', v_promo.code;
+  END IF;
+
+  SELECT t.transaction_id, t.balance INTO v_transaction_id, v_balance
+  FROM public.apply_credit_change(
+    p_user_id,
+    v_promo.credits,
+    'award',
+    format('Promo code %s', v_promo.code)
+  ) t;
+
+  INSERT INTO public.promo_code_redemptions (promo_code_id, user_id, transaction_id)
+  VALUES (v_promo.id, p_user_id, v_transaction_id);
+
+  UPDATE public.promo_codes p
+  SET redemption_count = p.redemption_count + 1
+  WHERE p.id = v_promo.id;
+
+  RETURN QUERY SELECT v_transaction_id, v_promo.credits, v_balance;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.redeem_promo_code(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.redeem_promo_code(UUID, TEXT) TO service_role;
+
+-- ==================== Admin statistics ====================
+
+CREATE OR REPLACE VIEW public.promo_code_stats AS
+SELECT
+  p.*,
+  COUNT(DISTINCT r.user_id) AS unique_users,
+  p.redemption_count * p.credits AS credits_awarded,
+  MAX(r.redeemed_at) AS last_redeemed_at
+FROM public.promo_codes p
+LEFT JOIN public.promo_code_redemptions r ON r.promo_code_id = p.id
+GROUP BY p.id;
+
+REVOKE ALL ON public.promo_code_stats FROM anon, authenticated;
+
+-- Verify the change
+SELECT table_name, column_name, data_type
+FROM information_schema.columns
+WHERE table_name IN ('promo_codes', 'promo_code_redemptions')
+ORDER BY table_name, ordinal_position;
@@ -0,0 +1,192 @@
+-- Migration script for the referral program
+-- Every user gets a referral code (user_billing.referral_code) to share as a link. A new
+-- account that signs up through the link is recorded in referrals by claim_referral();
+-- when its first generation completes, award_referral() grants both accounts credits as
+-- two 'award' transactions linked through the referral row.
+-- Fraud guards: no self-referral (same account or same address up to a +tag), only new
+-- accounts can be referred, and a referrer earns at most one award per email domain of
+-- the referred accounts per day (further referrals from that domain are rejected).
+-- Only the service role accesses the referrals table (RLS enabled without policies).
+
+ALTER TABLE public.user_billing
+ADD COLUMN IF NOT EXISTS referral_code TEXT UNIQUE CHECK (referral_code = upper(referral_code));
+
+CREATE TABLE IF NOT EXISTS public.referrals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  referrer_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  referred_user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  referral_code TEXT NOT NULL,
+  email_domain TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'awarded', 'rejected')),
+  rejected_reason TEXT,
+  referrer_transaction_id UUID REFERENCES public.user_transactions(id) ON DELETE SET NULL,
+  referred_transaction_id UUID REFERENCES public.user_transactions(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  awarded_at TIMESTAMPTZ,
+  CHECK (referrer_id <> referred_user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_referrals_referrer_domain
+ON public.referrals(referrer_id, email_domain, awarded_at);
+
+ALTER TABLE public.referrals ENABLE ROW LEVEL SECURITY;
+
+-- Email address with the +tag removed, so aliases of one mailbox compare equal
+CREATE OR REPLACE FUNCTION public.referral_email_key(p_email TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT regexp_replace(lower(trim(p_email)), '\+[^@]*@', '@');
+$$;
+
+-- ==================== Claiming a referral at signup ====================
+
+CREATE OR REPLACE FUNCTION public.claim_referral(
+  p_referred_user_id UUID,
+  p_code TEXT,
+  p_max_account_age INTERVAL
+)
+RETURNS TABLE (referral_id UUID, referrer_id UUID, status TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_referrer_id UUID;
+  v_referrer_email TEXT;
+  v_referred_email TEXT;
+  v_referred_created_at TIMESTAMPTZ;
+BEGIN
+  -- A user is referred at most once; claiming again returns the existing referral
+  RETURN QUERY
+  SELECT r.id, r.referrer_id, r.status
+  FROM public.referrals r
+  WHERE r.referred_user_id = p_referred_user_id;
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT b.id, u.email INTO v_referrer_id, v_referrer_email
+  FROM public.user_billing b
+  JOIN auth.users u ON u.id = b.id
+  WHERE b.referral_code = upper(trim(p_code));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'referral_invalid: %', p_code;
+  END IF;
+
+  SELECT u.email, u.created_at INTO v_referred_email, v_referred_created_at
+  FROM auth.users u
+  WHERE u.id = p_referred_user_id;
+
+  IF v_referrer_id = p_referred_user_id
+     OR public.referral_email_key(v_referrer_email) = public.referral_email_key(v_referred_email) THEN
+    RAISE EXCEPTION 'referral_self: %', p_code;
+  END IF;
+
+  -- Existing users cannot attach a referral after the fact
+  IF v_referred_created_at < now() - p_max_account_age OR EXISTS (
+    SELECT 1 FROM public.jobs j
+    WHERE j.user_id = p_referred_user_id AND j.api_status = 'completed'
+  ) THEN
+    RAISE EXCEPTION 'referral_not_new: %', p_referred_user_id;
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO public.referrals (referrer_id, referred_user_id, referral_code, email_domain)
+  VALUES (
+    v_referrer_id,
+    p_referred_user_id,
+    upper(trim(p_code)),
+    COALESCE(split_part(lower(v_referred_email), '@', 2), '')
+  )
+  ON CONFLICT (referred_user_id) DO NOTHING
+  RETURNING id, referrals.referrer_id, referrals.status;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_referral(UUID, TEXT, INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_referral(UUID, TEXT, INTERVAL) TO service_role;
+
+-- ==================== Awarding after the first generation ====================
+
+CREATE OR REPLACE FUNCTION public.award_referral(
+  p_referred_user_id UUID,
+  p_referrer_credits INTEGER,
+  p_referred_credits INTEGER
+)
+RETURNS TABLE (referral_id UUID, outcome TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_referral public.referrals%ROWTYPE;
+  v_referrer_transaction_id UUID;
+  v_referred_transaction_id UUID;
+BEGIN
+  SELECT * INTO v_referral
+  FROM public.referrals r
+  WHERE r.referred_user_id = p_referred_user_id AND r.status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT NULL::UUID, 'none'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Awards of one referrer for one domain queue up here, so the daily limit holds
+  PERFORM pg_advisory_xact_lock(hashtext(v_referral.referrer_id::TEXT || '@' || v_referral.email_domain));
+
+  IF EXISTS (
+    SELECT 1 FROM public.referrals r
+    WHERE r.referrer_id = v_referral.referrer_id
+      AND r.email_domain = v_referral.email_domain
+      AND r.status = 'awarded'
+      AND r.awarded_at > now() - INTERVAL '1 day'
+  ) THEN
+    UPDATE public.referrals r
+    SET status = 'rejected', rejected_reason = 'domain_daily_limit'
+    WHERE r.id = v_referral.id;
+
+    RETURN QUERY SELECT v_referral.id, 'rejected'::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT t.transaction_id INTO v_referrer_transaction_id
+  FROM public.apply_credit_change(
+    v_referral.referrer_id,
+    p_referrer_credits,
+    'award',
+    'Referral bonus: a friend you invited made their first model'
+  ) t;
+
+  SELECT t.transaction_id INTO v_referred_transaction_id
+  FROM public.apply_credit_change(
+    v_referral.referred_user_id,
+    p_referred_credits,
+    'award',
+    'Referral bonus: joined with an invite'
+  ) t;
+
+  UPDATE public.referrals r
+  SET status = 'awarded',
+      referrer_transaction_id = v_referrer_transaction_id,
+      referred_transaction_id = v_referred_transaction_id,
+      awarded_at = now()
+  WHERE r.id = v_referral.id;
+
+  RETURN QUERY SELECT v_referral.id, 'awarded'::TEXT;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.award_referral(UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.award_referral(UUID, INTEGER, INTEGER) TO service_role;
+
+-- Verify the change
+SELECT table_name, column_name, data_type
+FROM information_schema.columns
+WHERE (table_name = 'referrals')
+   OR (table_name = 'user_billing' AND column_name = 'referral_code')
+ORDER BY table_name, ordinal_position;
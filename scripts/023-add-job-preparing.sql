@@ -0,0 +1,22 @@
+-- Migration script for jobs that are still being prepared
+-- A new job is inserted as 'preparing' and only becomes 'pending' (releasable by the
+-- queue) once its model version and model link are written
+
+ALTER TABLE public.jobs
+DROP CONSTRAINT IF EXISTS jobs_api_status_check;
+
+ALTER TABLE public.jobs
+ADD CONSTRAINT jobs_api_status_check
+CHECK (api_status IN ('preparing', 'pending', 'queued', 'processing', 'retrying', 'completed', 'failed', 'canceled'));
+
+-- A job being prepared is already the model's unfinished job
+DROP INDEX IF EXISTS public.idx_jobs_active_model;
+
+CREATE UNIQUE INDEX idx_jobs_active_model
+ON public.jobs(model_id)
+WHERE api_status IN ('preparing', 'pending', 'queued', 'processing', 'retrying');
+
+-- Verify the change
+SELECT conname, pg_get_constraintdef(oid)
+FROM pg_constraint
+WHERE conname = 'jobs_api_status_check';
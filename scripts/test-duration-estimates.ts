@@ -0,0 +1,119 @@
+import assert from 'assert';
+import { percentile, projectRemaining, summarizeDurations } from '../lib/generation/duration-math';
+import type { DurationStats } from '../lib/generation/duration-math';
+
+async function testDurationEstimates() {
+  console.log("🧪 Testing duration statistics and ETAs...");
+
+  try {
+    // Nearest-rank percentiles
+    assert.strictEqual(percentile([10, 20, 30, 40], 50), 20);
+    assert.strictEqual(percentile([10, 20, 30, 40], 90), 40);
+    assert.strictEqual(percentile([40, 10, 30, 20], 50), 20, 'input order must not matter');
+    assert.strictEqual(percentile([7], 90), 7);
+    console.log("✅ Percentiles");
+
+    // Per provider and preset, newest samples only, impossible timestamps skipped; the wait
+    // starts at submission, so the 100s each job spent in our own queue is left out
+    const job = (submittedAt: number, startedAt: number, completedAt: number, preset = 'standard') => ({
+      provider: 'firtoz-trellis',
+      quality_preset: preset,
+      created_at: new Date((submittedAt - 100) * 1000).toISOString(),
+      submitted_at: new Date(submittedAt * 1000).toISOString(),
+      started_at: new Date(startedAt * 1000).toISOString(),
+      completed_at: new Date(completedAt * 1000).toISOString()
+    });
+    const stats = summarizeDurations([
+      job(0, 10, 110),
+      job(0, 20, 220),
+      job(0, 30, 330),
+      job(0, 5, 5),          // No run time: skipped
+      job(0, 40, 440),       // Beyond the sample size: skipped
+      job(0, 2, 62, 'fast')
+    ], 3, 'now');
+
+    const standard = stats.find(row => row.quality_preset === 'standard');
+    assert.deepStrictEqual(standard, {
+      provider: 'firtoz-trellis',
+      quality_preset: 'standard',
+      sample_size: 3,
+      queue_wait_p50_seconds: 20,
+      queue_wait_p90_seconds: 30,
+      run_p50_seconds: 200,
+      run_p90_seconds: 300,
+      updated_at: 'now'
+    });
+    assert.strictEqual(stats.find(row => row.quality_preset === 'fast')?.run_p50_seconds, 60);
+    console.log("✅ Statistics grouped by provider and preset");
+
+    // Remaining-time projections
+    const base: DurationStats = {
+      provider: 'firtoz-trellis',
+      quality_preset: 'standard',
+      sample_size: 10,
+      queue_wait_p50_seconds: 20,
+      queue_wait_p90_seconds: 40,
+      run_p50_seconds: 100,
+      run_p90_seconds: 150,
+      updated_at: 'now'
+    };
+    const now = Date.parse('2025-01-01T00:10:00Z');
+    const at = (secondsAgo: number) => new Date(now - secondsAgo * 1000).toISOString();
+
+    const pending = projectRemaining(
+      { api_status: 'pending', created_at: at(0) },
+      base,
+      { pending: true, pendingEtaSeconds: 300, now }
+    );
+    assert.deepStrictEqual(
+      [pending.stage, pending.remaining_seconds, pending.remaining_p90_seconds],
+      ['pending', 300, 350]
+    );
+
+    // Submitted 5s ago after a minute in our queue: 15s of the provider wait left
+    const waiting = projectRemaining(
+      { api_status: 'queued', created_at: at(65), submitted_at: at(5) },
+      base,
+      { pending: false, now }
+    );
+    assert.deepStrictEqual(
+      [waiting.stage, waiting.remaining_seconds, waiting.remaining_p90_seconds],
+      ['waiting', 115, 185]
+    );
+
+    // 25% done after 30s: 90s left, extrapolated from progress
+    const running = projectRemaining(
+      { api_status: 'processing', created_at: at(60), started_at: at(30), progress: 25 },
+      base,
+      { pending: false, now }
+    );
+    assert.deepStrictEqual(
+      [running.stage, running.remaining_seconds, running.remaining_p90_seconds],
+      ['running', 90, 120]
+    );
+
+    // Too early to extrapolate: falls back to the p50 run time
+    const early = projectRemaining(
+      { api_status: 'processing', created_at: at(60), started_at: at(30), progress: 5 },
+      base,
+      { pending: false, now }
+    );
+    assert.strictEqual(early.remaining_seconds, 70);
+
+    const finished = projectRemaining(
+      { api_status: 'completed', created_at: at(60), completed_at: at(0) },
+      base,
+      { pending: false, now }
+    );
+    assert.strictEqual(finished.stage, 'finished');
+    assert.strictEqual(finished.remaining_seconds, 0);
+    console.log("✅ Remaining-time projections");
+
+    console.log("🎉 All duration estimate tests passed!");
+  } catch (error) {
+    console.error("❌ Test failed:", error);
+    process.exit(1);
+  }
+}
+
+testDurationEstimates();
@@ -0,0 +1,47 @@
+import { MockTrellisService } from '../lib/mock-trellis/service';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config({ path: '.env.local' });
+
+// Short timeline so the run finishes quickly
+process.env.MOCK_GENERATION_STARTING_MS ??= '500';
+process.env.MOCK_GENERATION_PROCESSING_MS ??= '1500';
+
+async function testMockGeneration() {
+  const service = new MockTrellisService();
+  
+  console.log("Testing mock generation provider...");
+  
+  try {
+    const predictionId = await service.createPrediction({
+      images: ['http://localhost:3000/placeholder.jpg'],
+      texture_size: 2048,
+      mesh_simplify: 0.9,
+      generate_model: true,
+      save_gaussian_ply: false,
+      ss_sampling_steps: 38
+    });
+    
+    console.log("✅ Prediction created. ID:", predictionId);
+    
+    // Poll until the prediction reaches a terminal status
+    let prediction = await service.getPredictionStatus(predictionId);
+    while (prediction.status === 'starting' || prediction.status === 'processing') {
+      console.log("⏳ Status:", prediction.status);
+      await new Promise(resolve => setTimeout(resolve, 500));
+      prediction = await service.getPredictionStatus(predictionId);
+    }
+    
+    if (prediction.status !== 'succeeded' || !prediction.output?.model_file) {
+      throw new Error(`Unexpected final status: ${prediction.status}`);
+    }
+    
+    console.log("✅ Prediction succeeded. Model file URL:", prediction.output.model_file);
+  } catch (error) {
+    console.error("❌ Test failed:", error);
+    process.exit(1);
+  }
+}
+
+testMockGeneration();
@@ -0,0 +1,47 @@
+import assert from 'assert';
+import { signPayload, SIGNATURE_TOLERANCE_SECONDS, verifySignature } from '../lib/payments/signature';
+import { PaymentSignatureError } from '../lib/payments/types';
+
+async function testPaymentSignature() {
+  console.log("🧪 Testing payment webhook signatures...");
+
+  const rejects = (body: string, header: string | null, secret: string, now: number, message: RegExp) =>
+    assert.throws(
+      () => verifySignature(body, header, secret, now),
+      (error: unknown) => error instanceof PaymentSignatureError && message.test(error.message)
+    );
+
+  try {
+    const secret = 'whsec_test_secret';
+    const body = JSON.stringify({ id: 'evt_1', type: 'checkout.session.completed' });
+    const now = 1_700_000_000;
+
+    const header = signPayload(body, secret, now);
+    assert.match(header, /^t=1700000000,v1=[0-9a-f]{64}$/);
+
+    // A matching delivery, including within the tolerance window
+    verifySignature(body, header, secret, now);
+    verifySignature(body, header, secret, now + SIGNATURE_TOLERANCE_SECONDS);
+    console.log("✅ Valid signature accepted");
+
+    // Any v1 entry may match (e.g. while the secret is rolled)
+    const rolled = `${signPayload(body, 'old_secret', now)},${header.split(',')[1]}`;
+    verifySignature(body, rolled, secret, now);
+    console.log("✅ Several signatures in one header");
+
+    rejects(body, null, secret, now, /Missing/);
+    rejects(body, 'v1=abc', secret, now, /Malformed/);
+    rejects(body, `t=${now}`, secret, now, /Malformed/);
+    rejects(body, header, secret, now + SIGNATURE_TOLERANCE_SECONDS + 1, /tolerance/);
+    rejects(body, header, 'wrong_secret', now, /Invalid signature/);
+    rejects(`${body} `, header, secret, now, /Invalid signature/);
+    console.log("✅ Missing, old or forged signatures rejected");
+
+    console.log("🎉 All payment signature tests passed!");
+  } catch (error) {
+    console.error("❌ Test failed:", error);
+    process.exit(1);
+  }
+}
+
+testPaymentSignature();
@@ -0,0 +1,94 @@
+import assert from 'assert';
+import {
+  groupByFilename,
+  groupByManifest,
+  MAX_BATCH_SETS,
+  normalizeManifestRows,
+  parseBatchManifest
+} from '../lib/batch/photo-sets';
+
+const file = (name: string) => ({ name });
+
+async function testPhotoSets() {
+  console.log("🧪 Testing batch photo-set grouping...");
+
+  try {
+    // Filename convention
+    const byName = groupByFilename([
+      file('sku-123_front.jpg'),
+      file('sku-123-LEFT.png'),
+      file('sku 456 front.webp'),
+      file('sku-456_front.jpg'),
+      file('sku-456_front.png'),
+      file('sku-789_back.jpg'),
+      file('readme.txt')
+    ]);
+
+    assert.deepStrictEqual(byName.sets.map(set => set.name), ['sku-123', 'sku 456', 'sku-456']);
+    assert.deepStrictEqual(Object.keys(byName.sets[0].views), ['front', 'left']);
+    assert.deepStrictEqual(byName.errors, [
+      'sku-456_front.png: set "sku-456" already has a front photo',
+      'readme.txt: name must end in _front, _back, _left or _right',
+      'sku-789: a front photo is required'
+    ]);
+    console.log("✅ Grouping by filename");
+
+    // Batch size limit
+    const tooMany = groupByFilename(Array.from({ length: MAX_BATCH_SETS + 2 }, (_, i) => file(`set${i}_front.jpg`)));
+    assert.strictEqual(tooMany.sets.length, MAX_BATCH_SETS);
+    assert.deepStrictEqual(tooMany.errors, [`Only the first ${MAX_BATCH_SETS} sets fit in one batch`]);
+    console.log("✅ Batch size limit");
+
+    // CSV manifest with quoted cells and tags
+    const csv = parseBatchManifest([
+      'Name,Front,Left,Preset,Tags',
+      '"Chair, oak",chair.JPG,chair-side.jpg,high,furniture; oak |furniture',
+      'Lamp,lamp.jpg,,,',
+      'Vase,vase.jpg,,,'
+    ].join('\n'));
+
+    assert.deepStrictEqual(csv[0], {
+      name: 'Chair, oak',
+      front: 'chair.JPG',
+      left: 'chair-side.jpg',
+      preset: 'high',
+      tags: ['furniture', 'oak']
+    });
+    assert.deepStrictEqual(csv[1], { name: 'Lamp', front: 'lamp.jpg' });
+    console.log("✅ CSV manifest");
+
+    // JSON manifest, in both shapes
+    const json = parseBatchManifest('{ "sets": [{ "name": "Lamp", "front": "lamp.jpg", "tags": ["light", " ", "light"] }] }');
+    assert.deepStrictEqual(json, [{ name: 'Lamp', front: 'lamp.jpg', tags: ['light'] }]);
+    assert.deepStrictEqual(parseBatchManifest('[{ "name": "Lamp" }]'), [{ name: 'Lamp' }]);
+    console.log("✅ JSON manifest");
+
+    // Files matched to manifest entries, ignoring case
+    const byManifest = groupByManifest(
+      [file('CHAIR.jpg'), file('chair-side.jpg'), file('lamp.jpg')],
+      csv
+    );
+    assert.deepStrictEqual(byManifest.sets.map(set => set.name), ['Chair, oak', 'Lamp']);
+    assert.strictEqual(byManifest.sets[0].views.front?.name, 'CHAIR.jpg');
+    assert.deepStrictEqual(byManifest.errors, [
+      'Vase: front photo "vase.jpg" was not uploaded',
+      'Vase: a front photo is required'
+    ]);
+    console.log("✅ Grouping by manifest");
+
+    // Manifests that cannot be read
+    assert.throws(() => parseBatchManifest('{ not json'), /not valid JSON/);
+    assert.throws(() => parseBatchManifest('{ "rows": [] }'), /must be an array/);
+    assert.throws(() => parseBatchManifest('front,back\na.jpg,b.jpg'), /"name" column/);
+    assert.throws(() => parseBatchManifest('name,front'), /header row and at least one set/);
+    assert.throws(() => normalizeManifestRows([{ front: 'a.jpg' }]), /row 1 has no name/);
+    console.log("✅ Invalid manifests rejected");
+
+    console.log("🎉 All photo-set tests passed!");
+  } catch (error) {
+    console.error("❌ Test failed:", error);
+    process.exit(1);
+  }
+}
+
+testPhotoSets();
@@ -0,0 +1,74 @@
+import assert from 'assert';
+import { parseSplatPly } from '../lib/splat/ply';
+
+const SPLAT_PROPERTIES = ['x', 'y', 'z', 'f_dc_0', 'f_dc_1', 'f_dc_2', 'opacity', 'scale_0', 'scale_1', 'scale_2'];
+
+/**
+ * Builds a binary little-endian PLY with float properties
+ */
+function buildPly(properties: string[], vertices: number[][], format = 'binary_little_endian 1.0'): ArrayBuffer {
+  const header = [
+    'ply',
+    `format ${format}`,
+    `element vertex ${vertices.length}`,
+    ...properties.map(name => `property float ${name}`),
+    'end_header',
+    ''
+  ].join('\n');
+
+  const headerBytes = new TextEncoder().encode(header);
+  const buffer = new ArrayBuffer(headerBytes.length + vertices.length * properties.length * 4);
+  new Uint8Array(buffer).set(headerBytes);
+
+  const view = new DataView(buffer, headerBytes.length);
+  vertices.flat().forEach((value, index) => view.setFloat32(index * 4, value, true));
+  return buffer;
+}
+
+async function testPlyParsing() {
+  console.log("🧪 Testing Gaussian splat PLY parsing...");
+
+  try {
+    const cloud = parseSplatPly(buildPly(SPLAT_PROPERTIES, [
+      [-1, 0, 0, 0, 0, 0, 0, Math.log(0.1), Math.log(0.2), Math.log(0.05)],
+      [1, 2, 4, 10, -10, 0, 100, 0, 0, 0]
+    ]));
+
+    assert.strictEqual(cloud.count, 2);
+    assert.deepStrictEqual(Array.from(cloud.positions), [-1, 0, 0, 1, 2, 4]);
+    assert.deepStrictEqual(cloud.center, [0, 1, 2]);
+    assert.ok(Math.abs(cloud.radius - Math.hypot(2, 2, 4) / 2) < 1e-6);
+    console.log("✅ Positions and bounds");
+
+    // f_dc of 0 is mid grey, opacity is a logit, sizes are the largest log scale
+    const colors = Array.from(cloud.colors);
+    assert.deepStrictEqual(colors.slice(0, 4).map(value => +value.toFixed(3)), [0.5, 0.5, 0.5, 0.5]);
+    assert.deepStrictEqual(colors.slice(4, 7), [1, 0, 0.5], 'colors are clamped to 0..1');
+    assert.ok(colors[7] > 0.999);
+    assert.ok(Math.abs(cloud.sizes[0] - 0.2) < 1e-6);
+    assert.ok(Math.abs(cloud.sizes[1] - 1) < 1e-6);
+    console.log("✅ Colors, opacity and sizes");
+
+    // Large files are subsampled evenly
+    const many = Array.from({ length: 10 }, (_, i) => [i, 0, 0, 0, 0, 0, 0, 0, 0, 0]);
+    const sampled = parseSplatPly(buildPly(SPLAT_PROPERTIES, many), 4);
+    assert.strictEqual(sampled.count, 4);
+    assert.deepStrictEqual(Array.from(sampled.positions).filter((_, i) => i % 3 === 0), [0, 3, 6, 9]);
+    console.log("✅ Subsampling");
+
+    // Files the preview cannot read
+    assert.throws(() => parseSplatPly(new TextEncoder().encode('solid mesh\n').buffer as ArrayBuffer), /Not a PLY file/);
+    assert.throws(() => parseSplatPly(buildPly(SPLAT_PROPERTIES, [[0, 0, 0, 0, 0, 0, 0, 0, 0, 0]], 'ascii 1.0')), /binary little-endian/);
+    assert.throws(() => parseSplatPly(buildPly(['red', 'green', 'blue'], [[1, 1, 1]])), /no vertex positions/);
+    const truncated = buildPly(SPLAT_PROPERTIES, [[0, 0, 0, 0, 0, 0, 0, 0, 0, 0]]);
+    assert.throws(() => parseSplatPly(truncated.slice(0, truncated.byteLength - 4)), /truncated/);
+    console.log("✅ Unsupported files rejected");
+
+    console.log("🎉 All PLY parsing tests passed!");
+  } catch (error) {
+    console.error("❌ Test failed:", error);
+    process.exit(1);
+  }
+}
+
+testPlyParsing();
@@ -0,0 +1,69 @@
+import assert from 'assert';
+import {
+  classifyFailure,
+  getFailureDetails,
+  getNextAttemptAt,
+  hasRetryBudget,
+  MAX_JOB_ATTEMPTS,
+  RETRY_BASE_DELAY_SECONDS,
+  RETRY_MAX_DELAY_SECONDS
+} from '../lib/generation/retry';
+
+async function testRetryClassification() {
+  console.log("🧪 Testing job retry policy...");
+
+  try {
+    // HTTP statuses decide on their own
+    assert.strictEqual(classifyFailure({ httpStatus: 503 }), 'retryable');
+    assert.strictEqual(classifyFailure({ httpStatus: 429 }), 'retryable');
+    assert.strictEqual(classifyFailure({ httpStatus: 422, message: 'Request timed out' }), 'permanent');
+    assert.strictEqual(classifyFailure({ httpStatus: 404 }), 'permanent');
+    console.log("✅ HTTP statuses");
+
+    // Network error codes
+    assert.strictEqual(classifyFailure({ code: 'ECONNRESET' }), 'retryable');
+    assert.strictEqual(classifyFailure({ code: 'UND_ERR_CONNECT_TIMEOUT' }), 'retryable');
+    assert.strictEqual(classifyFailure({ code: 'ENOENT' }), 'permanent');
+    console.log("✅ Network error codes");
+
+    // Prediction messages
+    assert.strictEqual(classifyFailure('CUDA out of memory'), 'retryable');
+    assert.strictEqual(classifyFailure('Prediction timed out'), 'retryable');
+    assert.strictEqual(classifyFailure('Service Unavailable, try again later'), 'retryable');
+    assert.strictEqual(classifyFailure('Model version 500 not found'), 'permanent', 'bare numbers are not statuses');
+    assert.strictEqual(classifyFailure('Invalid input image'), 'permanent');
+    assert.strictEqual(classifyFailure(null), 'permanent');
+    console.log("✅ Prediction messages");
+
+    // Details of thrown errors
+    const apiError = Object.assign(new Error('Request failed'), { response: { status: 502 } });
+    assert.deepStrictEqual(getFailureDetails(apiError), { message: 'Request failed', httpStatus: 502 });
+
+    const fetchError = new TypeError('fetch failed', { cause: { code: 'ECONNREFUSED' } });
+    assert.deepStrictEqual(getFailureDetails(fetchError), { message: 'fetch failed', code: 'ECONNREFUSED' });
+    assert.strictEqual(classifyFailure(getFailureDetails(fetchError)), 'retryable');
+
+    assert.deepStrictEqual(getFailureDetails('boom'), { message: null });
+    console.log("✅ Failure details of thrown errors");
+
+    // Attempt budget and backoff
+    assert.ok(hasRetryBudget({}));
+    assert.ok(hasRetryBudget({ attempt_count: MAX_JOB_ATTEMPTS - 1 }));
+    assert.ok(!hasRetryBudget({ attempt_count: MAX_JOB_ATTEMPTS }));
+    assert.ok(!hasRetryBudget({ attempt_count: 2, max_attempts: 2 }));
+
+    const now = new Date('2025-01-01T00:00:00Z');
+    const delay = (attempt: number) => (getNextAttemptAt(attempt, now).getTime() - now.getTime()) / 1000;
+    assert.strictEqual(delay(1), RETRY_BASE_DELAY_SECONDS);
+    assert.strictEqual(delay(2), RETRY_BASE_DELAY_SECONDS * 2);
+    assert.strictEqual(delay(20), RETRY_MAX_DELAY_SECONDS);
+    console.log("✅ Attempt budget and backoff");
+
+    console.log("🎉 All retry policy tests passed!");
+  } catch (error) {
+    console.error("❌ Test failed:", error);
+    process.exit(1);
+  }
+}
+
+testRetryClassification();
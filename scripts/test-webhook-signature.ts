@@ -0,0 +1,47 @@
+import assert from 'assert';
+import crypto from 'crypto';
+import { signWebhook, verifyWebhookSignature } from '../lib/generation/webhook-signature';
+
+async function testWebhookSignature() {
+  console.log("🧪 Testing webhook signature verification...");
+
+  try {
+    const secret = `whsec_${crypto.randomBytes(24).toString('base64')}`;
+    const otherSecret = `whsec_${crypto.randomBytes(24).toString('base64')}`;
+    const id = 'msg_test';
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const body = JSON.stringify({ id: 'prediction-1', status: 'succeeded' });
+
+    const signature = signWebhook(id, timestamp, body, secret);
+    assert.match(signature, /^v1,[A-Za-z0-9+/]+=*$/);
+
+    // A matching delivery
+    assert.ok(verifyWebhookSignature({ id, timestamp, signature }, body, secret));
+    console.log("✅ Valid signature accepted");
+
+    // The secret works with or without its whsec_ prefix
+    assert.ok(verifyWebhookSignature({ id, timestamp, signature }, body, secret.slice('whsec_'.length)));
+
+    // Any entry of a rotated header may match
+    const rotated = `${signWebhook(id, timestamp, body, otherSecret)} ${signature}`;
+    assert.ok(verifyWebhookSignature({ id, timestamp, signature: rotated }, body, secret));
+    console.log("✅ Several signatures in one header");
+
+    // Tampered deliveries
+    assert.ok(!verifyWebhookSignature({ id, timestamp, signature }, `${body} `, secret), 'tampered body');
+    assert.ok(!verifyWebhookSignature({ id: 'msg_other', timestamp, signature }, body, secret), 'other id');
+    assert.ok(!verifyWebhookSignature({ id, timestamp: '1', signature }, body, secret), 'other timestamp');
+    assert.ok(!verifyWebhookSignature({ id, timestamp, signature }, body, otherSecret), 'wrong secret');
+    assert.ok(!verifyWebhookSignature({ id, timestamp, signature: null }, body, secret), 'missing header');
+    assert.ok(!verifyWebhookSignature({ id, timestamp, signature: signature.replace('v1,', 'v2,') }, body, secret), 'other version');
+    assert.ok(!verifyWebhookSignature({ id, timestamp, signature: 'v1,' }, body, secret), 'empty signature');
+    console.log("✅ Tampered or unsigned deliveries rejected");
+
+    console.log("🎉 All webhook signature tests passed!");
+  } catch (error) {
+    console.error("❌ Test failed:", error);
+    process.exit(1);
+  }
+}
+
+testWebhookSignature();
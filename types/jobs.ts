@@ -0,0 +1,10 @@
+// Payload of a `job` event pushed by the /api/jobs/stream SSE endpoint
+export interface JobStreamEvent {
+  job_id: string;
+  status: string;               // jobs.api_status as stored (queued, processing, completed, failed, canceled)
+  stage: string | null;         // jobs.api_stage
+  progress: number;             // 0-100
+  model_url: string | null;     // Set once the GLB is stored
+  error_message: string | null;
+  updated_at: string;
+}
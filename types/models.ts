@@ -11,16 +11,16 @@ export interface PhotoSet {
   back?: UploadItem;
 }
 
-export type ModelStatus = "draft" | "uploading_photos" | "removing_background" | "generating_3d_model" | "completed" | "failed";
+export type ModelStatus = "draft" | "uploading_photos" | "removing_background" | "generating_3d_model" | "completed" | "failed" | "canceled";
 
-export type TransactionType = 'purchase' | 'usage' | 'award';
+export type TransactionType = 'purchase' | 'usage' | 'award' | 'refund';
 
 export interface ModelData {
   isTemporary?: boolean;
   expiresAt?: Date;
   id: string;
   thumbnail: string;
-  status: "draft" | "processing" | "completed" | "failed";
+  status: "draft" | "processing" | "completed" | "failed" | "canceled";
   modelUrl?: string;
   uploadedAt: Date;
   updatedAt: Date;